@@ -0,0 +1,243 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Tick, Move, Restart } from "./game";
+import { App, AppEvent, KeyPress, AutoPause, Pause, Autopilot, Received, createApp, reduceApp } from "./app";
+import { INPUTDELAY } from "./net";
+import { SoundKind } from "./audio";
+
+/**
+ * Function that feeds a scripted sequence of events through the reducer of the app
+ * @param a The state of the app to start from
+ * @param events The scripted events
+ * @returns The state of the app after every event has been reduced
+ */
+const play = (a: App, events: ReadonlyArray<AppEvent>): App => events.reduce(reduceApp, a);
+
+/**
+ * Function that creates the key presses for typing the given keys
+ * @param keys The given keys
+ * @returns The key presses
+ */
+const type = (...keys: ReadonlyArray<string>): ReadonlyArray<KeyPress> => keys.map(key => new KeyPress(key, Date.UTC(2022, 8, 6)));
+
+/**
+ * A game that has just been lost with a score good enough for the leaderboard
+ */
+const lost = (a: App): App => play({...a, game: {...a.game, score: 1200, level: 2, lives: 1, dead: true}}, [new Tick(0)]);
+
+describe("reduceApp", () => {
+  it("starts on the title screen without running the game", () => {
+    const a = play(createApp(1, []), [new Tick(0), new Tick(1), new Move("w", -60)]);
+    assert.equal(a.screen, "title");
+    assert.equal(a.game.time, 0);
+    assert.equal(a.game.frog.position.y, 560);
+    assert.deepEqual(a.replay.events, []);
+  });
+
+  it("starts a new game from the title screen and records what the game sees", () => {
+    const a = play(createApp(1, []), [new Tick(0), ...type(" "), new Tick(1), new Move("w", -60)]);
+    assert.equal(a.screen, "playing");
+    assert.equal(a.game.time, 0);
+    assert.equal(a.game.frog.position.y, 500);
+    assert.deepEqual(a.replay.events, [["t", 0, 1], ["m", "w", -60]]);
+    assert.equal(a.replay.seed, a.game.seed);
+  });
+
+  it("starts with the best score of the leaderboard as the highscore", () => {
+    const a = play(createApp(1, [{initials: "AAA", score: 900, level: 2, date: ""}]), type("Enter"));
+    assert.equal(a.game.highScore, 900);
+  });
+
+  it("starts a game from the title screen when asked to restart", () => {
+    const a = play(createApp(1, []), [new Restart()]);
+    assert.equal(a.screen, "playing");
+    assert.equal(play({...a, screen: "leaderboard"}, [new Restart()]).screen, "title");
+  });
+
+  it("starts a game of two frogs playing together or racing each other from the title screen", () => {
+    assert.equal(play(createApp(1, []), type("c")).game.config.mode, "coop");
+    assert.equal(play(createApp(1, []), type("V")).replay.config.mode, "versus");
+    assert.equal(play(createApp(1, []), type(" ")).game.second, null);
+  });
+
+  it("picks the difficulty and turns adaptive difficulty on from the title screen", () => {
+    const a = play(createApp(1, []), type("d", "a"));
+    assert.deepEqual([a.config.difficulty, a.config.adaptive, a.config.lives], ["hard", true, 2]);
+    const hard = play(a, type(" "));
+    assert.deepEqual([hard.game.config.difficulty, hard.game.lives, hard.replay.config.difficulty], ["hard", 2, "hard"]);
+    assert.equal(play(a, type("d")).config.difficulty, "easy");
+  });
+
+  it("shows the leaderboard from the title screen", () => {
+    const a = play(createApp(1, []), type("l"));
+    assert.equal(a.screen, "leaderboard");
+    assert.equal(play(a, type("Escape")).screen, "title");
+  });
+
+  it("asks for initials when the score is good enough for the leaderboard", () => {
+    const a = lost(play(createApp(1, []), type(" ")));
+    assert.equal(a.game.gameOver, true);
+    assert.equal(a.screen, "initials");
+  });
+
+  it("puts the score on the leaderboard with the initials typed", () => {
+    const a = play(lost(play(createApp(1, []), type(" "))), type("a", "b", "Backspace", "c", "d", "e", "Enter"));
+    assert.equal(a.screen, "leaderboard");
+    assert.deepEqual(a.leaderboard, [{initials: "ACD", score: 1200, level: 2, date: "2022-09-06T00:00:00.000Z", difficulty: "normal", adaptive: false}]);
+  });
+
+  it("does not put two player games on the leaderboard", () => {
+    const a = play(createApp(1, []), type("c"));
+    const over = play({...a, game: {...a.game, lives: 1, dead: true, second: a.game.second && {...a.game.second, lives: 0}}}, [new Tick(0)]);
+    assert.equal(over.game.gameOver, true);
+    assert.equal(over.screen, "playing");
+    assert.equal(play(over, type("Escape")).screen, "title");
+  });
+
+  it("goes back to the title screen after a game over that is not good enough for the leaderboard", () => {
+    const full = Array(10).fill(0).map(() => ({initials: "AAA", score: 5000, level: 5, date: ""}));
+    const a = lost(play(createApp(1, full), type(" ")));
+    assert.equal(a.screen, "playing");
+    assert.equal(play(a, type("Escape")).screen, "title");
+  });
+});
+
+describe("pausing", () => {
+  /**
+   * A game that has been played for a while
+   */
+  const playing = play(createApp(1, []), [...type(" "), new Tick(0), new Tick(1), new Move("w", -60), new Tick(2)]);
+
+  it("freezes the game while paused, dropping ticks and moves", () => {
+    const a = play(playing, [new Pause(), new Tick(3), new Move("a", -45), new Tick(4)]);
+    assert.equal(a.paused, true);
+    assert.equal(a.game, playing.game);
+    assert.equal(a.replay, playing.replay);
+  });
+
+  it("resumes exactly where the game was paused", () => {
+    const paused = play(playing, [new Pause(), new Tick(3), new Tick(4), new Tick(5), new Pause(), new Tick(6)]);
+    const uninterrupted = play(playing, [new Tick(3)]);
+    assert.equal(paused.paused, false);
+    assert.equal(paused.game.time, uninterrupted.game.time);
+    assert.deepEqual(paused.game.cars.map(c => c.position.x), uninterrupted.game.cars.map(c => c.position.x));
+    assert.deepEqual(paused.replay.events, uninterrupted.replay.events);
+  });
+
+  it("pauses when the page loses focus, but does not resume by itself", () => {
+    const a = play(playing, [new AutoPause(), new AutoPause()]);
+    assert.equal(a.paused, true);
+  });
+
+  it("does not pause once the game is over", () => {
+    const a = play(lost(playing), [new AutoPause(), new Pause()]);
+    assert.equal(a.paused, false);
+  });
+});
+
+describe("autopilot", () => {
+  /**
+   * Function that creates the given number of ticks
+   * @param n The given number of ticks
+   * @returns The ticks
+   */
+  const ticks = (n: number): ReadonlyArray<Tick> => Array(n).fill(0).map((_, i) => new Tick(i));
+
+  it("lets the bot move the frog and records its moves", () => {
+    const a = play(createApp(2, []), [...type(" "), new Autopilot(), ...ticks(100)]);
+    assert.equal(a.autopilot, true);
+    assert.ok(a.game.frog.position.y < 560);
+    assert.ok(a.replay.events.some(e => e[0] === "m"));
+  });
+
+  it("plays the sound effects of the moves of the bot", () => {
+    const events = [...type(" "), new Autopilot(), ...ticks(100)];
+    const heard = events.reduce<[App, ReadonlyArray<SoundKind>]>(([a, sounds], e) => {
+      const next = reduceApp(a, e);
+      return [next, sounds.concat(next.sounds)];
+    }, [createApp(2, []), []])[1];
+    assert.ok(heard.includes("hop"));
+  });
+
+  it("hands the frog back when toggled again", () => {
+    const a = play(createApp(2, []), [...type(" "), new Autopilot(), new Autopilot(), ...ticks(100)]);
+    assert.equal(a.autopilot, false);
+    assert.equal(a.game.frog.position.y, 560);
+  });
+
+  it("is only toggled while a game is played", () => {
+    assert.equal(play(createApp(2, []), [new Autopilot()]).autopilot, false);
+  });
+});
+
+describe("online", () => {
+  /**
+   * The lobby, opened from the title screen
+   */
+  const lobby = play(createApp(1, []), type("o"));
+
+  /**
+   * A game played online as the second player, which has just started
+   */
+  const online = play(lobby, [
+    ...type("a", "b", "c", "d", "Enter"),
+    new Received({type: "joined", room: "ABCD", seed: 42, player: 1}),
+    new Received({type: "start"})
+  ]);
+
+  it("creates a room when no code is typed", () => {
+    const a = play(lobby, type("Enter"));
+    assert.equal(a.lobby.status, "connecting");
+    assert.deepEqual(a.outbox, [{type: "create"}]);
+    assert.deepEqual(play(a, [new Tick(0)]).outbox, []);
+  });
+
+  it("types the code of a room to join it", () => {
+    const a = play(lobby, type("a", "b", "x", "Backspace", "c", "d", "e", "Enter"));
+    assert.equal(a.lobby.room, "ABCD");
+    assert.deepEqual(a.outbox, [{type: "join", room: "ABCD"}]);
+    assert.deepEqual(play(lobby, type("a", "b", "Enter")).outbox, []);
+  });
+
+  it("shows the errors of the relay server and lets the user try again", () => {
+    const a = play(lobby, [...type("z", "z", "z", "z", "Enter"), new Received({type: "error", message: "Room ZZZZ does not exist"})]);
+    assert.equal(a.lobby.status, "error");
+    assert.equal(a.lobby.message, "Room ZZZZ does not exist");
+    assert.equal(play(a, type("Backspace")).lobby.status, "idle");
+  });
+
+  it("starts the game with the seed of the room once both players are in it", () => {
+    assert.equal(online.screen, "playing");
+    assert.equal(online.game.config.mode, "coop");
+    assert.equal(online.replay.seed, 42);
+    assert.equal(online.online && online.online.player, 1);
+  });
+
+  it("sends the moves of the player of this browser and applies them after the input delay", () => {
+    const moved = play(online, [new Move("w", -60)]);
+    assert.deepEqual(moved.outbox, [{type: "input", player: 1, upTo: INPUTDELAY, moves: [[INPUTDELAY, "w", -60]]}]);
+    const a = play(moved, [
+      ...Array(INPUTDELAY).fill(0).map((_, i) => new Tick(i)),
+      new Received({type: "input", player: 0, upTo: 50, moves: []}),
+      new Tick(INPUTDELAY)
+    ]);
+    assert.equal(a.ticks, INPUTDELAY + 1);
+    assert.equal(a.game.second && a.game.second.frog.position.y, 500);
+    assert.deepEqual(a.sounds, ["hop"]);
+    assert.deepEqual(a.replay.events.filter(e => e[0] === "m"), [["m", "w", -60, 1]]);
+  });
+
+  it("cannot be paused and goes back to the lobby when the other player leaves", () => {
+    assert.equal(play(online, [new Pause()]).paused, false);
+    const a = play(online, [new Received({type: "left"})]);
+    assert.equal(a.screen, "lobby");
+    assert.equal(a.lobby.message, "The other player left");
+    assert.equal(a.online, null);
+  });
+
+  it("leaves the game with Escape", () => {
+    const a = play(online, type("Escape"));
+    assert.equal(a.screen, "title");
+    assert.equal(a.online, null);
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * The app module which decides which screen is shown and feeds the events of the game to the game while it is being played.
+ * Like the game module, nothing in this module touches the DOM.
+ */
+import { State, GameEvent, Tick, Move, Restart, RNG, Mode, Config, DEFAULTCONFIG, createGame, reduceState, withDifficulty } from "./game";
+import { nextDifficulty } from "./difficulty";
+import { Replay, createReplay, recordEvent } from "./replay";
+import { Leaderboard, qualifies, addEntry, bestScore } from "./leaderboard";
+import { DECISIONTICKS, planMove } from "./bot";
+import { Message, Lockstep, ROOMCODELENGTH, createLockstep, localMove, receive, stepLockstep } from "./net";
+import { SoundKind, soundsOf, soundsOfEvents } from "./audio";
+
+/** The section below contains all the classes that will be used for the app */
+
+/**
+ * The KeyPress class which tracks any key pressed by the user, used to move between screens and to type initials
+ */
+export class KeyPress {
+
+  /**
+   * Constructor for the KeyPress class
+   * @param key The key that was pressed
+   * @param timestamp The time the key was pressed, in milliseconds since 1970
+   */
+  constructor(public readonly key: string, public readonly timestamp: number) {}
+};
+
+/**
+ * The AutoPause class which tracks when the page loses visibility or focus, so that the game can be paused
+ */
+export class AutoPause { constructor() {} };
+
+/**
+ * The Pause class which tracks when the user asks to pause or resume the game, from whichever input is bound to pausing
+ */
+export class Pause { constructor() {} };
+
+/**
+ * The Autopilot class which tracks when the user asks the bot to take over the frog or to hand it back
+ */
+export class Autopilot { constructor() {} };
+
+/**
+ * The Received class which tracks a message received from the relay server while playing online
+ */
+export class Received {
+
+  /**
+   * Constructor for the Received class
+   * @param message The message received
+   */
+  constructor(public readonly message: Message) {}
+};
+
+/** The section above contains all the classes that will be used for the app */
+
+/** The section below contains all the types that will be used for the app */
+
+/**
+ * The Screen type which represents all the screens of the app
+ */
+export type Screen = "title" | "playing" | "initials" | "leaderboard" | "lobby";
+
+/**
+ * The AppEvent type which represents all the events that can change the state of the app
+ */
+export type AppEvent = GameEvent | KeyPress | AutoPause | Pause | Autopilot | Received;
+
+/**
+ * The Lobby type which represents the room code typed by the user to play online and how far joining the room has got
+ */
+export type Lobby = Readonly<{
+  room: string,
+  status: "idle" | "connecting" | "waiting" | "error",
+  message: string
+}>
+
+/**
+ * The App type which represents the current state of the app, the messages to send to the relay server and the sound effects to play
+ * are those of the latest event
+ */
+export type App = Readonly<{
+  screen: Screen,
+  game: State,
+  replay: Replay,
+  leaderboard: Leaderboard,
+  initials: string,
+  paused: boolean,
+  autopilot: boolean,
+  ticks: number,
+  rng: RNG,
+  config: Config,
+  lobby: Lobby,
+  online: Lockstep | null,
+  outbox: ReadonlyArray<Message>,
+  sounds: ReadonlyArray<SoundKind>
+}>
+
+/** The section above contains all the types that will be used for the app */
+
+/**
+ * The number of letters of the initials entered on the leaderboard
+ */
+export const INITIALSLENGTH = 3;
+
+/**
+ * The lobby before the user has typed a room code
+ */
+const IDLELOBBY: Lobby = {room: "", status: "idle", message: ""};
+
+/**
+ * Function that creates the initial state of the app, which starts on the title screen
+ * @param seed The seed used to pick the seed of every game played
+ * @param leaderboard The leaderboard loaded when the app started
+ * @param config The settings of the game
+ * @returns The initial state of the app
+ */
+export const createApp = (seed: number, leaderboard: Leaderboard, config: Config = DEFAULTCONFIG): App => ({
+  screen: "title",
+  game: {...createGame(seed, config), highScore: bestScore(leaderboard)},
+  replay: createReplay(seed, config),
+  leaderboard: leaderboard,
+  initials: "",
+  paused: false,
+  autopilot: false,
+  ticks: 0,
+  rng: new RNG(seed),
+  config: config,
+  lobby: IDLELOBBY,
+  online: null,
+  outbox: [],
+  sounds: []
+});
+
+/**
+ * Function that starts a new game with a new seed, the recording of the game starts with it
+ * @param a The current state of the app
+ * @param mode Whether one frog is played, or two frogs together or against each other
+ * @returns The state of the app with a new game being played
+ */
+const newGame = (a: App, mode: Mode = "single"): App => {
+  const seed = a.rng.int();
+  const config = {...a.config, mode: mode};
+  return {...a,
+    screen: "playing",
+    game: {...createGame(seed, config), highScore: bestScore(a.leaderboard)},
+    replay: createReplay(seed, config),
+    initials: "",
+    paused: false,
+    ticks: 0,
+    rng: a.rng.next()
+  }
+}
+
+/**
+ * Function that feeds an event to the game being played, records it and adds its sound effects.
+ * Ticks are numbered by the app so that the game clock carries on exactly where it stopped after a pause
+ * Once a single player game is over with a score good enough for the leaderboard, the user is asked for their initials,
+ * two player games end on a summary of both players instead
+ * @param a The current state of the app
+ * @param e The event of the game
+ * @returns The state of the app after the game has reduced the event
+ */
+const feed = (a: App, e: GameEvent): App => {
+  const event = e instanceof Tick ? new Tick(a.ticks) : e;
+  const game = reduceState(a.game, event);
+  return {...a,
+    game: game,
+    replay: recordEvent(a.replay, event),
+    ticks: e instanceof Tick ? a.ticks + 1 : a.ticks,
+    sounds: a.sounds.concat(soundsOf(a.game, game)),
+    screen: game.gameOver && !a.game.gameOver && game.second === null && qualifies(a.leaderboard, game.score) ? "initials" : a.screen
+  }
+}
+
+/**
+ * Function that feeds an event to the game being played, nothing is fed to the game while it is paused.
+ * While the autopilot is on, the bot decides on a move every few ticks and its moves are fed and recorded like the moves of the user
+ * @param a The current state of the app
+ * @param e The event of the game
+ * @returns The state of the app after the game has reduced the event
+ */
+const play = (a: App, e: GameEvent): App => {
+  if(a.paused) {
+    return a
+  }
+  const move = a.autopilot && e instanceof Tick && a.ticks % DECISIONTICKS === 0 && !a.game.gameOver ? planMove(a.game, a.ticks) : null;
+  return move ? feed(feed(a, move), e) : feed(a, e)
+}
+
+/**
+ * Function that handles a key pressed while the game is being played, Escape goes back to the title screen once the game is over
+ * @param a The current state of the app
+ * @param e The key pressed by the user
+ * @returns The state of the app after handling the key
+ */
+const pressKey = (a: App, e: KeyPress): App =>
+  e.key === "Escape" && a.game.gameOver ? {...a, screen: "title"} : a
+
+/**
+ * Function that handles a key typed on the initials entry screen
+ * Letters are added to the initials, Backspace removes the last letter and Enter puts the score on the leaderboard
+ * @param a The current state of the app
+ * @param e The key pressed by the user
+ * @returns The state of the app after handling the key
+ */
+const typeInitials = (a: App, e: KeyPress): App =>
+  /^[a-z]$/i.test(e.key) && a.initials.length < INITIALSLENGTH ? {...a, initials: a.initials + e.key.toUpperCase()}
+  : e.key === "Backspace" ? {...a, initials: a.initials.slice(0, -1)}
+  : e.key === "Enter" && a.initials.length > 0 ? {...a,
+      screen: "leaderboard",
+      leaderboard: addEntry(a.leaderboard, {
+        initials: a.initials,
+        score: a.game.score,
+        level: a.game.level,
+        date: new Date(e.timestamp).toISOString(),
+        difficulty: a.game.config.difficulty,
+        adaptive: a.game.config.adaptive
+      })
+    }
+  : a
+
+/**
+ * Function that leaves the lobby or the online game for the title screen, which closes the connection to the relay server
+ * @param a The current state of the app
+ * @returns The state of the app on the title screen
+ */
+const leaveOnline = (a: App): App => ({...a, screen: "title", lobby: IDLELOBBY, online: null})
+
+/**
+ * Function that asks the relay server to create or join a room
+ * @param a The current state of the app
+ * @param m The message sent to the relay server
+ * @returns The state of the app waiting for the answer of the relay server
+ */
+const connect = (a: App, m: Message): App => ({...a, lobby: {...a.lobby, status: "connecting", message: ""}, outbox: [m]})
+
+/**
+ * Function that handles a key typed on the lobby screen.
+ * Letters are added to the room code, Backspace removes the last letter, Enter creates a new room if no code was typed or joins
+ * the room with the code otherwise, and Escape goes back to the title screen
+ * @param a The current state of the app
+ * @param e The key pressed by the user
+ * @returns The state of the app after handling the key
+ */
+const typeRoom = (a: App, e: KeyPress): App =>
+  e.key === "Escape" ? leaveOnline(a)
+  : a.lobby.status === "connecting" || a.lobby.status === "waiting" ? a
+  : /^[a-z]$/i.test(e.key) && a.lobby.room.length < ROOMCODELENGTH ? {...a, lobby: {room: a.lobby.room + e.key.toUpperCase(), status: "idle", message: ""}}
+  : e.key === "Backspace" ? {...a, lobby: {room: a.lobby.room.slice(0, -1), status: "idle", message: ""}}
+  : e.key === "Enter" && a.lobby.room.length === 0 ? connect(a, {type: "create"})
+  : e.key === "Enter" && a.lobby.room.length === ROOMCODELENGTH ? connect(a, {type: "join", room: a.lobby.room})
+  : a
+
+/**
+ * Function that handles a message from the relay server on the lobby screen.
+ * Once in a room the game is set up with the seed of the room, and it starts as soon as the other player is in the room too.
+ * Online games are always played on the normal difficulty, so that both browsers simulate the same game
+ * @param a The current state of the app
+ * @param m The message from the relay server
+ * @returns The state of the app after handling the message
+ */
+const lobbyMessage = (a: App, m: Message): App =>
+  m.type === "joined" && a.lobby.status === "connecting" ? {...a,
+    lobby: {room: m.room, status: "waiting", message: ""},
+    online: createLockstep(m.seed, m.player, {...withDifficulty(a.config, "normal"), adaptive: false}),
+    replay: createReplay(m.seed, {...withDifficulty(a.config, "normal"), adaptive: false, mode: "coop"})
+  }
+  : m.type === "start" && a.online !== null ? showOnline({...a, screen: "playing", initials: "", paused: false}, a.online)
+  : m.type === "error" ? {...a, lobby: {...a.lobby, status: "error", message: m.message}, online: null}
+  : a
+
+/**
+ * Function that shows the game played online, the events fed to the game are recorded and the messages of the game are sent.
+ * The sound effects are found one event at a time, since a step of the game can apply moves on the same tick as the lanes move
+ * @param a The current state of the app
+ * @param l The game played in lockstep
+ * @returns The state of the app showing the game
+ */
+const showOnline = (a: App, l: Lockstep): App => ({...a,
+  online: l,
+  game: {...l.state, highScore: Math.max(l.state.highScore, bestScore(a.leaderboard))},
+  replay: l.applied.reduce(recordEvent, a.replay),
+  ticks: l.tick,
+  outbox: l.outbox,
+  sounds: a.online === null ? [] : soundsOfEvents(a.online.state, l.applied)
+})
+
+/**
+ * Function that feeds an event to the game played online.
+ * Ticks advance the game in lockstep with the other browser and moves are made by the player of this browser whichever frog they
+ * are bound to. The game cannot be paused or restarted since the other player is still playing, Escape leaves it instead
+ * @param a The current state of the app
+ * @param l The game played in lockstep
+ * @param e The event
+ * @returns The state of the app after handling the event
+ */
+const playOnline = (a: App, l: Lockstep, e: AppEvent): App =>
+  e instanceof KeyPress ? e.key === "Escape" ? leaveOnline(a) : a
+  : e instanceof Received ? e.message.type === "left" || e.message.type === "error" ? {...a,
+      screen: "lobby",
+      lobby: {room: "", status: "error", message: e.message.type === "left" ? "The other player left" : e.message.message},
+      online: null
+    }
+    : showOnline(a, receive(l, e.message))
+  : e instanceof Tick ? showOnline(a, stepLockstep(l))
+  : e instanceof Move && !l.state.gameOver ? showOnline(a, localMove(l, e))
+  : a
+
+/**
+ * Function that returns a new state of the app based on the user input or tick, the messages to send to the relay server
+ * and the sound effects to play only last for the event that made them
+ * @param a The current state of the app
+ * @param e The event that has occured based on the user input or tick
+ * @returns A new state of the app based on the user input or tick
+ */
+export const reduceApp = (a: App, e: AppEvent): App =>
+  route(a.outbox.length > 0 || a.sounds.length > 0 ? {...a, outbox: [], sounds: []} : a, e)
+
+/**
+ * Function that hands an event to the screen being shown
+ * @param a The current state of the app
+ * @param e The event that has occured based on the user input or tick
+ * @returns A new state of the app based on the user input or tick
+ */
+const route = (a: App, e: AppEvent): App =>
+  a.screen === "playing" && a.online !== null ? playOnline(a, a.online, e)
+  : e instanceof Received ? a.screen === "lobby" ? lobbyMessage(a, e.message) : a
+  : a.screen === "playing" ?
+    e instanceof KeyPress ? pressKey(a, e)
+    : e instanceof AutoPause ? {...a, paused: !a.game.gameOver}
+    : e instanceof Pause ? {...a, paused: !a.game.gameOver && !a.paused}
+    : e instanceof Autopilot ? {...a, autopilot: !a.autopilot}
+    : play(a, e)
+  : a.screen === "initials" ? e instanceof KeyPress ? typeInitials(a, e) : a
+  : a.screen === "leaderboard" ? (e instanceof KeyPress && (e.key === "Escape" || e.key === "Enter" || e.key === " ")) || e instanceof Restart ? {...a, screen: "title"} : a
+  : e instanceof Autopilot ? a
+  : a.screen === "lobby" ? e instanceof KeyPress ? typeRoom(a, e) : a
+  : e instanceof KeyPress ? e.key === " " || e.key === "Enter" ? newGame(a)
+    : e.key.toLowerCase() === "c" ? newGame(a, "coop")
+    : e.key.toLowerCase() === "v" ? newGame(a, "versus")
+    : e.key.toLowerCase() === "o" ? {...a, screen: "lobby", lobby: IDLELOBBY}
+    : e.key.toLowerCase() === "l" ? {...a, screen: "leaderboard"}
+    : e.key.toLowerCase() === "d" ? {...a, config: withDifficulty(a.config, nextDifficulty(a.config.difficulty))}
+    : e.key.toLowerCase() === "a" ? {...a, config: {...a.config, adaptive: !a.config.adaptive}} : a
+  : e instanceof Restart ? newGame(a)
+  : a;
@@ -0,0 +1,128 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Vector, Tick, Move, Restart, createGame, reduceState } from "./game";
+import { memoryStore } from "./leaderboard";
+import { ticks, still, emptyGame } from "./testing";
+import { Param, Gain, Oscillator, AudioOutput, DEFAULTAUDIO, soundsOfEvents, beatLength, loadAudioSettings, saveAudioSettings, createSynth } from "./audio";
+
+/**
+ * Function that creates a fake audio output which records every tone played on it
+ * @returns The audio output, the tones played as their wave, frequency and start time, and the gains created on it in order
+ */
+const fakeOutput = () => {
+  const played: string[] = [];
+  const gains: Gain[] = [];
+  const param = (): Param => {
+    const p: Param = {value: 0, setValueAtTime: v => { p.value = p.value || v }, exponentialRampToValueAtTime: () => {}};
+    return p;
+  }
+  const out: AudioOutput = {
+    currentTime: 0,
+    destination: {},
+    createGain: () => {
+      const g = {gain: param(), connect: () => {}};
+      gains.push(g);
+      return g;
+    },
+    createOscillator: () => {
+      const osc: Oscillator = {
+        type: "sine",
+        frequency: param(),
+        connect: () => {},
+        start: when => { played.push(`${osc.type} ${osc.frequency.value} ${Math.round(when * 1000) / 1000}`) },
+        stop: () => {}
+      };
+      return osc;
+    }
+  };
+  return {out, played, gains};
+}
+
+describe("soundsOfEvents", () => {
+  it("hops when a frog moves, but not when the lanes move", () => {
+    const s = emptyGame(300, 560);
+    assert.deepEqual(soundsOfEvents(s, [new Move("w", -60)]), ["hop"]);
+    assert.deepEqual(soundsOfEvents(s, ticks(5)), []);
+  });
+
+  it("plays the sound of what the frog lost a life to", () => {
+    assert.deepEqual(soundsOfEvents(emptyGame(300, 200), ticks(3)), ["splash"]);
+    assert.deepEqual(soundsOfEvents({...emptyGame(300, 500), cars: [still("car0", 280, 485, 60)]}, ticks(3)), ["squash"]);
+    assert.deepEqual(soundsOfEvents({...emptyGame(30, 80)}, ticks(3)), ["lose"]);
+  });
+
+  it("plays a bite once when a snake poisons the frog", () => {
+    assert.deepEqual(soundsOfEvents({...emptyGame(300, 320), snakes: [{...still("snake0", 280, 305, 60), riding: null, offset: 0}]}, ticks(5)), ["bite"]);
+  });
+
+  it("plays the frog filling a bay, beating the level and picking up a power up", () => {
+    const s = emptyGame(120, 140);
+    assert.deepEqual(soundsOfEvents(s, [new Move("w", -60), ...ticks(2)]), ["hop", "home"]);
+    const last = {...s, targets: s.targets.map((t, i) => ({...t, filled: i > 0}))};
+    assert.deepEqual(soundsOfEvents(last, [new Move("w", -60), ...ticks(3)]), ["hop", "home", "levelUp"]);
+    const pickup = createGame(1).pickup;
+    assert.notEqual(pickup, null);
+    assert.deepEqual(soundsOfEvents({...emptyGame(300, 500), pickup: pickup && {...pickup, position: new Vector(300, 500)}}, ticks(2)), ["powerUp"]);
+  });
+
+  it("stays quiet on a restart", () => {
+    const s = reduceState(emptyGame(300, 500), new Tick(1));
+    assert.deepEqual(soundsOfEvents({...s, frog: {...s.frog, position: new Vector(300, 200)}}, [new Restart()]), []);
+  });
+});
+
+describe("beatLength", () => {
+  it("speeds the tune up with every level until it reaches the fastest tempo", () => {
+    assert.equal(beatLength(1), 0.4);
+    assert.ok(beatLength(2) < beatLength(1));
+    assert.equal(beatLength(11), 0.2);
+    assert.equal(beatLength(50), 0.2);
+  });
+});
+
+describe("audio settings", () => {
+  it("round trips through the store", () => {
+    const store = memoryStore();
+    assert.deepEqual(loadAudioSettings(store), DEFAULTAUDIO);
+    saveAudioSettings(store, {muted: true, volume: 0.8});
+    assert.deepEqual(loadAudioSettings(store), {muted: true, volume: 0.8});
+  });
+
+  it("keeps the default of settings that are missing or corrupted", () => {
+    const store = memoryStore();
+    store.setItem("frogger.audio", JSON.stringify({muted: true, volume: 3}));
+    assert.deepEqual(loadAudioSettings(store), {...DEFAULTAUDIO, muted: true});
+    store.setItem("frogger.audio", "not json");
+    assert.deepEqual(loadAudioSettings(store), DEFAULTAUDIO);
+    store.setItem("frogger.audio", "null");
+    assert.deepEqual(loadAudioSettings(store), DEFAULTAUDIO);
+  });
+});
+
+describe("createSynth", () => {
+  it("plays every tone of a sound effect at the volume of the settings", () => {
+    const {out, played, gains} = fakeOutput();
+    const synth = createSynth(out, {muted: false, volume: 0.8});
+    synth.play(["hop", "powerUp"]);
+    assert.deepEqual(played, ["square 300 0", "triangle 400 0"]);
+    assert.equal(gains[0].gain.value, 0.8);
+    synth.adjust({muted: true, volume: 0.8});
+    assert.equal(gains[0].gain.value, 0);
+  });
+
+  it("schedules the tune a little ahead of time, faster on later levels, and only while the game is played", () => {
+    const {out, played} = fakeOutput();
+    const synth = createSynth(out);
+    synth.music(1, false);
+    assert.deepEqual(played, []);
+    synth.music(1, true);
+    synth.music(1, true);
+    assert.deepEqual(played, ["square 392 0"]);
+    out.currentTime = 0.3;
+    synth.music(11, true);
+    assert.deepEqual(played, ["square 392 0", "square 330 0.4"]);
+    out.currentTime = 0.45;
+    synth.music(11, true);
+    assert.deepEqual(played, ["square 392 0", "square 330 0.4", "square 392 0.6"]);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * The audio module which plays the sounds and the music of the game, all of them synthesized with the Web Audio API so nothing is downloaded.
+ * The game does not know about sound at all, the sounds are found by comparing the states of the game before and after every event,
+ * and the music speeds up with the level. Every sound is played through a small audio output interface, so that tests can record what
+ * is played instead of making any noise. The mute and volume settings are stored the same way as the leaderboard.
+ */
+import { State, GameEvent, DeathCause, reduceState, players, swapPlayers, deathCause } from "./game";
+import { ScoreStore } from "./leaderboard";
+import { isRecord } from "./level";
+
+/** The section below contains all the types that will be used for audio */
+
+/**
+ * The SoundKind type which represents every sound effect of the game
+ */
+export type SoundKind = "hop" | "splash" | "squash" | "bite" | "chomp" | "lose" | "home" | "levelUp" | "powerUp";
+
+/**
+ * The Note type which represents a single tone of a sound effect.
+ * The tone slides from the first frequency to the second one, starting the given number of seconds after the sound and fading out over
+ * its length, the gain is how loud the tone starts
+ */
+export type Note = Readonly<{
+  wave: OscillatorType,
+  from: number,
+  to: number,
+  start: number,
+  length: number,
+  gain: number
+}>
+
+/**
+ * The AudioSettings type which represents how loud the user wants the game, the volume is between 0 and 1
+ */
+export type AudioSettings = Readonly<{
+  muted: boolean,
+  volume: number
+}>
+
+/**
+ * The Param type which represents the parts of an audio parameter that are used to shape a tone, the AudioParam of Web Audio is one
+ */
+export type Param = {
+  value: number,
+  setValueAtTime(value: number, time: number): unknown,
+  exponentialRampToValueAtTime(value: number, time: number): unknown
+}
+
+/**
+ * The Gain type which represents the parts of a gain node that are used to change how loud a tone is
+ */
+export type Gain = {
+  gain: Param,
+  connect(destination: object): unknown
+}
+
+/**
+ * The Oscillator type which represents the parts of an oscillator node that are used to play a tone
+ */
+export type Oscillator = {
+  type: OscillatorType,
+  frequency: Param,
+  connect(destination: object): unknown,
+  start(when: number): void,
+  stop(when: number): void
+}
+
+/**
+ * The AudioOutput type which represents the parts of an audio context that are used to play the game, the AudioContext of a browser is one
+ */
+export type AudioOutput = {
+  currentTime: number,
+  destination: object,
+  createGain(): Gain,
+  createOscillator(): Oscillator
+}
+
+/**
+ * The Synth type which represents anything that can play the sounds and the music of the game
+ */
+export type Synth = Readonly<{
+  play: (sounds: ReadonlyArray<SoundKind>) => void,
+  music: (level: number, playing: boolean) => void,
+  adjust: (settings: AudioSettings) => void
+}>
+
+/** The section above contains all the types that will be used for audio */
+
+/**
+ * The registry of every sound effect, as the tones that make it up
+ */
+export const SOUNDS: Readonly<Record<SoundKind, ReadonlyArray<Note>>> = {
+  hop: [{wave: "square", from: 300, to: 600, start: 0, length: 0.08, gain: 0.2}],
+  splash: [
+    {wave: "sawtooth", from: 900, to: 80, start: 0, length: 0.35, gain: 0.25},
+    {wave: "triangle", from: 400, to: 60, start: 0.05, length: 0.3, gain: 0.2}
+  ],
+  squash: [
+    {wave: "sawtooth", from: 160, to: 40, start: 0, length: 0.3, gain: 0.4},
+    {wave: "square", from: 90, to: 30, start: 0, length: 0.2, gain: 0.3}
+  ],
+  bite: [
+    {wave: "sawtooth", from: 2000, to: 1500, start: 0, length: 0.25, gain: 0.15},
+    {wave: "square", from: 500, to: 250, start: 0.1, length: 0.15, gain: 0.2}
+  ],
+  chomp: [
+    {wave: "square", from: 200, to: 100, start: 0, length: 0.1, gain: 0.3},
+    {wave: "square", from: 200, to: 100, start: 0.15, length: 0.1, gain: 0.3},
+    {wave: "triangle", from: 120, to: 40, start: 0.3, length: 0.3, gain: 0.3}
+  ],
+  lose: [{wave: "triangle", from: 440, to: 110, start: 0, length: 0.5, gain: 0.3}],
+  home: [
+    {wave: "square", from: 523, to: 523, start: 0, length: 0.1, gain: 0.2},
+    {wave: "square", from: 659, to: 659, start: 0.08, length: 0.1, gain: 0.2},
+    {wave: "square", from: 784, to: 784, start: 0.16, length: 0.15, gain: 0.2}
+  ],
+  levelUp: [
+    {wave: "square", from: 523, to: 523, start: 0, length: 0.12, gain: 0.2},
+    {wave: "square", from: 659, to: 659, start: 0.12, length: 0.12, gain: 0.2},
+    {wave: "square", from: 784, to: 784, start: 0.24, length: 0.12, gain: 0.2},
+    {wave: "square", from: 1047, to: 1047, start: 0.36, length: 0.4, gain: 0.2}
+  ],
+  powerUp: [{wave: "triangle", from: 400, to: 1600, start: 0, length: 0.25, gain: 0.25}]
+};
+
+/**
+ * The sound played when the frog(Player) loses a life to every cause
+ */
+export const DEATHSOUNDS: Readonly<Record<DeathCause, SoundKind>> = {
+  car: "squash",
+  bus: "squash",
+  river: "splash",
+  eaten: "chomp",
+  croc: "chomp",
+  lurker: "chomp",
+  bay: "lose",
+  wall: "lose",
+  time: "lose"
+};
+
+/**
+ * The background tune, which loops while the game is played, as the frequency and the number of beats of every note.
+ * A frequency of 0 is a rest
+ */
+export const TUNE: ReadonlyArray<readonly [number, number]> = [
+  [392, 1], [330, 1], [392, 1], [523, 1], [440, 1], [392, 1], [330, 2],
+  [349, 1], [294, 1], [349, 1], [440, 1], [392, 1], [349, 1], [294, 2],
+  [392, 1], [330, 1], [392, 1], [523, 1], [587, 1], [523, 1], [440, 1], [392, 1],
+  [349, 1], [330, 1], [294, 1], [247, 1], [262, 2], [0, 2]
+];
+
+/**
+ * The tempo of the tune on the first level, in beats per minute
+ */
+export const TEMPO = 150;
+
+/**
+ * How much faster the tune gets for every level, in beats per minute
+ */
+export const TEMPOSTEP = 15;
+
+/**
+ * The fastest the tune gets, in beats per minute
+ */
+export const MAXTEMPO = 300;
+
+/**
+ * How loud the tune is compared to the sound effects
+ */
+const MUSICVOLUME = 0.3;
+
+/**
+ * How far ahead of time the notes of the tune are scheduled, in seconds, so the tune does not stutter when a frame is late
+ */
+const LOOKAHEAD = 0.2;
+
+/**
+ * The settings used until the user changes them
+ */
+export const DEFAULTAUDIO: AudioSettings = {muted: false, volume: 0.5};
+
+/**
+ * The key the audio settings are stored under
+ */
+const STOREKEY = "frogger.audio";
+
+/**
+ * Function that finds how long a beat of the tune lasts on a level, the tune speeds up with every level until it reaches the fastest tempo
+ * @param level The level being played
+ * @returns The length of a beat in seconds
+ */
+export const beatLength = (level: number): number => 60 / Math.min(MAXTEMPO, TEMPO + (level - 1) * TEMPOSTEP)
+
+/**
+ * Function that finds the sound effects of an event, by comparing the states of the game before and after it.
+ * A move only changes the frogs, while a tick moves the lanes as well, and a restart starts the clock of the game over
+ * @param prev The state of the game before the event
+ * @param next The state of the game after the event
+ * @returns The sound effects to play, each one at most once
+ */
+export const soundsOf = (prev: State, next: State): ReadonlyArray<SoundKind> => {
+  if(next.level !== prev.level) {
+    return next.level > prev.level ? ["levelUp"] : []
+  }
+  const before = players(prev);
+  if(next.cars === prev.cars) {
+    return players(next).some((p, i) => p.frog.position.x !== before[i].frog.position.x || p.frog.position.y !== before[i].frog.position.y)
+      ? ["hop"] : []
+  }
+  if(next.time < prev.time) {
+    return []
+  }
+  const sounds = players(next).flatMap((p, i): ReadonlyArray<SoundKind> => {
+    const was = before[i];
+    return (was === undefined ? [] : [
+      p.lives < was.lives ? DEATHSOUNDS[deathCause(i === 0 ? prev : swapPlayers(prev)) || "time"] : null,
+      p.poison > 0 && was.poison === 0 ? "bite" : null,
+      p.reached && !was.reached ? "home" : null
+    ]).filter((k): k is SoundKind => k !== null)
+  }).concat(prev.pickup !== null && next.pickup === null ? ["powerUp"] : []);
+  return sounds.filter((k, index) => sounds.indexOf(k) === index)
+}
+
+/**
+ * Function that finds the sound effects of events fed to the game one after the other, by comparing the states of the game
+ * before and after each one of them, so a move fed on the same tick the lanes move still hops
+ * @param s The state of the game before the events
+ * @param events The events, in the order they are fed to the game
+ * @returns The sound effects of every event, in order
+ */
+export const soundsOfEvents = (s: State, events: ReadonlyArray<GameEvent>): ReadonlyArray<SoundKind> =>
+  events.reduce<readonly [State, ReadonlyArray<SoundKind>]>(([prev, heard], e) => {
+    const next = reduceState(prev, e);
+    return [next, heard.concat(soundsOf(prev, next))];
+  }, [s, []])[1]
+
+/**
+ * Function that checks if the given value is a volume
+ * @param volume The given value
+ * @returns True if the value is a number between 0 and 1, false otherwise
+ */
+const isVolume = (volume: unknown): volume is number => typeof volume === "number" && volume >= 0 && volume <= 1
+
+/**
+ * Function that loads the audio settings from the given store, settings that are missing or corrupted are left as they are by default
+ * @param store The given store
+ * @returns The audio settings
+ */
+export const loadAudioSettings = (store: ScoreStore): AudioSettings => {
+  try {
+    const json: unknown = JSON.parse(store.getItem(STOREKEY) || "{}");
+    return !isRecord(json) ? DEFAULTAUDIO : {
+      muted: typeof json.muted === "boolean" ? json.muted : DEFAULTAUDIO.muted,
+      volume: isVolume(json.volume) ? json.volume : DEFAULTAUDIO.volume
+    }
+  } catch {
+    return DEFAULTAUDIO;
+  }
+}
+
+/**
+ * Function that saves the audio settings to the given store
+ * @param store The given store
+ * @param settings The given audio settings
+ */
+export const saveAudioSettings = (store: ScoreStore, settings: AudioSettings): void => {
+  store.setItem(STOREKEY, JSON.stringify(settings));
+}
+
+/**
+ * Function that finds how loud the game is played with the given settings
+ * @param settings The given audio settings
+ * @returns The gain of everything the game plays
+ */
+export const loudness = (settings: AudioSettings): number => settings.muted ? 0 : settings.volume
+
+/**
+ * The synth used when the browser cannot play audio, which plays nothing
+ */
+export const SILENTSYNTH: Synth = {play: () => {}, music: () => {}, adjust: () => {}};
+
+/**
+ * Function that plays a single tone on an audio output
+ * @param out The audio output
+ * @param destination The node the tone is played into
+ * @param at When the sound the tone is part of starts, in the time of the audio output
+ * @returns A function that plays the given tone
+ */
+const playNote = (out: AudioOutput, destination: Gain, at: number) => (n: Note): void => {
+  const osc = out.createOscillator();
+  const gain = out.createGain();
+  osc.type = n.wave;
+  osc.frequency.setValueAtTime(n.from, at + n.start);
+  osc.frequency.exponentialRampToValueAtTime(n.to, at + n.start + n.length);
+  gain.gain.setValueAtTime(n.gain, at + n.start);
+  gain.gain.exponentialRampToValueAtTime(0.001, at + n.start + n.length);
+  osc.connect(gain);
+  gain.connect(destination);
+  osc.start(at + n.start);
+  osc.stop(at + n.start + n.length);
+}
+
+/**
+ * Function that creates a synth which plays the game on an audio output.
+ * Everything is played through a single gain so the volume can be changed at any time, and the synth remembers where it is in the tune
+ * so that the tune carries on after a pause
+ * @param out The audio output
+ * @param settings The audio settings to start with
+ * @returns The synth
+ */
+export const createSynth = (out: AudioOutput, settings: AudioSettings = DEFAULTAUDIO): Synth => {
+  const master = out.createGain();
+  const music = out.createGain();
+  master.gain.value = loudness(settings);
+  music.gain.value = MUSICVOLUME;
+  master.connect(out.destination);
+  music.connect(master);
+  let note = 0;
+  let nextNote = 0;
+  return {
+    play: sounds => sounds.forEach(kind => SOUNDS[kind].forEach(playNote(out, master, out.currentTime))),
+    music: (level, playing) => {
+      nextNote = Math.max(nextNote, out.currentTime);
+      while(playing && nextNote < out.currentTime + LOOKAHEAD) {
+        const [frequency, beats] = TUNE[note];
+        const length = beats * beatLength(level);
+        if(frequency > 0) playNote(out, music, nextNote)({wave: "square", from: frequency, to: frequency, start: 0, length: length * 0.9, gain: 0.5});
+        note = (note + 1) % TUNE.length;
+        nextNote += length;
+      }
+    },
+    adjust: s => { master.gain.value = loudness(s) }
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * The benchmark which lets the bot play the game over many seeds without a browser and reports how far it got, run it with
+ * npm run benchmark, for example npm run benchmark -- --seeds 50 --json. Running it before and after changing the lanes or the
+ * levels shows whether the game got easier or harder.
+ */
+import { BotResult, benchmarkOptions, runBot, summarise, describeResult, describeSummary } from "./bot";
+
+/**
+ * The main function of the benchmark.
+ */
+function benchmark() {
+  const options = (() => {
+    try {
+      return benchmarkOptions(process.argv.slice(2));
+    } catch (err) {
+      console.error(err instanceof Error ? err.message : err);
+      return process.exit(1);
+    }
+  })();
+  const results = Array(options.seeds).fill(0).map((_, i): BotResult => {
+    const result = runBot(options.first + i, options.ticks);
+    if(!options.json) {
+      console.log(describeResult(result));
+    }
+    return result;
+  });
+  console.log(options.json ? JSON.stringify({results: results, summary: summarise(results)}, null, 2) : ["", ...describeSummary(summarise(results))].join("\n"));
+}
+
+benchmark();
@@ -0,0 +1,86 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Vector, createGame } from "./game";
+import { BotResult, DEFAULTBENCHMARK, planMove, runBot, summarise, describeSummary, benchmarkOptions } from "./bot";
+
+describe("planMove", () => {
+  /**
+   * A game with nothing on the road
+   */
+  const empty = {...createGame(1), cars: [], buses: [], snakes: []};
+
+  it("hops forward when the way is clear", () => {
+    const move = planMove(empty, 0);
+    assert.equal(move && move.direction, "w");
+  });
+
+  it("does not hop in front of a car", () => {
+    const car = {...createGame(1).cars[0], position: new Vector(230, 480)};
+    const move = planMove({...empty, cars: [car]}, 0);
+    assert.notEqual(move && move.direction, "w");
+  });
+});
+
+describe("runBot", () => {
+  it("brings a frog home", () => {
+    const result = runBot(2, 500);
+    assert.ok(result.frogs >= 1);
+    assert.ok(result.score > 0);
+    assert.equal(result.ticks, 500);
+  });
+
+  it("plays the same game every time for the same seed", () => {
+    assert.deepEqual(runBot(3, 200), runBot(3, 200));
+  });
+});
+
+describe("summarise", () => {
+  /**
+   * Function that creates the result of a game
+   * @param level The level the game ended on
+   * @param score The score of the game
+   * @param deaths What the frog lost its lives to
+   * @returns The result of the game
+   */
+  const result = (level: number, score: number, deaths: BotResult["deaths"]): BotResult =>
+    ({seed: 1, level: level, score: score, frogs: 0, ticks: 100, deaths: deaths});
+
+  /**
+   * The summary of four games
+   */
+  const summary = summarise([result(2, 900, ["car"]), result(1, 100, ["river", "car"]), result(3, 2000, []), result(2, 1200, ["car"])]);
+
+  it("counts the levels reached and the causes of death", () => {
+    assert.deepEqual(summary.levels, [[1, 1], [2, 2], [3, 1]]);
+    assert.deepEqual(summary.deaths, [["car", 3], ["river", 1]]);
+  });
+
+  it("describes the spread of the scores", () => {
+    assert.deepEqual(summary.score, {min: 100, median: 1050, mean: 1050, max: 2000});
+    assert.deepEqual(describeSummary(summary), [
+      "Games: 4",
+      "Levels reached: 1: 1 | 2: 2 | 3: 1",
+      "Score: min 100, median 1050, mean 1050, max 2000",
+      "Deaths:",
+      "  Hit by a car: 3",
+      "  Fell in the river: 1"
+    ]);
+  });
+
+  it("handles no games", () => {
+    assert.deepEqual(summarise([]).score, {min: 0, median: 0, mean: 0, max: 0});
+  });
+});
+
+describe("benchmarkOptions", () => {
+  it("reads the options given on the command line", () => {
+    assert.deepEqual(benchmarkOptions([]), DEFAULTBENCHMARK);
+    assert.deepEqual(benchmarkOptions(["--seeds", "50", "--first", "7", "--ticks", "3000", "--json"]), {seeds: 50, first: 7, ticks: 3000, json: true});
+  });
+
+  it("rejects unknown options and bad values", () => {
+    assert.throws(() => benchmarkOptions(["--fast"]), /Unknown option: --fast/);
+    assert.throws(() => benchmarkOptions(["--seeds", "many"]), /Invalid value for --seeds: many/);
+    assert.throws(() => benchmarkOptions(["--ticks"]), /Missing value for --ticks/);
+  });
+});
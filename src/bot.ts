@@ -0,0 +1,277 @@
+/**
+ * The bot module which plays the game by itself.
+ * The bot plans its moves by simulating the game ahead with the same reducer the game is played with, trying every move followed
+ * by waiting or hopping forward, and keeping the move that gets the frog furthest without losing a life. The benchmark runs the bot over many seeds
+ * to see how hard the game is. Like the game module, nothing in this module touches the DOM.
+ */
+import { State, DeathCause, Config, Move, Tick, DEFAULTCONFIG, createGame, reduceState, dying, deathCause } from "./game";
+import { widthOf } from "./hitbox";
+
+/** The section below contains all the types that will be used for the bot */
+
+/**
+ * The BotResult type which represents how far the bot got in a game
+ */
+export type BotResult = Readonly<{
+  seed: number,
+  level: number,
+  score: number,
+  frogs: number,
+  ticks: number,
+  deaths: ReadonlyArray<DeathCause>
+}>
+
+/**
+ * The Summary type which represents the results of the bot over many games.
+ * Levels count the games that ended on every level and deaths count the lives lost to every cause, both from most to least common
+ */
+export type Summary = Readonly<{
+  games: number,
+  levels: ReadonlyArray<readonly [number, number]>,
+  score: Readonly<{
+    min: number,
+    median: number,
+    mean: number,
+    max: number
+  }>,
+  deaths: ReadonlyArray<readonly [DeathCause, number]>
+}>
+
+/**
+ * The BenchmarkOptions type which represents the games the benchmark plays, as the number of seeds, the first seed,
+ * the most ticks a game can last and whether the results are printed as JSON
+ */
+export type BenchmarkOptions = Readonly<{
+  seeds: number,
+  first: number,
+  ticks: number,
+  json: boolean
+}>
+
+/** The section above contains all the types that will be used for the bot */
+
+/**
+ * The moves the bot can make at every decision, null waits where the frog is
+ */
+export const BOTMOVES: ReadonlyArray<Move | null> = [null, new Move("w", -60), new Move("a", -45), new Move("d", 45), new Move("s", 60)];
+
+/**
+ * The moves the bot considers after its next move, waiting or hopping forward
+ */
+const FOLLOWUPS: ReadonlyArray<Move | null> = [null, new Move("w", -60)];
+
+/**
+ * The number of ticks between two decisions of the bot
+ */
+export const DECISIONTICKS = 10;
+
+/**
+ * The number of decisions the bot looks ahead
+ */
+export const BOTDEPTH = 2;
+
+/**
+ * The value of a plan that loses a life, worse than the value of any plan that does not
+ */
+const LOST = -1e9;
+
+/**
+ * How much worse a plan is when the frog is bitten by a snake, which turns its controls around until the poison wears off
+ */
+const SNAKEBITTEN = 100000;
+
+/**
+ * The games played by the benchmark unless told otherwise, a game lasts a minute at most
+ */
+export const DEFAULTBENCHMARK: BenchmarkOptions = {seeds: 10, first: 1, ticks: 6000, json: false};
+
+/**
+ * What the frog(Player) lost a life to, as it is told to the user
+ */
+export const DEATHNAMES: Readonly<Record<DeathCause, string>> = {
+  car: "Hit by a car",
+  bus: "Hit by a bus",
+  river: "Fell in the river",
+  eaten: "Eaten by a crocodile",
+  croc: "Stayed on a crocodile too long",
+  lurker: "Jumped into a lurking crocodile",
+  bay: "Jumped into a filled bay",
+  wall: "Jumped onto the wall between bays",
+  time: "Ran out of time"
+};
+
+/**
+ * Function that counts the filled target bays
+ * @param s The current state of the game
+ * @returns The number of filled target bays
+ */
+const filled = (s: State): number => s.targets.filter(t => t.filled).length
+
+/**
+ * Function that checks if the frog(Player) has lost or is about to lose a life since the given state
+ * @param start The state of the game the plan started from
+ * @param s The state of the game now
+ * @returns True if a life has been lost, false otherwise
+ */
+const lost = (start: State, s: State): boolean => s.gameOver || s.lives < start.lives || dying(s)
+
+/**
+ * Function that simulates a move followed by the ticks until the next decision, stopping as soon as a life is lost
+ * @param s The current state of the game
+ * @param elapsed The number of the next tick
+ * @param move The move, or null to wait
+ * @returns The state of the game at the next decision, or null if a life was lost on the way
+ */
+const simulate = (s: State, elapsed: number, move: Move | null): State | null => {
+  const moved = move ? reduceState(s, move) : s;
+  return Array(DECISIONTICKS).fill(0).reduce<State | null>((acc, _, i) => {
+    const next = acc === null ? null : reduceState(acc, new Tick(elapsed + i));
+    return next === null || lost(s, next) ? null : next
+  }, moved)
+}
+
+/**
+ * Function that rates how well the frog(Player) is doing.
+ * Points matter the most, then how far up the frog has got, and once across the road how close it is to an empty bay
+ * @param s The current state of the game
+ * @returns The value of the state, higher is better
+ */
+const value = (s: State): number => {
+  const open = s.targets.filter((t, i) => !t.filled && i !== s.lurkingCroc).map(t => t.position.x + widthOf(t.hitbox) / 2);
+  const distance = open.length === 0 ? 0 : Math.min(...open.map(x => Math.abs(x - s.frog.position.x)));
+  return s.score * 10 + s.level * 10000 + (560 - s.frog.position.y) - (s.frog.position.y <= 320 ? distance : 0) - (s.poison > 0 ? SNAKEBITTEN : 0)
+}
+
+/**
+ * Function that finds the value of the best plan from the given state, looking the given number of decisions ahead
+ * @param s The current state of the game
+ * @param elapsed The number of the next tick
+ * @param depth The number of decisions to look ahead
+ * @returns The value of the best plan
+ */
+const search = (s: State, elapsed: number, depth: number): number =>
+  Math.max(...FOLLOWUPS.map(move => {
+    const next = simulate(s, elapsed, move);
+    return next === null ? LOST : depth > 1 ? search(next, elapsed + DECISIONTICKS, depth - 1) : value(next)
+  }))
+
+/**
+ * Function that picks the next move of the bot, the move that starts the best plan.
+ * When every plan loses a life the bot waits
+ * @param s The current state of the game
+ * @param elapsed The number of the next tick
+ * @returns The move, or null to wait
+ */
+export const planMove = (s: State, elapsed: number): Move | null => {
+  const values = BOTMOVES.map(move => {
+    const next = simulate(s, elapsed, move);
+    return next === null ? LOST : BOTDEPTH > 1 ? search(next, elapsed + DECISIONTICKS, BOTDEPTH - 1) : value(next)
+  });
+  return BOTMOVES[values.indexOf(Math.max(...values))]
+}
+
+/**
+ * Function that lets the bot play a game by itself, deciding on a move every few ticks, until the game is over or the given
+ * number of ticks has passed. Frogs are counted as they fill a bay, since the count of the game starts again on every level
+ * @param seed The seed of the game
+ * @param ticks The most ticks the game can last
+ * @param config The settings of the game, the bot always plays alone
+ * @returns How far the bot got
+ */
+export const runBot = (seed: number, ticks: number, config: Config = DEFAULTCONFIG): BotResult => {
+  const start: BotResult = {seed: seed, level: 1, score: 0, frogs: 0, ticks: 0, deaths: []};
+  const [s, result] = Array(ticks).fill(0).reduce<[State, BotResult]>(([acc, r], _, elapsed) => {
+    if(acc.gameOver) {
+      return [acc, r]
+    }
+    const cause = deathCause(acc);
+    const move = elapsed % DECISIONTICKS === 0 ? planMove(acc, elapsed) : null;
+    const next = reduceState(move ? reduceState(acc, move) : acc, new Tick(elapsed));
+    return [next, {...r,
+      frogs: r.frogs + (next.level === acc.level ? filled(next) - filled(acc) : 0),
+      ticks: r.ticks + 1,
+      deaths: cause ? r.deaths.concat([cause]) : r.deaths
+    }]
+  }, [createGame(seed, {...config, mode: "single"}), start]);
+  return {...result, level: s.level, score: s.score}
+}
+
+/**
+ * Function that counts how often every value appears, from most to least common
+ * @param values The given values
+ * @returns Every value with the number of times it appears
+ */
+const tally = <T>(values: ReadonlyArray<T>): ReadonlyArray<readonly [T, number]> =>
+  Array.from(values.reduce((counts, v) => counts.set(v, (counts.get(v) || 0) + 1), new Map<T, number>()))
+    .sort((a, b) => b[1] - a[1])
+
+/**
+ * Function that sums up the results of the bot over many games
+ * @param results The results of every game
+ * @returns The summary of the results
+ */
+export const summarise = (results: ReadonlyArray<BotResult>): Summary => {
+  const scores = results.map(r => r.score).sort((a, b) => a - b);
+  const middle = Math.floor(scores.length / 2);
+  return {
+    games: results.length,
+    levels: tally(results.map(r => r.level)).slice().sort((a, b) => a[0] - b[0]),
+    score: scores.length === 0 ? {min: 0, median: 0, mean: 0, max: 0} : {
+      min: scores[0],
+      median: scores.length % 2 === 1 ? scores[middle] : (scores[middle - 1] + scores[middle]) / 2,
+      mean: Math.round(scores.reduce((a, b) => a + b, 0) / scores.length),
+      max: scores[scores.length - 1]
+    },
+    deaths: tally(results.flatMap(r => r.deaths))
+  }
+}
+
+/**
+ * Function that describes the result of a single game played by the bot
+ * @param r The result of the game
+ * @returns The description of the result
+ */
+export const describeResult = (r: BotResult): string =>
+  `Seed ${r.seed}: level ${r.level}, score ${r.score}, ${r.frogs} frogs home, ${r.deaths.length} lives lost in ${r.ticks} ticks`
+
+/**
+ * Function that describes the summary of the results of the bot to the user
+ * @param summary The given summary
+ * @returns The lines of the description
+ */
+export const describeSummary = (summary: Summary): ReadonlyArray<string> => [
+  `Games: ${summary.games}`,
+  `Levels reached: ${summary.levels.map(([level, n]) => `${level}: ${n}`).join(" | ")}`,
+  `Score: min ${summary.score.min}, median ${summary.score.median}, mean ${summary.score.mean}, max ${summary.score.max}`,
+  "Deaths:",
+  ...(summary.deaths.length === 0 ? ["  none"] : summary.deaths.map(([cause, n]) => `  ${DEATHNAMES[cause]}: ${n}`))
+]
+
+/**
+ * Function that reads the options of the benchmark from the command line, for example --seeds 50 --first 100 --ticks 6000 --json
+ * @param args The arguments given on the command line
+ * @returns The options of the benchmark
+ * @throws Error if an option is unknown or its value is not a positive whole number
+ */
+export const benchmarkOptions = (args: ReadonlyArray<string>): BenchmarkOptions => {
+  const [options, pending] = args.reduce<[BenchmarkOptions, string | null]>(([options, pending], arg) => {
+    if(pending !== null) {
+      const n = Number(arg);
+      if(!Number.isInteger(n) || n < 1) {
+        throw new Error(`Invalid value for --${pending}: ${arg}`);
+      }
+      return [{...options, [pending]: n}, null]
+    }
+    if(arg === "--json") {
+      return [{...options, json: true}, null]
+    }
+    if(arg === "--seeds" || arg === "--first" || arg === "--ticks") {
+      return [options, arg.slice(2)]
+    }
+    throw new Error(`Unknown option: ${arg}`);
+  }, [DEFAULTBENCHMARK, null]);
+  if(pending !== null) {
+    throw new Error(`Missing value for --${pending}`);
+  }
+  return options
+}
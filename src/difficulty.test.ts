@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Attempt, UNTUNED, RECENTATTEMPTS, nextDifficulty, difficultyLabel, recordAttempt, thin } from "./difficulty";
+
+/**
+ * A death half way through the time limit
+ */
+const DEATH: Attempt = {died: true, ticks: 1500, limit: 3000};
+
+/**
+ * A bay filled in a third of the time limit
+ */
+const QUICK: Attempt = {died: false, ticks: 1000, limit: 3000};
+
+/**
+ * A bay filled just before the time ran out
+ */
+const SLOW: Attempt = {died: false, ticks: 2900, limit: 3000};
+
+describe("nextDifficulty", () => {
+  it("goes from easy to hard and back to easy", () => {
+    assert.deepEqual([nextDifficulty("easy"), nextDifficulty("normal"), nextDifficulty("hard")], ["normal", "hard", "easy"]);
+  });
+});
+
+describe("difficultyLabel", () => {
+  it("marks adaptive difficulty", () => {
+    assert.equal(difficultyLabel("hard", true), "Hard (A)");
+    assert.equal(difficultyLabel("easy", false), "Easy");
+  });
+});
+
+describe("recordAttempt", () => {
+  it("slows the lanes down and thins them out after deaths", () => {
+    const a = recordAttempt(recordAttempt(UNTUNED, DEATH), SLOW);
+    assert.deepEqual([a.speed, a.density], [0.85, 0.75]);
+  });
+
+  it("speeds the lanes up and fills them in after bays filled quickly", () => {
+    const a = recordAttempt(UNTUNED, QUICK);
+    assert.deepEqual([a.speed, a.density], [1.3, 1.5]);
+    assert.deepEqual([recordAttempt(UNTUNED, SLOW).speed, recordAttempt(UNTUNED, SLOW).density], [1, 1]);
+  });
+
+  it("only looks at the latest attempts", () => {
+    const deaths = Array(RECENTATTEMPTS).fill(DEATH).reduce(recordAttempt, UNTUNED);
+    assert.deepEqual([deaths.speed, deaths.density], [0.7, 0.5]);
+    const recovered = Array(RECENTATTEMPTS).fill(SLOW).reduce(recordAttempt, deaths);
+    assert.equal(recovered.attempts.length, RECENTATTEMPTS);
+    assert.deepEqual([recovered.speed, recovered.density], [1, 1]);
+  });
+});
+
+describe("thin", () => {
+  it("spreads fewer or more bodies over the same stretch of the lane", () => {
+    assert.deepEqual(thin(4, 300, 0.5), [2, 600]);
+    assert.deepEqual(thin(4, 150, 1.5), [6, 100]);
+    assert.deepEqual(thin(1, 300, 0.5), [1, 300]);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * The difficulty module which lists the difficulty presets the game can be played on, and tunes the game to the player
+ * while adaptive difficulty is on. A preset sets how fast the lanes start and speed up, how many lives the frog has, how long the timer
+ * lasts and how long the frog can stay on a crocodile. Adaptive difficulty looks at the last few attempts of the frog to fill a bay:
+ * deaths slow the lanes down and thin them out, bays filled quickly speed them up and fill them in.
+ * Like the game module, nothing in this module touches the DOM.
+ */
+
+/** The section below contains all the types that will be used for difficulty */
+
+/**
+ * The DifficultyName type which represents every difficulty preset
+ */
+export type DifficultyName = "easy" | "normal" | "hard";
+
+/**
+ * The Preset type which represents the settings of the game a difficulty preset sets.
+ * The speed scales the velocity every lane starts with, the speed increase is added to every lane for every level past the last one,
+ * the timer scales the timer of every level and the croc time is how many ticks the frog can stay on a crocodile
+ */
+export type Preset = Readonly<{
+  name: string,
+  speedScale: number,
+  speedIncrease: number,
+  lives: number,
+  timerScale: number,
+  crocTime: number
+}>
+
+/**
+ * The Attempt type which represents an attempt of the frog(Player) to fill a bay, which ended with the frog dying or filling the bay
+ * after the given number of ticks out of the time limit
+ */
+export type Attempt = Readonly<{
+  died: boolean,
+  ticks: number,
+  limit: number
+}>
+
+/**
+ * The Adaptive type which represents how adaptive difficulty has tuned the game from the latest attempts of the frog(Player).
+ * The speed scales how fast every lane moves and the density scales how many bodies a lane has when a level starts
+ */
+export type Adaptive = Readonly<{
+  speed: number,
+  density: number,
+  attempts: ReadonlyArray<Attempt>
+}>
+
+/** The section above contains all the types that will be used for difficulty */
+
+/**
+ * Every difficulty preset, from easiest to hardest
+ */
+export const DIFFICULTIES: ReadonlyArray<DifficultyName> = ["easy", "normal", "hard"];
+
+/**
+ * The registry of every difficulty preset, the normal preset plays the game as it was designed
+ */
+export const PRESETS: Readonly<Record<DifficultyName, Preset>> = {
+  easy: {name: "Easy", speedScale: 0.8, speedIncrease: 10, lives: 5, timerScale: 1.5, crocTime: 400},
+  normal: {name: "Normal", speedScale: 1, speedIncrease: 20, lives: 3, timerScale: 1, crocTime: 250},
+  hard: {name: "Hard", speedScale: 1.25, speedIncrease: 30, lives: 2, timerScale: 0.75, crocTime: 150}
+};
+
+/**
+ * The number of latest attempts adaptive difficulty looks at
+ */
+export const RECENTATTEMPTS = 5;
+
+/**
+ * The slowest and fastest adaptive difficulty makes the lanes
+ */
+export const SPEEDRANGE: readonly [number, number] = [0.7, 1.3];
+
+/**
+ * The thinnest and busiest adaptive difficulty makes the lanes
+ */
+export const DENSITYRANGE: readonly [number, number] = [0.5, 1.5];
+
+/**
+ * The game before adaptive difficulty has tuned it
+ */
+export const UNTUNED: Adaptive = {speed: 1, density: 1, attempts: []};
+
+/**
+ * Function that picks the next difficulty preset, going back to the easiest after the hardest
+ * @param name The current difficulty preset
+ * @returns The next difficulty preset
+ */
+export const nextDifficulty = (name: DifficultyName): DifficultyName =>
+  DIFFICULTIES[(DIFFICULTIES.indexOf(name) + 1) % DIFFICULTIES.length]
+
+/**
+ * Function that describes a difficulty in a few letters, for example "Hard (A)" for the hard preset with adaptive difficulty on
+ * @param name The difficulty preset
+ * @param adaptive Whether adaptive difficulty is on
+ * @returns The description of the difficulty
+ */
+export const difficultyLabel = (name: DifficultyName, adaptive: boolean): string =>
+  `${PRESETS[name].name}${adaptive ? " (A)" : ""}`
+
+/**
+ * Function that keeps a number within a range, rounded to hundredths so that the tuning stays the same across browsers
+ * @param v The number
+ * @param range The smallest and largest allowed number
+ * @returns The number within the range
+ */
+const within = (v: number, range: readonly [number, number]): number =>
+  Math.round(Math.min(range[1], Math.max(range[0], v)) * 100) / 100
+
+/**
+ * Function that tunes the game from the latest attempts of the frog(Player) once another attempt has ended.
+ * Every death among the latest attempts makes the lanes slower and thinner, and every bay filled in less than half the time limit makes
+ * them faster and busier
+ * @param a How the game is tuned now
+ * @param attempt The attempt that has ended
+ * @returns How the game is tuned after the attempt
+ */
+export const recordAttempt = (a: Adaptive, attempt: Attempt): Adaptive => {
+  const attempts = a.attempts.concat([attempt]).slice(-RECENTATTEMPTS);
+  const deaths = attempts.filter(t => t.died).length / attempts.length;
+  const quick = attempts.filter(t => !t.died && t.ticks * 2 <= t.limit).length / attempts.length;
+  return {
+    speed: within(1 + (quick - deaths) * 0.3, SPEEDRANGE),
+    density: within(1 + (quick - deaths) * 0.5, DENSITYRANGE),
+    attempts: attempts
+  }
+}
+
+/**
+ * Function that changes how many bodies a lane has, spreading them out over the same stretch of the lane
+ * @param count The number of bodies of the lane
+ * @param spacing The distance between the bodies of the lane
+ * @param density How many bodies the lane has compared to the level file
+ * @returns The number of bodies and the distance between them
+ */
+export const thin = (count: number, spacing: number, density: number): [number, number] => {
+  const tuned = Math.max(1, Math.round(count * density));
+  return [tuned, spacing * count / tuned]
+}
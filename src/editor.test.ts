@@ -0,0 +1,113 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Tick, Move } from "./game";
+import { LEVELS, loadLevel } from "./level";
+import { Editor, EditorEvent, PointerDown, PointerMove, PointerUp, SelectLane, AddLane, AddSpawn, AddBay, RemoveSelected, EditLane, EditLevel,
+  ImportLevel, TogglePreview, createEditor, reduceEditor, serializeLevel, describeLane } from "./editor";
+
+/**
+ * Function that feeds the given events to the editor, in order
+ * @param e The editor
+ * @param events The given events
+ * @returns The editor after the events
+ */
+const feed = (e: Editor, ...events: ReadonlyArray<EditorEvent>): Editor => events.reduce(reduceEditor, e);
+
+/**
+ * The editor editing the first level, whose first lane is a lane of cars starting at the left of row 480
+ */
+const editor = createEditor();
+
+describe("dragging", () => {
+  it("moves where the bodies of a lane start and its row", () => {
+    const e = feed(editor, new PointerDown({x: 30, y: 495}), new PointerMove({x: 80, y: 475}));
+    assert.deepEqual(e.selected, {kind: "lane", index: 0});
+    assert.deepEqual([e.level.lanes[0].offset, e.level.lanes[0].row], [50, 460]);
+    assert.deepEqual([e.preview.cars[0].position.x, e.preview.cars[0].position.y], [50, 460]);
+  });
+
+  it("measures the whole drag from where it started", () => {
+    const e = feed(editor, new PointerDown({x: 30, y: 495}), new PointerMove({x: 80, y: 495}), new PointerMove({x: 40, y: 495}), new PointerUp());
+    assert.equal(e.level.lanes[0].offset, 10);
+    assert.equal(e.drag, null);
+    assert.equal(feed(e, new PointerMove({x: 300, y: 300})).level, e.level);
+  });
+
+  it("moves target bays and power up spawn areas", () => {
+    const bay = feed(editor, new PointerDown({x: 120, y: 70}), new PointerMove({x: 130, y: 75}));
+    assert.deepEqual(bay.selected, {kind: "bay", index: 0});
+    assert.deepEqual(bay.level.bays[0], {x: 90, y: 40});
+    const spawn = feed(editor, new PointerDown({x: 300, y: 300}), new PointerMove({x: 350, y: 200}));
+    assert.deepEqual(spawn.selected, {kind: "spawn", index: 0});
+    assert.deepEqual([spawn.level.powerUps[0].x, spawn.level.powerUps[0].y], [[0, 600], [100, 400]]);
+  });
+
+  it("selects nothing when nothing is under the pointer", () => {
+    assert.equal(feed(editor, new PointerDown({x: 300, y: 300}), new RemoveSelected(), new PointerDown({x: 590, y: 590})).selected, null);
+  });
+});
+
+describe("editing", () => {
+  it("adds and removes lanes and power up spawn areas", () => {
+    const added = feed(editor, new AddLane("bus"));
+    assert.equal(added.level.lanes.length, LEVELS[0].lanes.length + 1);
+    assert.deepEqual(added.selected, {kind: "lane", index: LEVELS[0].lanes.length});
+    assert.equal(added.preview.buses.length, 7);
+    assert.deepEqual(feed(added, new RemoveSelected()).level.lanes, LEVELS[0].lanes);
+    assert.deepEqual(feed(editor, new AddSpawn(), new RemoveSelected()).level.powerUps, LEVELS[0].powerUps);
+  });
+
+  it("adds target bays in the first gap along the top and removes all but the last", () => {
+    const added = feed(editor, new AddBay());
+    assert.deepEqual(added.level.bays.slice(3), [{x: 0, y: 35}]);
+    assert.deepEqual(added.selected, {kind: "bay", index: 3});
+    assert.equal(added.preview.targets.length, 4);
+    assert.deepEqual(feed(added, new AddBay()).level.bays.slice(4), [{x: 160, y: 35}]);
+    const one = feed(editor, new PointerDown({x: 120, y: 70}), new RemoveSelected(), new PointerDown({x: 300, y: 70}), new RemoveSelected());
+    assert.deepEqual(one.level.bays, [{x: 440, y: 35}]);
+    assert.deepEqual(feed(one, new PointerDown({x: 480, y: 70}), new RemoveSelected()).errors, ["bays must contain at least one target bay"]);
+  });
+
+  it("changes the selected lane and the level", () => {
+    const e = feed(editor, new SelectLane(1), new EditLane({velocity: 50, direction: "right"}), new EditLevel({name: "Mine", timer: 20}));
+    assert.deepEqual([e.level.lanes[1].velocity, e.level.lanes[1].direction], [50, "right"]);
+    assert.deepEqual([e.level.name, e.level.timer], ["Mine", 20]);
+    assert.equal(describeLane(e.level.lanes[1], 1), "2. bus at row 425, 4 every 300px, 50px/s right");
+  });
+
+  it("keeps the level and explains why when a change would make it invalid", () => {
+    const e = feed(editor, new SelectLane(0), new EditLane({count: 0}));
+    assert.equal(e.level, editor.level);
+    assert.deepEqual(e.errors, ["lanes[0].count must be a positive whole number"]);
+    assert.deepEqual(feed(e, new EditLane({count: 2})).errors, []);
+  });
+});
+
+describe("level files", () => {
+  it("exports levels the game can load", () => {
+    const level = feed(editor, new AddLane("turtle")).level;
+    assert.deepEqual(loadLevel(JSON.parse(serializeLevel(level))), level);
+  });
+
+  it("imports valid level files and rejects the rest", () => {
+    assert.equal(feed(editor, new ImportLevel(serializeLevel(LEVELS[2]))).level.name, LEVELS[2].name);
+    const e = feed(editor, new ImportLevel("{}"));
+    assert.equal(e.level, editor.level);
+    assert.match(e.errors[0], /name must be a string/);
+    assert.equal(feed(editor, new ImportLevel("not json")).errors.length, 1);
+  });
+});
+
+describe("preview", () => {
+  it("runs the level and lets the frog be moved", () => {
+    const e = feed(editor, new Tick(0), new Tick(1), new Move("w", -60));
+    assert.equal(e.ticks, 2);
+    assert.notEqual(e.preview.cars[0].position.x, editor.preview.cars[0].position.x);
+    assert.equal(e.preview.frog.position.y, 500);
+  });
+
+  it("stops while the preview is stopped or something is dragged", () => {
+    assert.equal(feed(editor, new TogglePreview(), new Tick(0)).ticks, 0);
+    assert.equal(feed(editor, new PointerDown({x: 30, y: 495}), new Tick(0)).ticks, 0);
+  });
+});
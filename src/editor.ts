@@ -0,0 +1,445 @@
+/**
+ * The editor module which lets designers build levels in the page.
+ * Lanes, target bays and power up spawn areas can be picked and dragged on the canvas, every lane can be changed from the editor panel,
+ * and the level is previewed with the running simulation of the game as it is edited. Every change is checked with the same checks
+ * as a level file, so the editor can only make levels the game can load. Like the game module, nothing in this module touches the DOM.
+ */
+import { State, Body, GameEvent, Tick, Move, Restart, DEFAULTCONFIG, createGame, reduceState } from "./game";
+import { Level, Lane, LaneKind, Bay, PowerUpSpawn, LEVELS, BAYWIDTH, BAYHEIGHT, BAYROW, loadLevel, validateLevel } from "./level";
+import { Point, Placed, CANVASWIDTH, circle, rect, overlaps } from "./hitbox";
+
+/** The section below contains all the classes that will be used for the editor */
+
+/**
+ * The PointerDown class which tracks the user pressing on the canvas, which picks what is under the pointer and starts dragging it
+ */
+export class PointerDown {
+
+  /**
+   * Constructor for the PointerDown class
+   * @param point Where the canvas was pressed
+   */
+  constructor(public readonly point: Point) {}
+};
+
+/**
+ * The PointerMove class which tracks the pointer moving over the canvas, which drags what was picked
+ */
+export class PointerMove {
+
+  /**
+   * Constructor for the PointerMove class
+   * @param point Where the pointer is on the canvas
+   */
+  constructor(public readonly point: Point) {}
+};
+
+/**
+ * The PointerUp class which tracks the user letting go of the canvas, which drops what was dragged
+ */
+export class PointerUp { constructor() {} };
+
+/**
+ * The SelectLane class which tracks the user picking a lane from the list of lanes
+ */
+export class SelectLane {
+
+  /**
+   * Constructor for the SelectLane class
+   * @param index The index of the lane in the level
+   */
+  constructor(public readonly index: number) {}
+};
+
+/**
+ * The AddLane class which tracks the user adding a lane to the level
+ */
+export class AddLane {
+
+  /**
+   * Constructor for the AddLane class
+   * @param kind The kind of bodies moving along the new lane
+   */
+  constructor(public readonly kind: LaneKind) {}
+};
+
+/**
+ * The AddSpawn class which tracks the user adding a power up spawn area to the level
+ */
+export class AddSpawn { constructor() {} };
+
+/**
+ * The AddBay class which tracks the user adding a target bay to the level
+ */
+export class AddBay { constructor() {} };
+
+/**
+ * The RemoveSelected class which tracks the user removing the selected lane, target bay or power up spawn area
+ */
+export class RemoveSelected { constructor() {} };
+
+/**
+ * The EditLane class which tracks the user changing the selected lane from the editor panel
+ */
+export class EditLane {
+
+  /**
+   * Constructor for the EditLane class
+   * @param changes The fields of the lane that changed
+   */
+  constructor(public readonly changes: Partial<Lane>) {}
+};
+
+/**
+ * The EditLevel class which tracks the user changing the name, timer or lurking crocodiles of the level
+ */
+export class EditLevel {
+
+  /**
+   * Constructor for the EditLevel class
+   * @param changes The fields of the level that changed
+   */
+  constructor(public readonly changes: Partial<Pick<Level, "name" | "timer" | "lurkingCrocs">>) {}
+};
+
+/**
+ * The ImportLevel class which tracks the user loading a level file into the editor
+ */
+export class ImportLevel {
+
+  /**
+   * Constructor for the ImportLevel class
+   * @param json The contents of the level file
+   */
+  constructor(public readonly json: string) {}
+};
+
+/**
+ * The TogglePreview class which tracks the user stopping or starting the preview of the level
+ */
+export class TogglePreview { constructor() {} };
+
+/** The section above contains all the classes that will be used for the editor */
+
+/** The section below contains all the types that will be used for the editor */
+
+/**
+ * The Selection type which represents the part of the level being edited, as the kind of part and its index in the level
+ */
+export type Selection = Readonly<{
+  kind: "lane" | "bay" | "spawn",
+  index: number
+}>
+
+/**
+ * The Drag type which represents where the user started dragging and the level before the drag, so the whole drag is a single move
+ */
+export type Drag = Readonly<{
+  from: Point,
+  level: Level
+}>
+
+/**
+ * The EditorEvent type which represents all the events that can change the editor, events of the game are fed to the preview
+ */
+export type EditorEvent = GameEvent | PointerDown | PointerMove | PointerUp | SelectLane | AddLane | AddSpawn | AddBay | RemoveSelected
+  | EditLane | EditLevel | ImportLevel | TogglePreview;
+
+/**
+ * The Editor type which represents the current state of the editor.
+ * The errors explain why the latest change was not made, or why the latest level file could not be loaded
+ */
+export type Editor = Readonly<{
+  level: Level,
+  selected: Selection | null,
+  drag: Drag | null,
+  preview: State,
+  running: boolean,
+  ticks: number,
+  errors: ReadonlyArray<string>
+}>
+
+/** The section above contains all the types that will be used for the editor */
+
+/**
+ * The seed of the game the level is previewed in
+ */
+export const EDITORSEED = 1;
+
+/**
+ * The size of the bodies of a new lane of every kind
+ */
+const LANESIZES: Readonly<Record<LaneKind, readonly [number, number]>> = {
+  car: [60, 30],
+  bus: [80, 30],
+  plank: [120, 30],
+  croc: [100, 30],
+  snake: [80, 5],
+  turtle: [120, 30]
+};
+
+/**
+ * The power up spawn area added to a level, in the middle of the canvas
+ */
+const NEWSPAWN: PowerUpSpawn = {kind: "any", x: [250, 350], y: [300, 400]};
+
+/**
+ * How far apart the places a new target bay is tried in are
+ */
+const BAYSTEP = 10;
+
+/**
+ * How far around a power up spawn area it can still be picked, so that areas of a single point can be picked too
+ */
+const SPAWNMARGIN = 10;
+
+/**
+ * Function that creates a new lane of the given kind, in the middle of the canvas
+ * @param kind The given kind
+ * @returns The new lane
+ */
+export const newLane = (kind: LaneKind): Lane => ({
+  kind: kind,
+  row: 320,
+  count: 3,
+  spacing: 200,
+  offset: 0,
+  width: LANESIZES[kind][0],
+  height: LANESIZES[kind][1],
+  velocity: 100,
+  direction: "right",
+  diving: false
+})
+
+/**
+ * Function that creates a new target bay in the first gap along the top of the canvas that is wide enough for it,
+ * as high up as the target bays of the shipped levels
+ * @param level The level the target bay is added to
+ * @returns The new target bay, at the left of the canvas if there is no gap wide enough
+ */
+const newBay = (level: Level): Bay => ({
+  x: Array(Math.floor((600 - BAYWIDTH) / BAYSTEP) + 1).fill(0).map((_, index) => index * BAYSTEP)
+    .find(x => level.bays.every(bay => Math.abs(bay.x - x) >= BAYWIDTH)) || 0,
+  y: 35
+})
+
+/**
+ * Function that creates the game the level is previewed in, at the start of the level
+ * @param level The level
+ * @returns The game playing only the level
+ */
+const previewOf = (level: Level): State => createGame(EDITORSEED, {...DEFAULTCONFIG, levels: [level]})
+
+/**
+ * Function that creates the editor, editing the first level of the game unless told otherwise
+ * @param level The level to edit
+ * @returns The editor
+ */
+export const createEditor = (level: Level = LEVELS[0]): Editor => ({
+  level: level,
+  selected: null,
+  drag: null,
+  preview: previewOf(level),
+  running: true,
+  ticks: 0,
+  errors: []
+})
+
+/**
+ * Function that changes the level being edited, the change is only made if the level is still valid.
+ * The preview starts again from the start of the level so that it shows the change
+ * @param e The current state of the editor
+ * @param level The changed level
+ * @returns The state of the editor with the level changed, or with the errors of the level if it is not valid
+ */
+const change = (e: Editor, level: Level): Editor => {
+  const errors = validateLevel(level);
+  return errors.length > 0 ? {...e, errors: errors} : {...e, level: level, preview: previewOf(level), ticks: 0, errors: []}
+}
+
+/**
+ * Function that wraps a position around the canvas
+ * @param x The position
+ * @returns The position between 0 and the width of the canvas
+ */
+const wrap = (x: number): number => ((Math.round(x) % CANVASWIDTH) + CANVASWIDTH) % CANVASWIDTH
+
+/**
+ * Function that keeps a position on the canvas
+ * @param v The position
+ * @returns The position between 0 and 600
+ */
+const clamp = (v: number): number => Math.min(600, Math.max(0, Math.round(v)))
+
+/**
+ * Function that moves a range by the given distance, as far as it can go without leaving the canvas
+ * @param range The range
+ * @param d The distance
+ * @returns The moved range
+ */
+const shift = (range: readonly [number, number], d: number): readonly [number, number] => {
+  const moved = Math.min(600 - range[1], Math.max(-range[0], Math.round(d)));
+  return [range[0] + moved, range[1] + moved]
+}
+
+/**
+ * Function that finds the lane of a body in the preview, bodies of every kind are numbered across all the lanes of that kind
+ * @param level The level
+ * @param kind The kind of the body
+ * @param n The number of the body among the bodies of its kind
+ * @returns The index of the lane of the body in the level
+ */
+const laneOf = (level: Level, kind: LaneKind, n: number): number =>
+  level.lanes.reduce<[number, number]>(([found, before], lane, index) =>
+    found === -1 && lane.kind === kind && n < before + lane.count ? [index, before]
+    : [found, lane.kind === kind ? before + lane.count : before], [-1, 0])[0]
+
+/**
+ * Function that finds the part of the level under a point of the canvas.
+ * Target bays are picked first, then the bodies of the lanes, and power up spawn areas last since they usually cover the others
+ * @param e The current state of the editor
+ * @param point The point
+ * @returns The part of the level under the point, or null if there is none
+ */
+const pick = (e: Editor, point: Point): Selection | null => {
+  const pointer: Placed = {position: point, hitbox: circle(1)};
+  const bodies: ReadonlyArray<readonly [LaneKind, ReadonlyArray<Body>]> = [
+    ["car", e.preview.cars], ["bus", e.preview.buses], ["snake", e.preview.snakes],
+    ["plank", e.preview.planks], ["croc", e.preview.crocs], ["turtle", e.preview.turtles]
+  ];
+  const bay = e.preview.targets.findIndex(t => overlaps(pointer, t));
+  const lane = bodies.flatMap(([kind, list]) => list.flatMap((b, n) => overlaps(pointer, b) ? [laneOf(e.level, kind, n)] : []))[0];
+  const spawn = e.level.powerUps.findIndex(p => overlaps(pointer, {
+    position: {x: p.x[0] - SPAWNMARGIN, y: p.y[0] - SPAWNMARGIN},
+    hitbox: rect(p.x[1] - p.x[0] + SPAWNMARGIN * 2, p.y[1] - p.y[0] + SPAWNMARGIN * 2)
+  }));
+  return bay !== -1 ? {kind: "bay", index: bay}
+    : lane !== undefined ? {kind: "lane", index: lane}
+    : spawn !== -1 ? {kind: "spawn", index: spawn}
+    : null
+}
+
+/**
+ * Function that moves a part of the level by the given distance.
+ * Dragging a lane sideways moves where its bodies start and dragging it up or down moves its row,
+ * target bays are kept covering the top row and power up spawn areas are kept on the canvas
+ * @param level The level
+ * @param selected The part of the level to move
+ * @param dx The distance moved to the right
+ * @param dy The distance moved down
+ * @returns The level with the part moved
+ */
+const moveSelection = (level: Level, selected: Selection, dx: number, dy: number): Level =>
+  selected.kind === "lane" ? {...level, lanes: level.lanes.map((lane, index) =>
+      index === selected.index ? {...lane, offset: wrap(lane.offset + dx), row: clamp(lane.row + dy)} : lane)}
+  : selected.kind === "bay" ? {...level, bays: level.bays.map((bay, index) =>
+      index === selected.index ? {x: Math.min(600 - BAYWIDTH, clamp(bay.x + dx)), y: Math.min(BAYROW, Math.max(BAYROW - BAYHEIGHT, clamp(bay.y + dy)))} : bay)}
+  : {...level, powerUps: level.powerUps.map((p, index) => index === selected.index ? {...p, x: shift(p.x, dx), y: shift(p.y, dy)} : p)}
+
+/**
+ * Function that removes the selected lane, target bay or power up spawn area, the last target bay cannot be removed
+ * since every level needs at least one
+ * @param e The current state of the editor
+ * @returns The state of the editor without the selected part
+ */
+const removeSelected = (e: Editor): Editor => {
+  const selected = e.selected;
+  const removed = selected === null ? null
+    : selected.kind === "lane" ? change(e, {...e.level, lanes: e.level.lanes.filter((_, index) => index !== selected.index)})
+    : selected.kind === "bay" ? change(e, {...e.level, bays: e.level.bays.filter((_, index) => index !== selected.index)})
+    : change(e, {...e.level, powerUps: e.level.powerUps.filter((_, index) => index !== selected.index)});
+  return removed === null ? e : removed.errors.length > 0 ? removed : {...removed, selected: null}
+}
+
+/**
+ * Function that loads a level file into the editor
+ * @param e The current state of the editor
+ * @param json The contents of the level file
+ * @returns The state of the editor with the level loaded, or with the errors of the level file if it is not a valid level
+ */
+const importLevel = (e: Editor, json: string): Editor => {
+  try {
+    return {...change(e, loadLevel(JSON.parse(json))), selected: null, drag: null};
+  } catch (err) {
+    return {...e, errors: [err instanceof Error ? err.message : "Level file could not be read"]};
+  }
+}
+
+/**
+ * Function that turns a level into the contents of a level file
+ * @param level The level
+ * @returns The contents of the level file
+ */
+export const serializeLevel = (level: Level): string => JSON.stringify(level, null, 2)
+
+/**
+ * Function that describes a lane in the list of lanes, for example "1. car at row 480, 4 every 300px, 300px/s right"
+ * @param lane The lane
+ * @param index The index of the lane in the level
+ * @returns The description of the lane
+ */
+export const describeLane = (lane: Lane, index: number): string =>
+  `${index + 1}. ${lane.kind}${lane.diving ? " (diving)" : ""} at row ${lane.row}, ${lane.count} every ${lane.spacing}px, ${lane.velocity}px/s ${lane.direction}`
+
+/**
+ * Function that picks the part of the level under the pointer and starts dragging it.
+ * The preview starts again from the start of the level, so what is dragged starts where the level file puts it
+ * @param e The current state of the editor
+ * @param point Where the canvas was pressed
+ * @returns The state of the editor with the part picked
+ */
+const pointerDown = (e: Editor, point: Point): Editor => {
+  const selected = pick(e, point);
+  return selected === null ? {...e, selected: null}
+    : {...e, selected: selected, drag: {from: point, level: e.level}, preview: previewOf(e.level), ticks: 0, errors: []}
+}
+
+/**
+ * Function that adds a part to the level and selects it
+ * @param e The current state of the editor
+ * @param level The level with the part added
+ * @param selected The part added
+ * @returns The state of the editor with the part added and selected
+ */
+const add = (e: Editor, level: Level, selected: Selection): Editor => {
+  const added = change(e, level);
+  return added.errors.length > 0 ? added : {...added, selected: selected}
+}
+
+/**
+ * Function that changes the selected lane
+ * @param e The current state of the editor
+ * @param changes The fields of the lane that changed
+ * @returns The state of the editor with the lane changed
+ */
+const editLane = (e: Editor, changes: Partial<Lane>): Editor => {
+  const selected = e.selected;
+  return selected === null || selected.kind !== "lane" ? e
+    : change(e, {...e.level, lanes: e.level.lanes.map((lane, index) => index === selected.index ? {...lane, ...changes} : lane)})
+}
+
+/**
+ * Function that returns a new state of the editor based on the user input or tick.
+ * Ticks run the preview unless it is stopped or something is being dragged, and moves of the frog are fed to the preview so the level
+ * can be played while it is edited
+ * @param e The current state of the editor
+ * @param ev The event that has occured based on the user input or tick
+ * @returns A new state of the editor
+ */
+export const reduceEditor = (e: Editor, ev: EditorEvent): Editor =>
+  ev instanceof Tick ? e.running && e.drag === null ? {...e, preview: reduceState(e.preview, new Tick(e.ticks)), ticks: e.ticks + 1} : e
+  : ev instanceof Move ? {...e, preview: reduceState(e.preview, ev)}
+  : ev instanceof Restart ? {...e, preview: previewOf(e.level), ticks: 0}
+  : ev instanceof PointerDown ? pointerDown(e, ev.point)
+  : ev instanceof PointerMove ? e.drag === null || e.selected === null ? e
+    : change(e, moveSelection(e.drag.level, e.selected, ev.point.x - e.drag.from.x, ev.point.y - e.drag.from.y))
+  : ev instanceof PointerUp ? {...e, drag: null}
+  : ev instanceof SelectLane ? ev.index >= 0 && ev.index < e.level.lanes.length ? {...e, selected: {kind: "lane", index: ev.index}} : e
+  : ev instanceof AddLane ? add(e, {...e.level, lanes: e.level.lanes.concat([newLane(ev.kind)])}, {kind: "lane", index: e.level.lanes.length})
+  : ev instanceof AddSpawn ? add(e, {...e.level, powerUps: e.level.powerUps.concat([NEWSPAWN])}, {kind: "spawn", index: e.level.powerUps.length})
+  : ev instanceof AddBay ? add(e, {...e.level, bays: e.level.bays.concat([newBay(e.level)])}, {kind: "bay", index: e.level.bays.length})
+  : ev instanceof RemoveSelected ? removeSelected(e)
+  : ev instanceof EditLane ? editLane(e, ev.changes)
+  : ev instanceof EditLevel ? change(e, {...e.level, ...ev.changes})
+  : ev instanceof ImportLevel ? importLevel(e, ev.json)
+  : {...e, running: !e.running};
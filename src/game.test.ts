@@ -0,0 +1,640 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Body, Snake, State, Player, Mode, LadyFrog, Vector, Tick, Move, Restart, DEFAULTCONFIG, TICKSPERSECOND, SECONDFROG, createGame, reduceState, step, swapPlayers, players, winner, withDifficulty, deathCause } from "./game";
+import { rect, circle } from "./hitbox";
+import { LEVELS } from "./level";
+import { PowerUpKind, POWERUPS } from "./powerup";
+import { play, ticks, placeFrog, still, fillBays } from "./testing";
+
+/**
+ * Function that turns a vector into a plain array so that it can be compared
+ * @param v The given vector
+ * @returns The x and y coordinates of the vector
+ */
+const xy = (v: Vector): [number, number] => [v.x, v.y];
+
+describe("createGame", () => {
+  it("creates the same state for the same seed", () => {
+    /**
+     * Function that finds the kind and position of the power up a game starts with
+     * @param seed The seed of the game
+     * @returns The kind and position of the power up
+     */
+    const pickup = (seed: number) => {
+      const p = createGame(seed).pickup;
+      return p && [p.kind, ...xy(p.position)];
+    }
+    assert.deepEqual(pickup(7), pickup(7));
+    assert.notDeepEqual(pickup(7), pickup(8));
+  });
+
+  it("starts the frog at the bottom of the canvas", () => {
+    const s = createGame(1);
+    assert.deepEqual(xy(s.frog.position), [300, 560]);
+    assert.equal(s.level, 1);
+    assert.equal(s.score, 0);
+    assert.equal(s.gameOver, false);
+  });
+});
+
+describe("step", () => {
+  it("is deterministic for a scripted sequence of events", () => {
+    const events = [new Move("w", -60), ...ticks(50), new Move("a", -45), ...ticks(50, 50)];
+    const a = play(createGame(3), events);
+    const b = events.reduce(step, createGame(3));
+    assert.deepEqual(xy(a.frog.position), xy(b.frog.position));
+    assert.deepEqual(a.cars.map(c => xy(c.position)), b.cars.map(c => xy(c.position)));
+    assert.equal(a.gameOver, b.gameOver);
+  });
+
+  it("moves the frog by the steps of a Move", () => {
+    const s = play(createGame(1), [new Move("w", -60), new Move("a", -45)]);
+    assert.deepEqual(xy(s.frog.position), [255, 500]);
+  });
+
+  it("moves every lane by its velocity in pixels per second on a Tick", () => {
+    const s = createGame(1);
+    const next = step(s, new Tick(0));
+    assert.equal(next.cars[1].position.x, s.cars[1].position.x + s.cars[1].velocity.x / TICKSPERSECOND);
+    assert.equal(next.buses[1].position.x, s.buses[1].position.x + s.buses[1].velocity.x / TICKSPERSECOND);
+    assert.equal(next.time, 0);
+  });
+});
+
+describe("collisions", () => {
+  it("kills the frog when it is hit by a car", () => {
+    const s = {...placeFrog(createGame(1), 100, 480), cars: [still("car0", 90, 480, 60)]};
+    assert.equal(step(s, new Tick(0)).dead, true);
+  });
+
+  it("forgives a car that only grazes the frog by the margin from the config", () => {
+    const s = {...placeFrog(createGame(1), 100, 480), cars: [still("car0", 122, 480, 60)]};
+    assert.equal(step(s, new Tick(0)).dead, false);
+    assert.equal(step({...s, config: {...s.config, margins: {...s.config.margins, car: 0}}}, new Tick(0)).dead, true);
+  });
+
+  it("hits the frog with a car that is wrapping around the edge of the canvas", () => {
+    const s = {...placeFrog(createGame(1), 30, 480), cars: [still("car0", 580, 480, 60)]};
+    assert.equal(step(s, new Tick(0)).dead, true);
+  });
+
+  it("kills the frog when it falls into the river", () => {
+    const s = play({...createGame(1), planks: [], crocs: [], turtles: []}, [new Move("w", -60)]);
+    const drowned = play(placeFrog(s, 300, 200), ticks(2));
+    assert.equal(drowned.lives, s.lives - 1);
+  });
+
+  it("lets the frog ride a plank in the river", () => {
+    const s = {...placeFrog(createGame(1), 310, 240), planks: [{...still("plank0", 300, 240, 120), velocity: new Vector(200, 0)}]};
+    const riding = play(s, ticks(3));
+    assert.equal(riding.gameOver, false);
+    assert.equal(riding.frog.onLog, true);
+    assert.ok(riding.frog.position.x > 310);
+  });
+
+  it("cycles diving turtles through surfacing, sinking and submerging", () => {
+    const s = {...createGame(1), turtles: [{...still("turtle0", 0, 130, 120), dive: 0, phase: "surfaced" as const}]};
+    const { surfaced, sinking, submerged } = s.config.turtleCycle;
+    assert.equal(step(s, new Tick(surfaced - 1)).turtles[0].phase, "surfaced");
+    assert.equal(step(s, new Tick(surfaced)).turtles[0].phase, "sinking");
+    assert.equal(step(s, new Tick(surfaced + sinking)).turtles[0].phase, "submerged");
+    assert.equal(step(s, new Tick(surfaced + sinking + submerged)).turtles[0].phase, "surfaced");
+  });
+
+  it("drowns the frog when the turtle it stands on submerges", () => {
+    const s = {...placeFrog(createGame(1), 310, 130), planks: [], crocs: [], turtles: [{...still("turtle0", 300, 130, 120), dive: 0, phase: "surfaced" as const}]};
+    const { surfaced, sinking } = s.config.turtleCycle;
+    const standing = play(s, ticks(5, surfaced));
+    assert.equal(standing.frog.onTurtle, true);
+    assert.equal(standing.lives, s.lives);
+    const drowned = play(standing, ticks(3, surfaced + sinking));
+    assert.equal(drowned.lives, s.lives - 1);
+  });
+
+  it("never submerges turtles that do not dive", () => {
+    const s = {...createGame(1), turtles: [still("turtle0", 0, 130, 120)]};
+    assert.equal(step(s, new Tick(600)).turtles[0].phase, undefined);
+  });
+
+  it("eats the frog when it stays on a crocodile for too long", () => {
+    const s = {...placeFrog(createGame(1), 310, 185), crocs: [still("croc0", 300, 185, 100)], planks: [], turtles: []};
+    assert.equal(play(s, ticks(s.config.crocTime)).lives, s.lives);
+    assert.equal(play(s, ticks(s.config.crocTime + 5)).lives, s.lives - 1);
+  });
+
+  it("ignores Move events after game over", () => {
+    const s = {...createGame(1), gameOver: true};
+    assert.equal(step(s, new Move("w", -60)), s);
+  });
+});
+
+describe("crocodiles", () => {
+  /**
+   * A crocodile swimming to the left, with its head on the left, and its jaws closed
+   */
+  const croc: Body = {...still("croc0", 300, 185, 100), velocity: new Vector(-100, 0), jaw: 0, mouthOpen: false};
+
+  /**
+   * A game with the crocodile as the only object in the River section
+   */
+  const river = {...createGame(1), planks: [], turtles: [], crocs: [croc]};
+
+  it("opens and closes the jaws of a crocodile on a cycle", () => {
+    const { closed, open } = river.config.crocJaws;
+    assert.equal(step(river, new Tick(closed - 1)).crocs[0].mouthOpen, false);
+    assert.equal(step(river, new Tick(closed)).crocs[0].mouthOpen, true);
+    assert.equal(step(river, new Tick(closed + open)).crocs[0].mouthOpen, false);
+  });
+
+  it("eats the frog when it is on the head of a crocodile with its jaws open", () => {
+    const closed = river.config.crocJaws.closed;
+    assert.equal(play(placeFrog(river, 305, 185), ticks(5, closed - 10)).lives, river.lives);
+    assert.equal(play(placeFrog(river, 305, 185), ticks(5, closed)).lives, river.lives - 1);
+  });
+
+  it("lets the frog ride on the back of a crocodile with its jaws open", () => {
+    const s = play(placeFrog(river, 380, 185), ticks(5, river.config.crocJaws.closed));
+    assert.equal(s.lives, river.lives);
+    assert.equal(s.frog.onCroc, true);
+  });
+
+  it("only lurks in target bays on levels that allow it", () => {
+    const away = DEFAULTCONFIG.crocLurk.away;
+    assert.equal(step(createGame(1), new Tick(away)).lurkingCroc, -1);
+    assert.equal(step(createGame(1, DEFAULTCONFIG, 3), new Tick(away - 1)).lurkingCroc, -1);
+    assert.ok(step(createGame(1, DEFAULTCONFIG, 3), new Tick(away)).lurkingCroc >= 0);
+  });
+
+  it("kills the frog instead of filling the target bay a crocodile lurks in", () => {
+    const s = createGame(1, DEFAULTCONFIG, 3);
+    const lurking = step(s, new Tick(s.config.crocLurk.away));
+    const next = play(placeFrog(lurking, [110, 290, 470][lurking.lurkingCroc], 140), [new Move("w", -60), ...ticks(2, s.config.crocLurk.away + 1)]);
+    assert.equal(next.lives, s.lives - 1);
+    assert.equal(next.score, 0);
+    assert.equal(next.targets.filter(t => t.filled).length, 0);
+  });
+});
+
+describe("snakes", () => {
+  /**
+   * Function that creates a snake at the given position
+   * @param x x-coordinate of the left of the snake
+   * @param y y-coordinate of the top of the snake
+   * @param velocity How fast the snake slithers to the right
+   * @returns The snake
+   */
+  const snake = (x: number, y: number, velocity: number): Snake =>
+    ({id: "snake0", position: new Vector(x, y), hitbox: rect(60, 5), velocity: new Vector(velocity, 0), riding: null, offset: 0});
+
+  it("poisons the frog it bites, which turns its controls around", () => {
+    const s = step({...placeFrog(createGame(1), 100, 380), snakes: [snake(80, 380, 0)]}, new Tick(0));
+    assert.equal(s.poison, s.config.poison);
+    assert.equal(s.dead, false);
+    assert.equal(step(s, new Move("w", -60)).frog.position.y, 440);
+  });
+
+  it("does not bite a frog that is still invulnerable", () => {
+    const s = {...placeFrog(createGame(1), 100, 380), snakes: [snake(80, 380, 0)], invulnerable: 10};
+    assert.equal(step(s, new Tick(0)).poison, 0);
+  });
+
+  it("wears the poison off as time passes", () => {
+    const s = play({...createGame(1), snakes: [], poison: 2}, ticks(2));
+    assert.equal(s.poison, 0);
+    assert.equal(step(s, new Move("w", -60)).frog.position.y, 500);
+  });
+
+  it("turns toward a frog that comes within sight on its row", () => {
+    const s = {...placeFrog(createGame(1), 100, 380), snakes: [snake(200, 380, 100)]};
+    assert.ok(step(s, new Tick(0)).snakes[0].velocity.x < 0);
+    assert.ok(step(placeFrog(s, 100, 440), new Tick(0)).snakes[0].velocity.x > 0);
+  });
+
+  it("slithers along the plank it rides and turns around at its end", () => {
+    const plank = still("plank0", 300, 240, 120);
+    const s = {...createGame(1), planks: [plank], snakes: [{...snake(359, 252, 100), riding: "plank0", offset: 59}]};
+    const next = play(s, ticks(2));
+    assert.deepEqual(xy(next.snakes[0].position), [360, 252.5]);
+    assert.ok(next.snakes[0].velocity.x < 0);
+  });
+
+  it("puts the snakes of a level that start on a plank onto the plank", () => {
+    const s = createGame(1, DEFAULTCONFIG, 3);
+    assert.deepEqual(s.snakes.filter(b => b.riding !== null).map(b => b.riding), ["plank0", "plank1"]);
+  });
+});
+
+describe("bonuses", () => {
+  /**
+   * A game where a fly has just started visiting a target bay
+   */
+  const visited = step(createGame(1), new Tick(DEFAULTCONFIG.fly.away));
+
+  /**
+   * Function that creates the lady frog riding a stationary plank at the given position
+   * @param x x-coordinate of the left of the plank
+   * @param y y-coordinate of the top of the plank
+   * @returns The plank and the lady frog riding it
+   */
+  const ladyOn = (x: number, y: number): [Body, LadyFrog] => [still("plank0", x, y, 120), {
+    id: "ladyFrog",
+    position: new Vector(x + 60, y + 15),
+    hitbox: circle(12),
+    velocity: Vector.Zero,
+    plank: "plank0",
+    offset: 60,
+    carriedBy: null,
+    ticksLeft: 500
+  }];
+
+  it("sends a fly to an empty target bay from time to time", () => {
+    assert.equal(step(createGame(1), new Tick(DEFAULTCONFIG.fly.away - 1)).fly, -1);
+    assert.ok(visited.fly >= 0);
+    assert.equal(step(fillBays(visited, visited.fly), new Tick(DEFAULTCONFIG.fly.away + 1)).fly, -1);
+  });
+
+  it("scores a bonus for landing in a target bay while the fly is there", () => {
+    const s = play(placeFrog(visited, [110, 290, 470][visited.fly], 140), [new Move("w", -60), new Tick(DEFAULTCONFIG.fly.away + 1)]);
+    assert.equal(s.score, 300 + 29 * DEFAULTCONFIG.timeBonus + DEFAULTCONFIG.fly.bonus);
+  });
+
+  it("brings the lady frog onto a plank from time to time, where she rides along", () => {
+    const s = step(createGame(1), new Tick(DEFAULTCONFIG.ladyFrog.every));
+    assert.ok(s.ladyFrog !== null);
+    const plank = s.planks.find(p => p.id === (s.ladyFrog as LadyFrog).plank) as Body;
+    assert.equal(s.ladyFrog.position.x, plank.position.x + s.ladyFrog.offset);
+    const next = step(s, new Tick(DEFAULTCONFIG.ladyFrog.every + 1));
+    assert.equal((next.ladyFrog as LadyFrog).position.x, s.ladyFrog.position.x + plank.velocity.x / TICKSPERSECOND);
+    assert.equal(step({...s, ladyFrog: {...s.ladyFrog, ticksLeft: 1}}, new Tick(0)).ladyFrog, null);
+  });
+
+  it("lets the frog pick up the lady frog and carry her on its back", () => {
+    const [plank, lady] = ladyOn(200, 240);
+    const s = play({...placeFrog(createGame(1), 260, 255), planks: [plank], ladyFrog: lady}, ticks(2));
+    assert.equal((s.ladyFrog as LadyFrog).carriedBy, 0);
+    const moved = play(s, [new Move("w", -60), new Tick(2)]);
+    assert.deepEqual(xy((moved.ladyFrog as LadyFrog).position), xy(moved.frog.position));
+  });
+
+  it("scores a bonus for bringing the lady frog home", () => {
+    const [, lady] = ladyOn(200, 240);
+    const s = play({...placeFrog(createGame(1), 110, 140), ladyFrog: {...lady, carriedBy: 0}}, [new Move("w", -60), new Tick(0)]);
+    assert.equal(s.score, 300 + 29 * DEFAULTCONFIG.timeBonus + DEFAULTCONFIG.ladyFrog.bonus);
+    assert.equal(s.ladyFrog, null);
+  });
+
+  it("loses the lady frog when the frog carrying her dies", () => {
+    const [, lady] = ladyOn(200, 240);
+    const s = play({...placeFrog(createGame(1), 100, 480), cars: [still("car0", 90, 480, 60)], ladyFrog: {...lady, carriedBy: 0}}, ticks(2));
+    assert.equal(s.lives, 2);
+    assert.equal(s.ladyFrog, null);
+  });
+});
+
+describe("lives", () => {
+  /**
+   * A game where the frog(Player) is about to be hit by a car
+   */
+  const hit = {...placeFrog(createGame(1), 100, 480), cars: [still("car0", 90, 480, 60)]};
+
+  it("starts with the configured number of lives", () => {
+    assert.equal(createGame(1).lives, 3);
+    assert.equal(createGame(1, {...DEFAULTCONFIG, lives: 5}).lives, 5);
+  });
+
+  it("respawns the frog at the start position keeping the filled targets, level and score", () => {
+    const s = {...fillBays(hit, 0), level: 2, score: 600};
+    const next = play(s, ticks(2));
+    assert.equal(next.lives, 2);
+    assert.equal(next.gameOver, false);
+    assert.deepEqual(xy(next.frog.position), [300, 560]);
+    assert.equal(next.targets[0].filled, true);
+    assert.equal(next.level, 2);
+    assert.equal(next.score, 600);
+  });
+
+  it("keeps the frog invulnerable for a while after respawning", () => {
+    const respawned = play(hit, ticks(2));
+    assert.equal(respawned.invulnerable, respawned.config.invulnerableTime);
+    const again = play(placeFrog(respawned, 100, 480), ticks(2));
+    assert.equal(again.lives, 2);
+    const later = play(placeFrog({...respawned, invulnerable: 1}, 100, 480), ticks(3));
+    assert.equal(later.lives, 1);
+  });
+
+  it("ends the game when the last life is lost", () => {
+    const s = play({...hit, lives: 1}, ticks(2));
+    assert.equal(s.gameOver, true);
+    assert.equal(s.lives, 0);
+  });
+
+  it("awards an extra life when the score passes the threshold", () => {
+    const s = {...placeFrog(createGame(1), 110, 140), score: DEFAULTCONFIG.extraLifeEvery - 100};
+    const next = play(s, [new Move("w", -60), new Tick(0)]);
+    assert.ok(next.score > DEFAULTCONFIG.extraLifeEvery);
+    assert.equal(next.lives, s.lives + 1);
+  });
+
+  it("keeps the lives when a target is filled", () => {
+    const s = play({...placeFrog(createGame(1), 110, 140), lives: 2}, [new Move("w", -60), ...ticks(2)]);
+    assert.equal(s.lives, 2);
+  });
+});
+
+describe("power ups", () => {
+  /**
+   * Function that puts a power up of the given kind right where the frog(Player) stands
+   * @param s The current state of the game
+   * @param kind The given kind of power up
+   * @returns The state of the game with the power up under the frog
+   */
+  const under = (s: State, kind: PowerUpKind): State =>
+    ({...s, pickup: {id: "powerUp", kind: kind, position: new Vector(s.frog.position.x - 10, s.frog.position.y - 10), hitbox: rect(20, 20), velocity: Vector.Zero}});
+
+  it("picks up a power up and takes it off the canvas", () => {
+    const s = step(under(createGame(1), "doubleJump"), new Tick(0));
+    assert.equal(s.pickup, null);
+    assert.deepEqual(s.powerUps, [{kind: "doubleJump", ticksLeft: POWERUPS.doubleJump.duration}]);
+    assert.equal(step(s, new Move("w", -60)).frog.position.y, 440);
+  });
+
+  it("wears power ups off as time passes", () => {
+    const s = play({...createGame(1), powerUps: [{kind: "doubleJump", ticksLeft: 2}]}, ticks(2));
+    assert.deepEqual(s.powerUps, []);
+    assert.equal(step(s, new Move("w", -60)).frog.position.y, 500);
+  });
+
+  it("absorbs one hit with a shield", () => {
+    const hit = {...placeFrog(createGame(1), 100, 480), cars: [still("car0", 90, 480, 60)], powerUps: [{kind: "shield" as const, ticksLeft: 100}]};
+    const s = step(hit, new Tick(0));
+    assert.equal(s.dead, false);
+    assert.deepEqual(s.powerUps, []);
+    assert.equal(s.invulnerable, s.config.invulnerableTime);
+  });
+
+  it("slows every lane down while time is slowed", () => {
+    const s = {...createGame(1), powerUps: [{kind: "slowTime" as const, ticksLeft: 100}]};
+    const next = step(s, new Tick(0));
+    assert.equal(next.cars[1].position.x, s.cars[1].position.x + s.cars[1].velocity.x / TICKSPERSECOND / 2);
+  });
+
+  it("gives an extra life straight away", () => {
+    const s = step(under(createGame(1), "extraLife"), new Tick(0));
+    assert.equal(s.lives, 4);
+    assert.deepEqual(s.powerUps, []);
+  });
+
+  it("cures the poison of a snake bite with an antidote", () => {
+    const s = step(under({...createGame(1), snakes: [], poison: 300}, "antidote"), new Tick(0));
+    assert.equal(s.poison, 0);
+    assert.deepEqual(s.powerUps, []);
+  });
+
+  it("spawns another power up at the next multiple of the power up interval", () => {
+    const s = {...createGame(1), pickup: null};
+    assert.equal(step(s, new Tick(DEFAULTCONFIG.powerUpEvery - 1)).pickup, null);
+    assert.notEqual(step(s, new Tick(DEFAULTCONFIG.powerUpEvery)).pickup, null);
+  });
+});
+
+describe("timer", () => {
+  it("takes the length of the timer from the level", () => {
+    const s = createGame(1);
+    assert.equal(s.timeLimit, DEFAULTCONFIG.levels[0].timer * TICKSPERSECOND);
+    assert.equal(createGame(1, DEFAULTCONFIG, 3).timeLimit, DEFAULTCONFIG.levels[2].timer * TICKSPERSECOND);
+  });
+
+  it("counts down every tick", () => {
+    const s = play(createGame(1), ticks(10));
+    assert.equal(s.timeLeft, s.timeLimit - 10);
+  });
+
+  it("kills the frog and restarts the timer when time runs out", () => {
+    const s = play({...createGame(1), cars: [], buses: [], snakes: [], timeLeft: 2}, ticks(3));
+    assert.equal(s.lives, 2);
+    assert.equal(s.timeLeft, s.timeLimit);
+  });
+
+  it("gives a bigger bonus the more time is left", () => {
+    const quick = play(placeFrog(createGame(1), 110, 140), [new Move("w", -60), new Tick(0)]);
+    const slow = play({...placeFrog(createGame(1), 110, 140), timeLeft: 500}, [new Move("w", -60), new Tick(0)]);
+    assert.equal(quick.score - slow.score, (29 - 4) * DEFAULTCONFIG.timeBonus);
+  });
+});
+
+describe("scoring", () => {
+  it("fills a target and scores 300 points plus the time bonus", () => {
+    const s = play(placeFrog(createGame(1), 110, 140), [new Move("w", -60), new Tick(0)]);
+    assert.equal(s.reached, true);
+    assert.equal(s.targets[0].filled, true);
+    assert.equal(s.score, 300 + 29 * DEFAULTCONFIG.timeBonus);
+    assert.equal(s.highScore, s.score);
+  });
+
+  it("sends the frog back to the start after filling a target", () => {
+    const s = play(placeFrog(createGame(1), 110, 140), [new Move("w", -60), ...ticks(2)]);
+    assert.deepEqual(xy(s.frog.position), [300, 560]);
+    assert.equal(s.frogCount, 1);
+    assert.equal(s.targets[0].filled, true);
+    assert.equal(s.timeLeft, s.timeLimit);
+  });
+
+  it("costs a life to jump onto the wall between the target bays", () => {
+    const s = play(placeFrog(createGame(1), 210, 140), [new Move("w", -60), new Tick(0)]);
+    assert.deepEqual(xy(s.frog.position), [210, 80]);
+    assert.equal(s.dead, true);
+    assert.equal(s.score, 0);
+  });
+
+  it("costs a life to jump into a target bay that is already filled", () => {
+    const s = play(placeFrog(fillBays(createGame(1), 0), 110, 140), [new Move("w", -60), new Tick(0)]);
+    assert.equal(s.dead, true);
+    assert.equal(s.reached, false);
+    assert.equal(s.score, 0);
+  });
+
+  it("keeps the highscore but resets the score on Restart", () => {
+    const s = play(placeFrog(createGame(1), 110, 140), [new Move("w", -60), new Tick(0), new Restart()]);
+    assert.equal(s.score, 0);
+    assert.equal(s.highScore, 300 + 29 * DEFAULTCONFIG.timeBonus);
+    assert.equal(s.restart, true);
+    assert.equal(s.targets[0].filled, undefined);
+  });
+});
+
+describe("level ups", () => {
+  it("advances the level once every target is filled", () => {
+    const s = createGame(1);
+    const almost = placeFrog(fillBays(s, 0, 1), 480, 140);
+    const next = play(almost, [new Move("w", -60), ...ticks(3)]);
+    assert.equal(next.level, 2);
+    assert.equal(next.levelBeaten, true);
+    assert.equal(next.score, 300 + 29 * DEFAULTCONFIG.timeBonus + 500);
+    assert.equal(next.targets[2].filled, undefined);
+  });
+
+  it("lets a level have any number of target bays and beats it once they are all filled", () => {
+    const level = {...LEVELS[0], bays: [{x: 0, y: 35}, {x: 130, y: 35}, {x: 260, y: 35}, {x: 390, y: 35}, {x: 520, y: 35}]};
+    const s = createGame(1, {...DEFAULTCONFIG, levels: [level]});
+    assert.equal(s.targets.length, 5);
+    const almost = placeFrog(fillBays(s, 0, 1, 2, 3), 570, 140);
+    assert.equal(play(almost, [new Move("w", -60), ...ticks(1)]).level, 1);
+    assert.equal(play(almost, [new Move("w", -60), ...ticks(2)]).level, 2);
+  });
+
+  it("speeds up every lane on a level up", () => {
+    const s = createGame(1);
+    const beaten = fillBays(s, 0, 1, 2);
+    const next = step(beaten, new Tick(0));
+    assert.equal(next.cars[0].velocity.x, s.cars[0].velocity.x + s.config.speedIncrease);
+    assert.equal(next.buses[0].velocity.x, s.buses[0].velocity.x - s.config.speedIncrease);
+    assert.equal(next.planks[0].velocity.x, s.planks[0].velocity.x + s.config.speedIncrease);
+  });
+
+  it("speeds up the last level by the speed increase from the config once every level is beaten", () => {
+    const s = createGame(1, {...DEFAULTCONFIG, speedIncrease: 1, levels: DEFAULTCONFIG.levels.slice(0, 1)});
+    const beaten = fillBays(s, 0, 1, 2);
+    assert.equal(step(beaten, new Tick(0)).cars[0].velocity.x, s.cars[0].velocity.x + 1);
+  });
+});
+
+describe("difficulty", () => {
+  it("sets the starting speeds, lives, timer and crocodile tolerance from the preset", () => {
+    const normal = createGame(1);
+    const hard = createGame(1, withDifficulty(DEFAULTCONFIG, "hard"));
+    assert.equal(hard.cars[0].velocity.x, normal.cars[0].velocity.x * 1.25);
+    assert.deepEqual([hard.lives, hard.timeLimit, hard.config.crocTime], [2, 23 * TICKSPERSECOND, 150]);
+    const easy = createGame(1, withDifficulty(DEFAULTCONFIG, "easy"));
+    assert.deepEqual([easy.lives, easy.timeLimit], [5, 45 * TICKSPERSECOND]);
+  });
+
+  it("only tunes the game while adaptive difficulty is on", () => {
+    const hit = {...placeFrog(createGame(1), 100, 480), cars: [still("car0", 90, 480, 60)]};
+    assert.equal(play(hit, ticks(2)).tuning.speed, 1);
+    const adaptive = play({...hit, config: {...hit.config, adaptive: true}}, ticks(2));
+    assert.equal(adaptive.tuning.attempts.length, 1);
+    assert.deepEqual([adaptive.tuning.speed, adaptive.tuning.density], [0.7, 0.5]);
+    const moved = (s: State) => step(s, new Tick(2)).cars[0].position.x - s.cars[0].position.x;
+    assert.equal(Math.round(moved({...createGame(1), tuning: adaptive.tuning}) * 1000), Math.round(moved(createGame(1)) * 700));
+  });
+
+  it("counts a bay filled quickly and thins out the lanes of the next level after deaths", () => {
+    const s = play(placeFrog(createGame(1, {...DEFAULTCONFIG, adaptive: true}), 110, 140), [new Move("w", -60), ...ticks(2)]);
+    assert.deepEqual(s.tuning.attempts, [{died: false, ticks: 1, limit: s.timeLimit}]);
+    const struggling = {...fillBays(s, 0, 1, 2), tuning: {...s.tuning, density: 0.5}};
+    const next = step(struggling, new Tick(2));
+    assert.equal(next.level, 2);
+    assert.equal(next.cars.length, createGame(1, DEFAULTCONFIG, 2).cars.length / 2);
+    assert.equal(next.tuning.density, 0.5);
+  });
+});
+
+describe("two players", () => {
+  /**
+   * A game of two frogs racing each other
+   */
+  const versus = createGame(1, {...DEFAULTCONFIG, mode: "versus"});
+
+  /**
+   * Function that places the frog of the second player at the given position
+   * @param s The current state of the game
+   * @param x x-coordinate of the frog
+   * @param y y-coordinate of the frog
+   * @returns The state of the game with the frog of the second player at the given position
+   */
+  const placeSecond = (s: State, x: number, y: number): State => swapPlayers(placeFrog(swapPlayers(s), x, y));
+
+  it("starts both frogs side by side with their own lives and timer", () => {
+    assert.equal(createGame(1).second, null);
+    const [one, two] = players(versus);
+    assert.deepEqual([xy(one.frog.position), xy(two.frog.position)], [[255, 560], [345, 560]]);
+    assert.equal(two.frog.id, SECONDFROG);
+    assert.equal(two.lives, DEFAULTCONFIG.lives);
+    assert.equal(two.timeLeft, versus.timeLimit);
+  });
+
+  it("does not bring a player without lives back when the level bonus passes the extra life threshold", () => {
+    const out = {...versus, second: versus.second && {...versus.second, lives: 0, score: DEFAULTCONFIG.extraLifeEvery - 100}};
+    const next = step(fillBays(out, 0, 1, 2), new Tick(0));
+    assert.equal(next.level, 2);
+    assert.equal((next.second as Player).score, DEFAULTCONFIG.extraLifeEvery + 400);
+    assert.equal((next.second as Player).lives, 0);
+  });
+
+  it("moves the frog of the player the Move belongs to", () => {
+    const s = play(versus, [new Move("a", -45, 1)]);
+    assert.deepEqual(xy(s.frog.position), [255, 560]);
+    assert.deepEqual(xy((s.second as Player).frog.position), [300, 560]);
+    assert.deepEqual(xy(play(createGame(1), [new Move("a", -45, 1)]).frog.position), [255, 560]);
+  });
+
+  it("runs both frogs through the same collisions", () => {
+    const s = {...placeSecond(versus, 300, 460), cars: [still("car0", 280, 445, 60)]};
+    const next = play(s, [new Tick(0)]);
+    assert.equal((next.second as Player).dead, true);
+    assert.equal(next.dead, false);
+    assert.equal((play(next, [new Tick(1)]).second as Player).lives, DEFAULTCONFIG.lives - 1);
+  });
+
+  it("scores the target bay for the player whose frog filled it", () => {
+    const s = play(placeSecond(versus, 110, 140), [new Move("w", -60, 1), new Tick(0)]);
+    assert.equal(s.targets[0].filled, true);
+    assert.equal(s.targets[0].filledBy, 1);
+    assert.equal(s.score, 0);
+    assert.equal((s.second as Player).score, 300 + 29 * DEFAULTCONFIG.timeBonus);
+    assert.equal(winner(s), 1);
+  });
+
+  it("costs a life to jump into a bay filled by either frog, whether racing or playing together", () => {
+    const claimed = (mode: Mode) => {
+      const s = createGame(1, {...DEFAULTCONFIG, mode: mode});
+      return play({...placeFrog(s, 110, 140), targets: s.targets.map((t, i) => i === 0 ? {...t, filled: true, filledBy: 1} : t)}, [new Move("w", -60), new Tick(0)]);
+    };
+    assert.equal(claimed("versus").dead, true);
+    assert.equal(claimed("coop").dead, true);
+    assert.equal(claimed("coop").reached, false);
+  });
+
+  it("only ends the game once both frogs have lost their last life", () => {
+    const s = {...versus, lives: 1, dead: true};
+    const one = play(s, [new Tick(0)]);
+    assert.equal(one.lives, 0);
+    assert.equal(one.gameOver, false);
+    assert.deepEqual(xy(play(one, [new Move("w", -60)]).frog.position), xy(one.frog.position));
+    const both = play({...one, second: {...(one.second as Player), lives: 1, dead: true}}, [new Tick(1)]);
+    assert.equal(both.gameOver, true);
+  });
+
+  it("keeps the scores and lives of both players on a level up", () => {
+    const beaten = {...fillBays(versus, 0, 1, 2),
+      score: 100,
+      second: {...(versus.second as Player), score: 200, lives: 1}
+    };
+    const next = step(beaten, new Tick(0));
+    assert.equal(next.level, 2);
+    assert.deepEqual(players(next).map(p => [p.score, p.lives]), [[600, DEFAULTCONFIG.lives], [700, 1]]);
+    assert.equal(next.highScore, 700);
+  });
+});
+
+describe("deathCause", () => {
+  /**
+   * A game that has just started
+   */
+  const s = createGame(1);
+
+  it("finds nothing while the frog is safe", () => {
+    assert.equal(deathCause(s), null);
+  });
+
+  it("finds what the frog collided with", () => {
+    const car = {...s.cars[0], position: new Vector(270, 485)};
+    assert.equal(deathCause({...s, frog: {...s.frog, position: new Vector(300, 500)}, cars: [car], dead: true}), "car");
+    assert.equal(deathCause({...s, frog: {...s.frog, position: new Vector(300, 200), inRiver: true}, planks: [], crocs: [], dead: true}), "river");
+  });
+
+  it("finds when the frog runs out of time or stays on a crocodile too long", () => {
+    assert.equal(deathCause({...s, timeLeft: 0}), "time");
+    assert.equal(deathCause({...s, frog: {...s.frog, timeOnCroc: s.config.crocTime + 1}}), "croc");
+  });
+});
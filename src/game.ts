@@ -0,0 +1,1278 @@
+/**
+ * The game module which contains the whole simulation of the game.
+ * Nothing in this module touches the DOM, so it can be imported and run in Node.
+ */
+import { Level, LaneKind, LEVELS, BAYWIDTH, BAYHEIGHT, BAYROW, inRiver } from "./level";
+import { Hitbox, rect, circle, overlaps, widthOf, heightOf } from "./hitbox";
+import { PowerUpKind, ActivePowerUp, POWERUPS, pickKind, collect, wearOff, combine, useShield } from "./powerup";
+import { DifficultyName, Adaptive, PRESETS, UNTUNED, recordAttempt, thin } from "./difficulty";
+
+/** The section below contains all the classes that will be used for the game*/
+
+/**
+ * The Vector class which is used to position objects and give movement capabilities to the objects in the game.
+ * 
+ * References:
+ * [1]: Stuff, T. C. (2022, September 2). FRP Asteroids. Tim’s Code Stuff. Retrieved September 6, 2022, from https://tgdwyer.github.io/asteroids/
+ */
+export class Vector{
+
+  /**
+   * Constructor for the Vector class
+   * @param x x-coordinate of the object
+   * @param y y-coordinate of the object
+   */
+  constructor(public readonly x: number = 0, public readonly y: number = 0) {}
+
+  /**
+   * Function that adds a given vector with another vector
+   * @param b The given vector
+   * @returns The sum of the given vector with the other vector
+   */
+  readonly add = (b:Vector) => new Vector(this.x + b.x, this.y + b.y)
+
+  /**
+   * Function that subtracts a vector from a given vector
+   * @param b The given vector
+   * @returns The result of subtracting the given vector with another vector
+   */
+  readonly subtract = (b:Vector) => this.add(b.scale(-1))
+
+  /**
+   * Function that calculates the length of a given vector
+   * @returns The length of the given vector
+   */
+  readonly length = ()=> Math.sqrt(this.x*this.x + this.y*this.y)
+
+  /**
+   * Function that scales a vector with a given number
+   * @param s The given number for scaling
+   * @returns The result of scaling a vector with the given number
+   */
+  readonly scale = (s:number) => new Vector(this.x*s,this.y*s)
+
+  /**
+   * Function that wraps an object that is not the frog(Player) around the canvas if it exceeds the boundaries/limits of the canvas
+   * @param param0 The current vector(position) of the object
+   * @returns The new vector(position) of the object after wrapping around the canvas
+   */
+  static readonly objectTorusWrap = ({ x, y }: Vector) => {
+    return new Vector(x < 0 ? x + 600: x > 600 ? x - 600 : x, y < 40 ? y + 80: y > 560 ? y - 80 : y);
+  }
+
+  /**
+   * Function that wraps the frog(Player) around the canvas if it exceeds the boundaries/limits of the canvas.
+   * The frog cannot jump past the row of the target bays, whether it lands in a bay or on the wall between them is up to the bays
+   * @param param0 The current vector(position) of the frog(Player)
+   * @returns The new vector(position) of the frog(Player) after wrapping around the canvas
+   */
+  static readonly frogTorusWrap = ({ x, y }: Vector) => {
+    return new Vector(x < 30 ? x + 585: x > 570 ? x - 585 : x, 
+                      y < BAYROW ? BAYROW : y > 570 ? y - 60 : y)
+  }
+
+  /**
+   * Function that wraps the frog(Player) with the double jump ability around the canvas if it exceeds the boundaries/limits of the canvas.
+   * The frog cannot jump past the row of the target bays, whether it lands in a bay or on the wall between them is up to the bays
+   * @param param0 The current vector(position) of the frog(Player)
+   * @returns The new vector(position) of the frog(Player) after wrapping around the canvas
+   */
+  static readonly doubleJumpTorusWrap = ({ x, y }: Vector) => {
+    return new Vector(x < 30 ? x + 585: x > 570 ? x - 585 : x,
+                      y < BAYROW ? BAYROW : y > 570 ? y - 120 : y)
+  }
+
+  /**
+   * Zero Vector
+   */
+  static Zero = new Vector();
+}
+
+/**
+ * The Tick class which tracks the amount of time passed in the game. One tick is a fixed step of 10 milliseconds,
+ * no matter how often the browser manages to run the simulation
+ */
+export class Tick { 
+
+  /**
+   * Constructor for the Tick class
+   * @param elapsed The amount of time passed in the game
+   */
+  constructor(public readonly elapsed: number) {} 
+};
+
+/**
+ * The Move class which tracks the movement of the frog(Player) in the game
+ */
+export class Move { 
+
+  /**
+   * Constructor for the Move class
+   * @param direction The direction in which the frog(Player) is moving
+   * @param steps The number of steps the frog(Player) should take when moving in the given direction
+   * @param player The player whose frog is moving, 0 for the first player and 1 for the second player
+   */
+  constructor(public readonly direction: string, public readonly steps: number, public readonly player: number = 0) {} 
+};
+
+/**
+ * The Restart class which tracks when the user wants to restart the game
+ */
+export class Restart { constructor() {} };
+
+/**
+ * The RNG class which creates a randomly generated number.
+ * 
+ * References:
+ * [1]: undefined [Tim Dwyer]. (2021, August 26). PiApproximationsFRPSolution [Video]. YouTube. Retrieved September 6, 2022, from https://www.youtube.com/watch?v=RD9v9XHA4x4
+ */
+export class RNG {
+
+  readonly m = 0x80000000
+  readonly a = 1103515245
+  readonly c = 12345
+
+  /**
+   * Constructor for the RNG class
+   * @param state The current state of the game
+   */
+  constructor(readonly state: number) {}
+
+  /**
+   * Function that returns a randomly generated integer
+   * @returns A randomly generated integer
+   */
+  int() {
+    return (this.a * this.state + this.c) % this.m;
+  }
+
+  /**
+   * Function that returns a randomly generated float
+   * @returns A randomly generated float
+   */
+  float() {
+    return this.int() / (this.m - 1);
+  }
+
+  /**
+   * Function that returns a new instance of the RNG class
+   * @returns A new instance of the RNG class
+   */
+  next() {
+    return new RNG(this.int())
+  }
+}
+
+
+/** The section above contains all the classes that will be used for the game*/
+
+/** The section below contains all the types that will be used in the game */
+
+/**
+ * The Body type which represents the attributes of an object in the game, its velocity is in pixels per second
+ */
+export type Body = Readonly<{
+  id: string,
+  position: Vector,
+  hitbox: Hitbox,
+  velocity: Vector,
+  filled?: boolean,
+  dive?: number,
+  phase?: TurtlePhase,
+  jaw?: number,
+  mouthOpen?: boolean,
+  filledBy?: number
+}>
+
+/**
+ * The Frog type which represents the frog(Player), which also knows whether it is in the river, what it is standing on
+ * and how many ticks it has been standing on a crocodile
+ */
+export type Frog = Body & Readonly<{
+  inRiver: boolean,
+  onLog: boolean,
+  onCroc: boolean,
+  onTurtle: boolean,
+  timeOnCroc: number
+}>
+
+/**
+ * The Snake type which represents a snake, which either swims along its lane or rides the plank of the given id
+ * at the given distance from its left edge
+ */
+export type Snake = Body & Readonly<{
+  riding: string | null,
+  offset: number
+}>
+
+/**
+ * The PowerUp type which represents a power up waiting on the canvas for a frog(Player) to pick it up
+ */
+export type PowerUp = Body & Readonly<{
+  kind: PowerUpKind
+}>
+
+/**
+ * The LadyFrog type which represents the lady frog, who rides a plank until a frog(Player) picks her up and carries her home.
+ * She is carried by the player of the given index, or rides the plank of the given id at the given distance from its left edge
+ */
+export type LadyFrog = Body & Readonly<{
+  plank: string,
+  offset: number,
+  carriedBy: number | null,
+  ticksLeft: number
+}>
+
+/**
+ * The BodyKind type which represents all the kinds of bodies the frog(Player) can collide with
+ */
+export type BodyKind = LaneKind | "powerUp" | "ladyFrog"
+
+/**
+ * The TurtlePhase type which represents how far a group of diving turtles has submerged
+ */
+export type TurtlePhase = "surfaced" | "sinking" | "submerged"
+
+/**
+ * The Mode type which represents how many frogs are played and whether the two frogs fill the target bays together or race each other
+ */
+export type Mode = "single" | "coop" | "versus"
+
+/**
+ * The DeathCause type which represents everything the frog(Player) can lose a life to
+ */
+export type DeathCause = "car" | "bus" | "river" | "eaten" | "croc" | "lurker" | "bay" | "wall" | "time"
+
+/**
+ * The Player type which represents everything that belongs to a single frog(Player), each player has their own score, lives and timer
+ */
+export type Player = Readonly<{
+  frog: Frog,
+  frogCount: number,
+  powerUps: ReadonlyArray<ActivePowerUp>,
+  poison: number,
+  reached: boolean,
+  score: number,
+  lives: number,
+  invulnerable: number,
+  dead: boolean,
+  timeLeft: number
+}>
+
+/**
+ * The State type which represents the current state of the game.
+ * The first player is kept in the state itself, in a two player game the second player is kept aside and swapped in whenever
+ * their frog is moved or simulated, so both frogs go through exactly the same rules
+ */
+export type State = Readonly<{
+  frog: Frog,
+  frogCount: number,
+  cars: ReadonlyArray<Body>,
+  buses: ReadonlyArray<Body>,
+  planks: ReadonlyArray<Body>,
+  crocs: ReadonlyArray<Body>,
+  snakes: ReadonlyArray<Snake>,
+  turtles: ReadonlyArray<Body>,
+  targets: ReadonlyArray<Body>,
+  pickup: PowerUp | null,
+  powerUps: ReadonlyArray<ActivePowerUp>,
+  poison: number,
+  time: number,
+  reached: boolean,
+  levelBeaten: boolean,
+  gameOver: boolean,
+  restart: boolean,
+  level: number,
+  score: number,
+  highScore: number,
+  lives: number,
+  invulnerable: number,
+  dead: boolean,
+  timeLeft: number,
+  timeLimit: number,
+  lurkingCroc: number,
+  fly: number,
+  ladyFrog: LadyFrog | null,
+  tuning: Adaptive,
+  second: Player | null,
+  rng: RNG,
+  seed: number,
+  config: Config
+}>
+
+/**
+ * The Config type which represents the settings of the game that do not change while playing
+ */
+export type Config = Readonly<{
+  difficulty: DifficultyName,
+  adaptive: boolean,
+  speedScale: number,
+  timerScale: number,
+  speedIncrease: number,
+  crocTime: number,
+  lives: number,
+  invulnerableTime: number,
+  extraLifeEvery: number,
+  timeBonus: number,
+  turtleCycle: Readonly<{
+    surfaced: number,
+    sinking: number,
+    submerged: number
+  }>,
+  crocJaws: Readonly<{
+    closed: number,
+    open: number
+  }>,
+  crocLurk: Readonly<{
+    away: number,
+    lurking: number
+  }>,
+  fly: Readonly<{
+    away: number,
+    visiting: number,
+    bonus: number
+  }>,
+  ladyFrog: Readonly<{
+    every: number,
+    stays: number,
+    bonus: number
+  }>,
+  margins: Readonly<Record<BodyKind, number>>,
+  powerUpEvery: number,
+  poison: number,
+  snakeSight: number,
+  mode: Mode,
+  levels: ReadonlyArray<Level>
+}>
+
+/**
+ * The GameEvent type which represents all the events that can change the state of the game
+ */
+export type GameEvent = Move | Tick | Restart
+
+/** The section above contains all the types that will be used in the game */
+
+/**
+ * Every way the game can be played
+ */
+export const MODES: ReadonlyArray<Mode> = ["single", "coop", "versus"];
+
+/**
+ * The default settings of the game
+ */
+export const DEFAULTCONFIG: Config = {
+  difficulty: "normal",
+  adaptive: false,
+  speedScale: 1,
+  timerScale: 1,
+  speedIncrease: 20,
+  crocTime: 250,
+  lives: 3,
+  invulnerableTime: 200,
+  extraLifeEvery: 5000,
+  timeBonus: 10,
+  turtleCycle: {
+    surfaced: 400,
+    sinking: 100,
+    submerged: 150
+  },
+  crocJaws: {
+    closed: 250,
+    open: 150
+  },
+  crocLurk: {
+    away: 700,
+    lurking: 500
+  },
+  fly: {
+    away: 800,
+    visiting: 500,
+    bonus: 200
+  },
+  ladyFrog: {
+    every: 1500,
+    stays: 1000,
+    bonus: 200
+  },
+  margins: {
+    car: -5,
+    bus: -5,
+    snake: -2,
+    plank: 5,
+    croc: 0,
+    turtle: 5,
+    powerUp: 5,
+    ladyFrog: 5
+  },
+  powerUpEvery: 1000,
+  poison: 500,
+  snakeSight: 150,
+  mode: "single",
+  levels: LEVELS
+};
+
+/**
+ * The part of a crocodile, from the front, that is its head
+ */
+export const CROCHEAD = 0.3;
+
+/**
+ * The hitbox of a target bay
+ */
+const BAY = rect(BAYWIDTH, BAYHEIGHT);
+
+/**
+ * The hitbox of a power up
+ */
+const POWERUP = rect(20, 20);
+
+/**
+ * The hitbox of the lady frog
+ */
+const LADYFROG = circle(12);
+
+/**
+ * The number of ticks in one second
+ */
+export const TICKSPERSECOND = 100;
+
+/**
+ * Function that returns how far an object moving at the given velocity moves in a single tick
+ * @param v The given velocity, in pixels per second
+ * @returns The distance moved in a single tick
+ */
+const perTick = (v: Vector): Vector => new Vector(v.x / TICKSPERSECOND, v.y / TICKSPERSECOND)
+
+/**
+ * The frog(Player) at its start position
+ */
+const FROG: Frog = {
+  id: "frog",
+  position: new Vector(300, 560),
+  hitbox: circle(25),
+  velocity: Vector.Zero,
+  inRiver: false,
+  onLog: false,
+  onCroc: false,
+  onTurtle: false,
+  timeOnCroc: 0
+};
+
+/**
+ * The id of the frog of the second player
+ */
+export const SECONDFROG = "frogtwo";
+
+/**
+ * Function that returns a frog at its start position, in a two player game the frogs start side by side, a few steps apart
+ * @param config The settings of the game
+ * @param id The id of the frog
+ * @returns The frog at its start position
+ */
+const startFrog = (config: Config, id: string): Frog =>
+  config.mode === "single" ? FROG : {...FROG, id: id, position: new Vector(id === SECONDFROG ? 345 : 255, 560)}
+
+/**
+ * Function that returns the player a frog belongs to
+ * @param frog The frog
+ * @returns 0 for the frog of the first player, 1 for the frog of the second player
+ */
+export const playerOf = (frog: Body): number => frog.id === SECONDFROG ? 1 : 0
+
+/**
+ * Function that takes the first player out of the state of the game
+ * @param s The current state of the game
+ * @returns The first player
+ */
+const firstPlayer = (s: State): Player => ({
+  frog: s.frog,
+  frogCount: s.frogCount,
+  powerUps: s.powerUps,
+  poison: s.poison,
+  reached: s.reached,
+  score: s.score,
+  lives: s.lives,
+  invulnerable: s.invulnerable,
+  dead: s.dead,
+  timeLeft: s.timeLeft
+})
+
+/**
+ * Function that swaps the two players of a two player game, so that the second player can be moved and simulated as if they were the first.
+ * Swapping twice gives back the same state, and a single player game is left as it is
+ * @param s The current state of the game
+ * @returns The state of the game with the players swapped
+ */
+export const swapPlayers = (s: State): State => s.second === null ? s : {...s, ...s.second, second: firstPlayer(s)}
+
+/**
+ * Function that lists the players of the game, in order
+ * @param s The current state of the game
+ * @returns The players
+ */
+export const players = (s: State): ReadonlyArray<Player> => s.second === null ? [firstPlayer(s)] : [firstPlayer(s), s.second]
+
+/**
+ * Function that picks the winner of a two player game, which is the player with the higher score
+ * @param s The current state of the game
+ * @returns The winning player, or null if the scores are tied or only one frog is played
+ */
+export const winner = (s: State): number | null =>
+  s.second === null || s.score === s.second.score ? null : s.score > s.second.score ? 0 : 1
+
+/**
+ * Function that returns the level that should be played, once every level has been beaten the last level is
+ * played again with every lane sped up
+ * @param config The settings of the game
+ * @param n The number of the level, starting from 1
+ * @returns The level and how much faster than in the level file its lanes should move
+ */
+const levelFor = (config: Config, n: number): [Level, number] =>
+  [config.levels[Math.min(n, config.levels.length) - 1], Math.max(0, n - config.levels.length) * config.speedIncrease]
+
+/**
+ * Function that sets up the game for the given difficulty preset
+ * @param config The settings of the game
+ * @param name The difficulty preset
+ * @returns The settings of the game on the difficulty preset
+ */
+export const withDifficulty = (config: Config, name: DifficultyName): Config => ({...config,
+  difficulty: name,
+  speedScale: PRESETS[name].speedScale,
+  speedIncrease: PRESETS[name].speedIncrease,
+  lives: PRESETS[name].lives,
+  timerScale: PRESETS[name].timerScale,
+  crocTime: PRESETS[name].crocTime
+})
+
+/**
+ * Function that tunes the lanes of a level to the difficulty, scaling how fast every lane starts and how many bodies it has
+ * @param level The level as the level file describes it
+ * @param config The settings of the game
+ * @param tuning How adaptive difficulty has tuned the game
+ * @returns The tuned level
+ */
+const tuneLevel = (level: Level, config: Config, tuning: Adaptive): Level => ({...level,
+  lanes: level.lanes.map(lane => {
+    const [count, spacing] = thin(lane.count, lane.spacing, tuning.density);
+    return {...lane, count: count, spacing: spacing, velocity: lane.velocity * config.speedScale}
+  })
+})
+
+/**
+ * Function that generates the given number of random floats
+ * @param rng The RNG used to generate the floats
+ * @param n The number of floats
+ * @returns The random floats
+ */
+const randomFloats = (rng: RNG, n: number): ReadonlyArray<number> =>
+  n <= 0 ? [] : [rng.float()].concat(randomFloats(rng.next(), n - 1))
+
+/**
+ * Function that creates all the bodies moving along the lanes of the given kind.
+ * Bodies on a diving lane start their dive cycle at a random point so that they do not all submerge together,
+ * and crocodiles open their jaws at random points for the same reason
+ * @param level The given level
+ * @param kind The given kind of lane
+ * @param speedUp How much faster than in the level file the bodies should move
+ * @param rng The RNG used to pick where the bodies start their dive or jaw cycle
+ * @returns The bodies moving along every lane of the given kind
+ */
+const createLanes = (level: Level, kind: LaneKind, speedUp: number, rng: RNG): ReadonlyArray<Body> => {
+  const lanes = level.lanes.filter(lane => lane.kind === kind);
+  const dives = randomFloats(rng, lanes.reduce((n, lane) => n + lane.count, 0));
+  return lanes
+    .flatMap(lane => Array(lane.count).fill(0).map((_, index) => ({
+      position: new Vector(lane.offset + index * lane.spacing, lane.row),
+      hitbox: rect(lane.width, lane.height),
+      velocity: new Vector((lane.velocity + speedUp) * (lane.direction === "left" ? -1 : 1), 0),
+      diving: lane.diving
+    })))
+    .map(({diving, ...b}, index) => diving
+      ? <Body>{...b, id: `${kind}${index}`, dive: dives[index], phase: "surfaced"}
+      : kind === "croc" ? <Body>{...b, id: `${kind}${index}`, jaw: dives[index], mouthOpen: false}
+      : <Body>{...b, id: `${kind}${index}`})
+}
+
+/**
+ * Function that puts every snake that starts on a plank onto that plank, so that it rides the plank instead of swimming
+ * @param snakes The snakes of the level
+ * @param planks The planks of the level
+ * @returns The snakes, riding the plank they start on
+ */
+const boardPlanks = (snakes: ReadonlyArray<Body>, planks: ReadonlyArray<Body>): ReadonlyArray<Snake> =>
+  snakes.map(b => {
+    const plank = planks.find(p => overlaps(b, p));
+    return plank ? {...b, riding: plank.id, offset: b.position.x - plank.position.x} : {...b, riding: null, offset: 0}
+  })
+
+/**
+ * Function that creates the target bays of a level, in the order the level lists them
+ * @param level The given level
+ * @returns The target bays
+ */
+const createTargets = (level: Level): ReadonlyArray<Body> => level.bays.map((bay, index) => ({
+  id: `target${index}`,
+  position: new Vector(bay.x, bay.y),
+  hitbox: BAY,
+  velocity: Vector.Zero
+}))
+
+/**
+ * Function that finds the target bay the frog(Player) is in, the frog is in a bay once it has reached the row of the bays
+ * with its middle between the walls of the bay
+ * @param frog The frog(Player)
+ * @param targets The target bays
+ * @returns The index of the target bay the frog is in, or -1 if it is not in any
+ */
+export const bayOf = (frog: Body, targets: ReadonlyArray<Body>): number =>
+  frog.position.y > BAYROW ? -1
+    : targets.findIndex(t => frog.position.x >= t.position.x && frog.position.x <= t.position.x + widthOf(t.hitbox))
+
+/**
+ * Function that checks if the frog(Player) is about to lose a life on the next tick, the same checks the game makes
+ * @param s The current state of the game
+ * @returns True if the frog loses a life on the next tick, false otherwise
+ */
+export const dying = (s: State): boolean =>
+  !s.gameOver && s.lives > 0 && !s.targets.every(t => t.filled)
+  && (s.dead || s.frog.timeOnCroc > s.config.crocTime || s.timeLeft <= 0)
+
+/**
+ * Function that finds what the frog(Player) is about to lose a life to on the next tick.
+ * The game takes a life on the tick after the frog has died, so the state still shows what the frog collided with
+ * @param s The current state of the game
+ * @returns What the frog loses a life to, or null if it does not lose a life on the next tick
+ */
+export const deathCause = (s: State): DeathCause | null => {
+  if(!dying(s)) {
+    return null
+  }
+
+  /**
+   * Function that checks if the frog(Player) collides with a body, allowing for the forgiveness margin of the kind of body
+   * @param kind The kind of the body
+   * @returns A function that returns true if the frog collides with the given body, false otherwise
+   */
+  const touches = (kind: BodyKind) => (b: Body) => overlaps(s.frog, b, s.config.margins[kind]);
+
+  const supported = s.planks.some(touches("plank")) || s.crocs.some(touches("croc"))
+    || s.turtles.some(t => t.phase !== "submerged" && touches("turtle")(t));
+  return !s.dead ? s.frog.timeOnCroc > s.config.crocTime ? "croc" : "time"
+    : s.cars.some(touches("car")) ? "car"
+    : s.buses.some(touches("bus")) ? "bus"
+    : s.frog.inRiver && !supported ? "river"
+    : s.frog.inRiver ? "eaten"
+    : bayOf(s.frog, s.targets) === -1 ? "wall"
+    : bayOf(s.frog, s.targets) === s.lurkingCroc ? "lurker"
+    : "bay"
+}
+
+/**
+ * Function that spawns a power up at a random position in one of the spawn areas of the level.
+ * Spawn areas that allow any power up pick its kind at random, following the weights of the power ups
+ * @param level The given level
+ * @param rng The RNG used to pick the spawn area, the position and the kind of the power up
+ * @returns The power up, or null if the level has no spawn areas
+ */
+const spawnPowerUp = (level: Level, rng: RNG): PowerUp | null => {
+  const spawns = level.powerUps;
+  const spawn = spawns[Math.floor(rng.next().next().float() * spawns.length) % Math.max(1, spawns.length)];
+  return spawn ? {
+    id: "powerUp",
+    kind: spawn.kind === "any" ? pickKind(rng.next().next().next().float()) : spawn.kind,
+    position: new Vector(Math.round(spawn.x[0] + rng.float() * (spawn.x[1] - spawn.x[0])), Math.round(spawn.y[0] + rng.next().float() * (spawn.y[1] - spawn.y[0]))),
+    hitbox: POWERUP,
+    velocity: Vector.Zero
+  } : null
+}
+
+/**
+ * Function that creates the initial state of the game
+ * @param seed The seed of the RNG used for everything random in the game
+ * @param config The settings of the game
+ * @param n The number of the level to start on
+ * @param tuning How adaptive difficulty has tuned the game so far
+ * @returns The initial state of the game
+ */
+export const createGame = (seed: number, config: Config = DEFAULTCONFIG, n: number = 1, tuning: Adaptive = UNTUNED): State => {
+  const [file, speedUp] = levelFor(config, n);
+  const level = tuneLevel(file, config, tuning);
+  const timer = Math.round(level.timer * config.timerScale) * TICKSPERSECOND;
+  const planks = createLanes(level, "plank", speedUp, new RNG(seed + n));
+  return {
+    frog: startFrog(config, FROG.id),
+    frogCount: 0,
+    cars: createLanes(level, "car", speedUp, new RNG(seed + n)),
+    buses: createLanes(level, "bus", speedUp, new RNG(seed + n)),
+    planks: planks,
+    crocs: createLanes(level, "croc", speedUp, new RNG(seed + n)),
+    snakes: boardPlanks(createLanes(level, "snake", speedUp, new RNG(seed + n)), planks),
+    turtles: createLanes(level, "turtle", speedUp, new RNG(seed + n)),
+    targets: createTargets(level),
+    pickup: spawnPowerUp(level, new RNG(seed)),
+    poison: 0,
+    powerUps: [],
+    time: 0,
+    reached: false,
+    levelBeaten: false,
+    gameOver: false,
+    restart: false,
+    level: n,
+    score: 0,
+    highScore: 0,
+    lives: config.lives,
+    invulnerable: 0,
+    dead: false,
+    timeLeft: timer,
+    timeLimit: timer,
+    lurkingCroc: -1,
+    fly: -1,
+    ladyFrog: null,
+    tuning: tuning,
+    second: config.mode === "single" ? null : {
+      frog: startFrog(config, SECONDFROG),
+      frogCount: 0,
+      powerUps: [],
+      poison: 0,
+      reached: false,
+      score: 0,
+      lives: config.lives,
+      invulnerable: 0,
+      dead: false,
+      timeLeft: timer
+    },
+    rng: new RNG(seed),
+    seed: seed,
+    config: config
+  }
+};
+
+/**
+ * Function that gives continuous movement to the given object
+ * @param speed How fast the object moves compared to its velocity, power ups can slow every lane down
+ * @returns A function that gives the given object continuous movement
+ */
+const moveObject = (speed: number) => <B extends Body>(b: B): B => ({
+  ...b,
+  position: Vector.objectTorusWrap(b.position.add(perTick(b.velocity.scale(speed))))
+})
+
+/**
+ * Function that finds how fast the lanes move compared to their velocity, which is slowed down by the active power ups of every frog
+ * and tuned by adaptive difficulty
+ * @param s The current state of the game
+ * @returns How fast the lanes move, 1 for their full speed
+ */
+const laneSpeed = (s: State): number => combine(players(s).flatMap(p => p.powerUps)).laneSpeed * s.tuning.speed
+
+/**
+ * Function that moves a snake. A snake turns toward a frog(Player) that comes within sight on its row,
+ * and a snake riding a plank slithers along the plank and turns around at its ends
+ * @param s The current state of the game
+ * @param speed How fast the snake moves compared to its velocity, power ups can slow every lane down
+ * @param planks The planks once they have moved
+ * @returns A function that moves the given snake
+ */
+const slither = (s: State, speed: number, planks: ReadonlyArray<Body>) => (b: Snake): Snake => {
+  const centre = b.position.y + heightOf(b.hitbox) / 2;
+  const prey = players(s).filter(p => p.lives > 0).map(p => p.frog).find(f =>
+    Math.abs(f.position.y - centre) < 30 && Math.abs(f.position.x - (b.position.x + widthOf(b.hitbox) / 2)) <= s.config.snakeSight);
+  const heading = prey === undefined ? b.velocity
+    : new Vector(Math.abs(b.velocity.x) * (prey.position.x < b.position.x + widthOf(b.hitbox) / 2 ? -1 : 1), 0);
+  const plank = planks.find(p => p.id === b.riding);
+  if(plank === undefined) {
+    return moveObject(speed)({...b, velocity: heading});
+  }
+  const end = widthOf(plank.hitbox) - widthOf(b.hitbox);
+  const offset = b.offset + perTick(heading.scale(speed)).x;
+  const velocity = offset < 0 || offset > end ? heading.scale(-1) : heading;
+  const along = Math.min(end, Math.max(0, offset));
+  return {...b,
+    velocity: velocity,
+    offset: along,
+    position: new Vector(plank.position.x + along, plank.position.y + (heightOf(plank.hitbox) - heightOf(b.hitbox)) / 2)
+  }
+}
+
+/**
+ * Function that moves a diving body through its dive cycle, based on the time elapsed in the game
+ * @param cycle The number of ticks spent in each phase of the dive cycle
+ * @param elapsed The time elapsed in the game
+ * @returns A function that gives the given body the phase of the dive cycle it should be in
+ */
+const diveObject = (cycle: Config["turtleCycle"], elapsed: number) => (b: Body): Body => {
+  if(b.dive === undefined) {
+    return b
+  }
+  const total = cycle.surfaced + cycle.sinking + cycle.submerged;
+  const t = (elapsed + Math.floor(b.dive * total)) % total;
+  return {...b, phase: t < cycle.surfaced ? "surfaced" : t < cycle.surfaced + cycle.sinking ? "sinking" : "submerged"}
+}
+
+/**
+ * Function that opens and closes the jaws of a crocodile, based on the time elapsed in the game
+ * @param jaws The number of ticks the jaws of a crocodile stay closed and open
+ * @param elapsed The time elapsed in the game
+ * @returns A function that opens or closes the jaws of the given crocodile
+ */
+const chompObject = (jaws: Config["crocJaws"], elapsed: number) => (b: Body): Body => {
+  if(b.jaw === undefined) {
+    return b
+  }
+  const total = jaws.closed + jaws.open;
+  return {...b, mouthOpen: (elapsed + Math.floor(b.jaw * total)) % total >= jaws.closed}
+}
+
+/**
+ * Function that picks the target bay a crocodile lurks in, based on the time elapsed in the game.
+ * Crocodiles only lurk in empty target bays on levels that allow it
+ * @param s The current state of the game
+ * @param elapsed The time elapsed in the game
+ * @returns The index of the target bay the crocodile lurks in, or -1 if no crocodile is lurking
+ */
+const lurkingBay = (s: State, elapsed: number): number => {
+  const total = s.config.crocLurk.away + s.config.crocLurk.lurking;
+  const bay = Math.floor(new RNG(s.seed + Math.floor(elapsed / total)).next().float() * s.targets.length) % s.targets.length;
+  return levelFor(s.config, s.level)[0].lurkingCrocs
+    && elapsed % total >= s.config.crocLurk.away
+    && !s.targets[bay].filled ? bay : -1
+}
+
+/**
+ * Function that picks the target bay a fly visits, based on the time elapsed in the game.
+ * Flies only visit empty target bays that no crocodile is lurking in
+ * @param s The current state of the game
+ * @param elapsed The time elapsed in the game
+ * @param lurking The index of the target bay a crocodile lurks in, or -1 if no crocodile is lurking
+ * @returns The index of the target bay the fly visits, or -1 if no fly is visiting
+ */
+const flyBay = (s: State, elapsed: number, lurking: number): number => {
+  const total = s.config.fly.away + s.config.fly.visiting;
+  const bay = Math.floor(new RNG(s.seed + Math.floor(elapsed / total)).next().next().next().float() * s.targets.length) % s.targets.length;
+  return elapsed % total >= s.config.fly.away
+    && bay !== lurking
+    && !s.targets[bay].filled ? bay : -1
+}
+
+/**
+ * Function that puts the lady frog on a random plank, somewhere along it
+ * @param planks The planks of the level
+ * @param stays How many ticks she rides the plank before leaving
+ * @param rng The RNG used to pick the plank and where on it she sits
+ * @returns The lady frog, or null if the level has no planks
+ */
+const spawnLadyFrog = (planks: ReadonlyArray<Body>, stays: number, rng: RNG): LadyFrog | null => {
+  const plank = planks[Math.floor(rng.float() * planks.length) % Math.max(1, planks.length)];
+  const offset = plank ? Math.round(rng.next().float() * widthOf(plank.hitbox)) : 0;
+  return plank ? {
+    id: "ladyFrog",
+    position: new Vector(plank.position.x + offset, plank.position.y + heightOf(plank.hitbox) / 2),
+    hitbox: LADYFROG,
+    velocity: Vector.Zero,
+    plank: plank.id,
+    offset: offset,
+    carriedBy: null,
+    ticksLeft: stays
+  } : null
+}
+
+/**
+ * Function that moves the lady frog along with the plank she rides.
+ * She leaves once she has ridden her plank for as long as she stays, unless a frog(Player) has picked her up
+ * @param lady The lady frog
+ * @param planks The planks once they have moved
+ * @returns The lady frog after the tick, or null if she has left
+ */
+const rideLadyFrog = (lady: LadyFrog, planks: ReadonlyArray<Body>): LadyFrog | null => {
+  const plank = planks.find(p => p.id === lady.plank);
+  return lady.carriedBy !== null ? lady
+    : plank === undefined || lady.ticksLeft <= 1 ? null
+    : {...lady,
+      position: new Vector(plank.position.x + lady.offset, plank.position.y + heightOf(plank.hitbox) / 2),
+      ticksLeft: lady.ticksLeft - 1
+    }
+}
+
+/**
+ * Function that puts the lady frog on the back of the frog(Player) carrying her, once every frog has moved
+ * @param s The current state of the game
+ * @returns The lady frog, on the back of the frog carrying her
+ */
+const carryLadyFrog = (s: State): LadyFrog | null =>
+  s.ladyFrog === null || s.ladyFrog.carriedBy === null ? s.ladyFrog
+    : {...s.ladyFrog, position: players(s)[s.ladyFrog.carriedBy].frog.position}
+
+/**
+ * Function that checks if the centre of the frog(Player) is over the head of a crocodile, the head is at the front of the crocodile
+ * @param frog The frog(Player)
+ * @param croc The crocodile
+ * @returns True if the frog is over the head of the crocodile, false otherwise
+ */
+const overHead = (frog: Body, croc: Body): boolean => {
+  const dx = frog.position.x - croc.position.x;
+  return croc.velocity.x < 0 ? dx < widthOf(croc.hitbox) * CROCHEAD : dx > widthOf(croc.hitbox) * (1 - CROCHEAD)
+}
+
+/**
+ * Function that gives continuous movement to the frog(Player) matching the velocity of the object it is standing on
+ * This only occurs if the frog is standing on an object in the River section
+ * @param b The frog(Player)
+ * @returns The frog(Player) but with continuous movement matching the velocity of the object it is standing on
+ */
+const moveFrog = (b: Frog): Frog => ({
+  ...b,
+  position: Vector.frogTorusWrap((b.position).add(perTick(b.velocity)))
+})
+
+/**
+ * Function that contains all the necessary code for creating collisions in the game
+ * @param s The current state of the game
+ * @returns The state of the game after handling all possible collisions
+ */
+export const collisionHandler = (s: State) => {
+
+  /**
+   * Function that checks if the frog(Player) collides with a body, allowing for the forgiveness margin of the kind of body
+   * @param kind The kind of the body
+   * @returns A function that returns true if the frog collides with the given body, false otherwise
+   */
+  const touches = (kind: BodyKind) => (b: Body) => overlaps(s.frog, b, s.config.margins[kind])
+
+  /**
+   * Checks if the frog(Player) collides with any objects in the game
+   * The frog dies when colliding with a car or a bus
+   * The frog is able to stand on a plank, crocodile or turtle while in the River section, unless the turtle has submerged
+   */
+  const frogCollided = s.cars.filter(touches("car")).length > 0 
+                        || s.buses.filter(touches("bus")).length > 0
+                        ||(
+                          !(s.planks.filter(touches("plank")).length > 0 
+                            || s.crocs.filter(touches("croc")).length > 0
+                            || s.turtles.filter(t => t.phase !== "submerged" && touches("turtle")(t)).length > 0) && s.frog.inRiver
+                          ) 
+
+  /**
+   * Checks if the frog(Player) has landed on or ridden into the open mouth of a crocodile
+   */
+  const frogEaten = s.frog.inRiver && s.crocs.filter(c => c.mouthOpen && touches("croc")(c) && overHead(s.frog, c)).length > 0
+
+  /**
+   * The index of the target bay the frog(Player) has jumped into, or -1 if it is not in any
+   */
+  const bay = bayOf(s.frog, s.targets)
+
+  /**
+   * Checks if the frog(Player) has jumped onto the wall between the target bays
+   */
+  const frogWalled = s.frog.position.y <= BAYROW && bay === -1
+
+  /**
+   * Checks if the frog(Player) has jumped into the target bay a crocodile is lurking in
+   */
+  const frogLurked = bay !== -1 && bay === s.lurkingCroc
+
+  /**
+   * Checks if the frog(Player) has jumped into a target bay that is already filled, by either frog
+   */
+  const frogBlocked = bay !== -1 && s.targets[bay].filled === true
+
+  /**
+   * The index of the empty target the frog(Player) fills, or -1 if it fills none
+   */
+  const filling = bay === -1 || frogLurked || frogBlocked ? -1 : bay
+
+  /**
+   * Checks if the frog(Player) has filled a target
+   */
+  const frogReached = filling !== -1
+
+  /**
+   * The power up picked up by the frog(Player) (collided with the power up)
+   */
+  const pickedUp = s.pickup !== null && touches("powerUp")(s.pickup) ? s.pickup.kind : null
+
+  /**
+   * The active power ups of the frog(Player), with the power up it picked up
+   */
+  const collected = pickedUp === null ? s.powerUps : collect(s.powerUps, pickedUp)
+
+  /**
+   * Checks if the frog(Player) has been hit by something that costs it a life
+   */
+  const frogHit = (frogCollided || frogEaten || frogWalled || frogLurked || frogBlocked) && s.invulnerable === 0
+
+  /**
+   * Checks if the hit has been absorbed by a shield, the frog is then invulnerable for a while so it can get out of harm's way
+   */
+  const shielded = frogHit && combine(collected).shield
+
+  /**
+   * Checks if the frog(Player) picks up the lady frog, who has to be riding her plank
+   */
+  const ladyPickedUp = s.ladyFrog !== null && s.ladyFrog.carriedBy === null && touches("ladyFrog")(s.ladyFrog)
+
+  /**
+   * Checks if the frog(Player) is carrying the lady frog, she is brought home once the frog fills an empty target
+   */
+  const carrying = s.ladyFrog !== null && s.ladyFrog.carriedBy === playerOf(s.frog)
+
+  /**
+   * The points scored for filling an empty target, with a bonus for every second left on the timer,
+   * a bonus for catching the fly visiting the target and a bonus for bringing the lady frog home
+   */
+  const points = filling === -1 ? 0
+                  : 300 + Math.floor(s.timeLeft / TICKSPERSECOND) * s.config.timeBonus
+                    + (filling === s.fly ? s.config.fly.bonus : 0)
+                    + (carrying ? s.config.ladyFrog.bonus : 0)
+
+  /**
+   * The object the frog(Player) is standing on, each lane of the River section can move at its own speed
+   */
+  const ridden = s.frog.onLog ? s.planks.find(touches("plank"))
+                  : s.frog.onCroc ? s.crocs.find(touches("croc"))
+                  : s.frog.onTurtle ? s.turtles.find(t => t.phase !== "submerged" && touches("turtle")(t))
+                  : undefined
+
+  return <State>{
+    ...s,
+    frog: moveFrog({
+      ...s.frog,
+      onLog: (s.planks.filter(touches("plank")).length > 0) && s.frog.inRiver,
+      onCroc: (s.crocs.filter(touches("croc")).length > 0) && s.frog.inRiver,
+      onTurtle: (s.turtles.filter(t => t.phase !== "submerged" && touches("turtle")(t)).length > 0) && s.frog.inRiver,
+      velocity: (ridden ? ridden.velocity : Vector.Zero).scale(laneSpeed(s)),
+    }),
+    pickup: pickedUp === null ? s.pickup : null,
+    ladyFrog: s.ladyFrog === null || (carrying && filling !== -1) ? null
+      : ladyPickedUp ? {...s.ladyFrog, carriedBy: playerOf(s.frog)} : s.ladyFrog,
+    powerUps: shielded ? useShield(collected) : collected,
+    lives: s.lives + (pickedUp === null ? 0 : POWERUPS[pickedUp].effect.lives),
+    poison: s.snakes.filter(touches("snake")).length > 0 && s.invulnerable === 0 ? s.config.poison
+      : pickedUp !== null && POWERUPS[pickedUp].effect.cure ? 0 : s.poison,
+    targets: s.targets.map((t, i) => i === filling ? {...t, filled: true, filledBy: playerOf(s.frog)} : t),
+    score: s.score + points,
+    highScore: s.score + points > s.highScore ? s.score + points : s.highScore,
+    reached: frogReached,
+    invulnerable: shielded ? s.config.invulnerableTime : s.invulnerable,
+    dead: frogHit && !shielded
+  }
+}
+
+/**
+ * Function that takes the lady frog away from the frog(Player) once it has died, if it was carrying her
+ * @param s The current state of the game
+ * @returns The state of the game without the lady frog if the frog was carrying her
+ */
+const dropLadyFrog = (s: State): State =>
+  s.ladyFrog !== null && s.ladyFrog.carriedBy === playerOf(s.frog) ? {...s, ladyFrog: null} : s
+
+/**
+ * Function that respawns the frog(Player) at the start position after it has died, keeping the filled targets, level and score.
+ * The frog cannot die again until its invulnerability has worn off
+ * @param s The current state of the game
+ * @returns The state of the game with the frog respawned and one less life
+ */
+const respawn = (s: State): State => ({...dropLadyFrog(s),
+  frog: startFrog(s.config, s.frog.id),
+  lives: s.lives - 1,
+  invulnerable: s.config.invulnerableTime,
+  dead: false,
+  poison: 0,
+  timeLeft: s.timeLimit
+})
+
+/**
+ * Function that tells adaptive difficulty how the latest attempt of the frog(Player) to fill a bay has ended, while it is on
+ * @param s The current state of the game
+ * @param died Whether the frog died, or filled a bay
+ * @returns How adaptive difficulty has tuned the game after the attempt
+ */
+const attempted = (s: State, died: boolean): Adaptive =>
+  s.config.adaptive ? recordAttempt(s.tuning, {died: died, ticks: s.timeLimit - s.timeLeft, limit: s.timeLimit}) : s.tuning
+
+/**
+ * Function that awards an extra life every time the score passes a multiple of the extra life threshold.
+ * A frog that has lost its last life is out of the game, so bonus points do not bring it back
+ * @param prev The state of the game before the score changed
+ * @param s The state of the game after the score changed
+ * @returns The state of the game with the extra lives awarded
+ */
+const awardLives = (prev: State, s: State): State =>
+  s.config.extraLifeEvery > 0 && s.score > prev.score && s.lives > 0
+    ? {...s, lives: s.lives + Math.floor(s.score / s.config.extraLifeEvery) - Math.floor(prev.score / s.config.extraLifeEvery)}
+    : s
+
+/**
+ * Function that awards the extra lives of every player
+ * @param prev The state of the game before the scores changed
+ * @param s The state of the game after the scores changed
+ * @returns The state of the game with the extra lives of every player awarded
+ */
+const awardAllLives = (prev: State, s: State): State =>
+  prev.second === null || s.second === null ? awardLives(prev, s)
+    : swapPlayers(awardLives(swapPlayers(prev), swapPlayers(awardLives(prev, s))))
+
+/**
+ * Function that checks what happens to the frog(Player) on a tick, once everything else has moved.
+ * A frog without lives left sits out the rest of the game while the other frog carries on
+ * @param s The current state of the game
+ * @returns The state of the game after the frog has been simulated
+ */
+const frogTick = (s: State): State => {
+
+  if(s.lives === 0) {
+    return s
+  }
+
+  /**
+   * Check if the frog(Player) has died, has been on any crocodile for more than 2.5 seconds or has run out of time
+   * If so, respawn the frog or take its last life
+   */
+  if(s.dead || s.frog.timeOnCroc > s.config.crocTime || s.timeLeft <= 0) {
+    return s.lives > 1 ? respawn({...s, tuning: attempted(s, true)}) : {...dropLadyFrog(s), lives: 0, tuning: attempted(s, true)}
+  }
+
+  /**
+   * Check if the frog(Player) has filled a target
+   * If so, send the frog back to the start while keeping the score and the view of the filled target
+   */
+  if(s.reached) {
+    return {...s,
+      frog: startFrog(s.config, s.frog.id),
+      frogCount: s.frogCount + 1,
+      reached: false,
+      tuning: attempted(s, false),
+      invulnerable: 0,
+      timeLeft: s.timeLimit,
+      levelBeaten: false,
+      rng: s.rng.next(),
+      pickup: spawnPowerUp(levelFor(s.config, s.level)[0], s.rng)
+    }
+  }
+  return collisionHandler({...s,
+    frog: {...s.frog,
+      inRiver: inRiver(levelFor(s.config, s.level)[0], s.frog.position.y),
+      timeOnCroc: s.frog.onCroc ? s.frog.timeOnCroc + 1 : 0
+    },
+    invulnerable: Math.max(0, s.invulnerable - 1),
+    poison: Math.max(0, s.poison - 1),
+    powerUps: wearOff(s.powerUps),
+    timeLeft: s.timeLeft - 1
+  })
+}
+
+/**
+ * The most important function in the game, it checks every tick for changes to the state of the game
+ * @param s The current state of the game
+ * @param elapsed The time elapsed in the game
+ * @returns New state of the game
+ */
+export const tick = (s: State, elapsed: number): State => {
+
+  /**
+   * Check if every target of the level has been filled
+   * If so, reset the game to initial state while keeping the current scores and lives and move on to the next level
+   */
+  if(s.targets.every(t => t.filled)) {
+    const next = createGame(s.seed, s.config, s.level + 1, s.tuning);
+    return {...next,
+      lives: s.lives,
+      levelBeaten: true,
+      level: s.level + 1,
+      score: s.score + 500,
+      highScore: Math.max(s.highScore, ...players(s).map(p => p.score + 500)),
+      second: s.second === null || next.second === null ? null : {...next.second, lives: s.second.lives, score: s.second.score + 500},
+      rng: s.rng.next(),
+      pickup: spawnPowerUp(levelFor(s.config, s.level + 1)[0], s.rng)
+    }
+  }
+
+  /**
+   * Check if game over
+   */
+  if(s.gameOver) {
+    return s
+  }
+
+  /**
+   * Everything but the frogs moves once per tick, then every frog is simulated in turn.
+   * Once a power up has been picked up, another one spawns the next time the clock passes a multiple of the power up interval,
+   * and the lady frog comes back the same way once she has left or been brought home
+   */
+  const speed = laneSpeed(s);
+  const lurking = lurkingBay(s, elapsed);
+  const planks = s.planks.map(moveObject(speed));
+  const lanes: State = {...s,
+    time: elapsed,
+    cars: s.cars.map(moveObject(speed)),
+    buses: s.buses.map(moveObject(speed)),
+    planks: planks,
+    crocs: s.crocs.map(moveObject(speed)).map(chompObject(s.config.crocJaws, elapsed)),
+    lurkingCroc: lurking,
+    fly: flyBay(s, elapsed, lurking),
+    snakes: s.snakes.map(slither(s, speed, planks)),
+    turtles: s.turtles.map(moveObject(speed)).map(diveObject(s.config.turtleCycle, elapsed)),
+    pickup: s.pickup === null && elapsed > 0 && elapsed % s.config.powerUpEvery === 0
+      ? spawnPowerUp(levelFor(s.config, s.level)[0], new RNG(s.seed + elapsed)) : s.pickup
+  };
+  const moved: State = {...lanes,
+    ladyFrog: s.ladyFrog !== null ? rideLadyFrog(s.ladyFrog, lanes.planks)
+      : elapsed > 0 && elapsed % s.config.ladyFrog.every === 0 ? spawnLadyFrog(lanes.planks, s.config.ladyFrog.stays, new RNG(s.seed + elapsed))
+      : null
+  };
+  const played = s.second === null ? frogTick(moved) : swapPlayers(frogTick(swapPlayers(frogTick(moved))));
+
+  /**
+   * The lady frog sits on the back of the frog carrying her, and the game is over once every frog has lost its last life
+   */
+  return {...played, ladyFrog: carryLadyFrog(played), gameOver: players(played).every(p => p.lives === 0)}
+}
+
+/**
+ * Function that moves the frog(Player) by the steps of a Move, the frog jumps further up and down with a power up that scales its jump
+ * and hops the opposite way while it is poisoned by a snake bite
+ * @param s The current state of the game
+ * @param e The Move
+ * @returns The state of the game with the frog moved
+ */
+const jump = (s: State, e: Move): State => {
+  //Check if the frog(Player) has been poisoned by a snake, which turns its controls around
+  const steps = s.poison > 0 ? -e.steps : e.steps;
+  return s.lives === 0 ? s : {...s,
+    frog: {
+      ...s.frog,
+      //Check if the frog(Player) has a power up that scales its jump
+      position: combine(s.powerUps).jump > 1 ? Vector.doubleJumpTorusWrap(new Vector(
+        e.direction === "a" || e.direction === "d" ? s.frog.position.x + steps : s.frog.position.x,
+          e.direction === "w" || e.direction === "s" ? s.frog.position.y + steps * combine(s.powerUps).jump : s.frog.position.y
+          )) : Vector.frogTorusWrap(new Vector(
+        e.direction === "a" || e.direction === "d" ? s.frog.position.x + steps : s.frog.position.x,
+          e.direction === "w" || e.direction === "s" ? s.frog.position.y + steps : s.frog.position.y
+          )),
+      velocity: Vector.Zero
+    }
+  }
+}
+
+/**
+ * Function that returns a new state of the game based on the user input or tick.
+ * A Move of the second player moves the only frog of a single player game, so both players' controls work when playing alone
+ * @param s The current state of the game
+ * @param e The event that has occured based on the user input or tick
+ * @returns A new state of the game based on the user input or tick
+ */
+export const reduceState = (s: State, e: GameEvent): State =>
+  e instanceof Move ? s.gameOver ? s
+    : e.player === 1 && s.second !== null ? swapPlayers(jump(swapPlayers(s), e))
+    : jump(s, e)
+  : e instanceof Restart ? {...createGame(s.seed, s.config),frogCount: s.frogCount, restart: true, highScore: s.highScore}
+  : awardAllLives(s, tick(s, e.elapsed));
+
+/**
+ * Function that advances the game by a single event, this is the same reducer that drives the game in the browser
+ * @param s The current state of the game
+ * @param e The event that has occured
+ * @returns The new state of the game
+ */
+export const step = (s: State, e: GameEvent): State => reduceState(s, e);
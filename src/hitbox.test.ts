@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Hitbox, Placed, CANVASWIDTH, rect, circle, overlaps, widthOf, heightOf } from "./hitbox";
+
+/**
+ * Function that places a hitbox at the given position
+ * @param x x-coordinate of the hitbox
+ * @param y y-coordinate of the hitbox
+ * @param hitbox The hitbox
+ * @returns The hitbox at the given position
+ */
+const at = (x: number, y: number, hitbox: Hitbox): Placed => ({position: {x: x, y: y}, hitbox: hitbox});
+
+describe("overlaps", () => {
+  it("checks rectangles against each other by their edges", () => {
+    assert.equal(overlaps(at(0, 0, rect(60, 30)), at(59, 29, rect(10, 10))), true);
+    assert.equal(overlaps(at(0, 0, rect(60, 30)), at(60, 0, rect(10, 10))), false);
+    assert.equal(overlaps(at(0, 0, rect(60, 30)), at(0, 30, rect(10, 10))), false);
+  });
+
+  it("checks circles against the closest point of a rectangle", () => {
+    assert.equal(overlaps(at(100, 100, circle(25)), at(110, 110, rect(60, 30))), true);
+    assert.equal(overlaps(at(100, 100, circle(25)), at(124, 80, rect(60, 30))), true);
+    assert.equal(overlaps(at(124, 80, rect(60, 30)), at(100, 100, circle(25))), true);
+  });
+
+  it("lets a circle miss the corner of a rectangle that its bounding box would hit", () => {
+    assert.equal(overlaps(at(100, 100, circle(25)), at(120, 120, rect(60, 30))), false);
+  });
+
+  it("checks circles against each other by the distance between their centres", () => {
+    assert.equal(overlaps(at(0, 100, circle(25)), at(49, 100, circle(25))), true);
+    assert.equal(overlaps(at(0, 100, circle(25)), at(50, 100, circle(25))), false);
+  });
+
+  it("grows or shrinks the second hitbox by the margin", () => {
+    assert.equal(overlaps(at(0, 0, rect(10, 10)), at(12, 0, rect(10, 10)), 3), true);
+    assert.equal(overlaps(at(0, 0, rect(10, 10)), at(8, 0, rect(10, 10)), -3), false);
+    assert.equal(overlaps(at(0, 0, circle(10)), at(25, 0, circle(10)), 6), true);
+  });
+
+  it("wraps bodies hanging off one side of the canvas around to the other", () => {
+    assert.equal(overlaps(at(20, 100, circle(25)), at(CANVASWIDTH - 20, 90, rect(60, 30))), true);
+    assert.equal(overlaps(at(CANVASWIDTH - 10, 100, circle(25)), at(-40, 90, rect(60, 30))), true);
+    assert.equal(overlaps(at(300, 100, circle(25)), at(CANVASWIDTH - 20, 90, rect(60, 30))), false);
+  });
+});
+
+describe("widthOf", () => {
+  it("returns the width of rectangles and the diameter of circles", () => {
+    assert.equal(widthOf(rect(60, 30)), 60);
+    assert.equal(widthOf(circle(25)), 50);
+  });
+});
+
+describe("heightOf", () => {
+  it("returns the height of rectangles and the diameter of circles", () => {
+    assert.equal(heightOf(rect(60, 30)), 30);
+    assert.equal(heightOf(circle(25)), 50);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * The hitbox module which describes the shapes of the bodies of the game.
+ * The same shapes are used to draw the bodies and to check whether they collide, so what the user sees is what gets hit.
+ * Like the game module, nothing in this module touches the DOM.
+ */
+
+/** The section below contains all the types that will be used for hitboxes */
+
+/**
+ * The Point type which represents a position on the canvas
+ */
+export type Point = Readonly<{
+  x: number,
+  y: number
+}>
+
+/**
+ * The Rect type which represents a rectangular hitbox, its position is its top left corner
+ */
+export type Rect = Readonly<{
+  kind: "rect",
+  width: number,
+  height: number
+}>
+
+/**
+ * The Circle type which represents a circular hitbox, its position is its centre
+ */
+export type Circle = Readonly<{
+  kind: "circle",
+  radius: number
+}>
+
+/**
+ * The Hitbox type which represents all the shapes a body can have
+ */
+export type Hitbox = Rect | Circle
+
+/**
+ * The Placed type which represents anything with a hitbox at a position on the canvas, every body of the game is one
+ */
+export type Placed = Readonly<{
+  position: Point,
+  hitbox: Hitbox
+}>
+
+/** The section above contains all the types that will be used for hitboxes */
+
+/**
+ * The width of the canvas, bodies that leave one side of the canvas come back on the other
+ */
+export const CANVASWIDTH = 600;
+
+/**
+ * Function that creates a rectangular hitbox
+ * @param width The width of the hitbox
+ * @param height The height of the hitbox
+ * @returns The hitbox
+ */
+export const rect = (width: number, height: number): Rect => ({kind: "rect", width: width, height: height})
+
+/**
+ * Function that creates a circular hitbox
+ * @param radius The radius of the hitbox
+ * @returns The hitbox
+ */
+export const circle = (radius: number): Circle => ({kind: "circle", radius: radius})
+
+/**
+ * Function that grows a hitbox by the given margin on every side, keeping it centred where it was
+ * @param p The hitbox at its position
+ * @param margin The number of pixels to grow the hitbox by, a negative margin shrinks it
+ * @returns The grown hitbox at its new position
+ */
+const grow = (p: Placed, margin: number): Placed =>
+  p.hitbox.kind === "circle"
+    ? {position: p.position, hitbox: circle(Math.max(0, p.hitbox.radius + margin))}
+    : {
+      position: {x: p.position.x - margin, y: p.position.y - margin},
+      hitbox: rect(Math.max(0, p.hitbox.width + margin * 2), Math.max(0, p.hitbox.height + margin * 2))
+    }
+
+/**
+ * Function that moves a hitbox sideways
+ * @param p The hitbox at its position
+ * @param dx The number of pixels to move the hitbox by
+ * @returns The hitbox at its new position
+ */
+const shift = (p: Placed, dx: number): Placed => ({position: {x: p.position.x + dx, y: p.position.y}, hitbox: p.hitbox})
+
+/**
+ * Function that checks if two rectangles overlap
+ * @param a The first rectangle
+ * @param ar The hitbox of the first rectangle
+ * @param b The second rectangle
+ * @param br The hitbox of the second rectangle
+ * @returns True if the rectangles overlap, false otherwise
+ */
+const rectsOverlap = (a: Point, ar: Rect, b: Point, br: Rect): boolean =>
+  a.x < b.x + br.width && b.x < a.x + ar.width && a.y < b.y + br.height && b.y < a.y + ar.height
+
+/**
+ * Function that checks if a circle overlaps a rectangle, by finding the point of the rectangle closest to the centre of the circle
+ * @param c The centre of the circle
+ * @param cr The hitbox of the circle
+ * @param r The rectangle
+ * @param rr The hitbox of the rectangle
+ * @returns True if the circle overlaps the rectangle, false otherwise
+ */
+const circleOverlapsRect = (c: Point, cr: Circle, r: Point, rr: Rect): boolean => {
+  const dx = c.x - Math.max(r.x, Math.min(c.x, r.x + rr.width));
+  const dy = c.y - Math.max(r.y, Math.min(c.y, r.y + rr.height));
+  return dx * dx + dy * dy < cr.radius * cr.radius
+}
+
+/**
+ * Function that checks if two circles overlap
+ * @param a The centre of the first circle
+ * @param ac The hitbox of the first circle
+ * @param b The centre of the second circle
+ * @param bc The hitbox of the second circle
+ * @returns True if the circles overlap, false otherwise
+ */
+const circlesOverlap = (a: Point, ac: Circle, b: Point, bc: Circle): boolean =>
+  (a.x - b.x) * (a.x - b.x) + (a.y - b.y) * (a.y - b.y) < (ac.radius + bc.radius) * (ac.radius + bc.radius)
+
+/**
+ * Function that checks if two hitboxes overlap, without wrapping around the canvas
+ * @param a The first hitbox at its position
+ * @param b The second hitbox at its position
+ * @returns True if the hitboxes overlap, false otherwise
+ */
+const shapesOverlap = (a: Placed, b: Placed): boolean =>
+  a.hitbox.kind === "rect"
+    ? b.hitbox.kind === "rect" ? rectsOverlap(a.position, a.hitbox, b.position, b.hitbox) : circleOverlapsRect(b.position, b.hitbox, a.position, a.hitbox)
+    : b.hitbox.kind === "rect" ? circleOverlapsRect(a.position, a.hitbox, b.position, b.hitbox) : circlesOverlap(a.position, a.hitbox, b.position, b.hitbox)
+
+/**
+ * Function that checks if two hitboxes overlap.
+ * A body hanging off one side of the canvas is also checked on the other side, where it wraps around to
+ * @param a The first hitbox at its position
+ * @param b The second hitbox at its position
+ * @param margin The number of pixels the second hitbox is grown by, a negative margin shrinks it so that near misses are forgiven
+ * @returns True if the hitboxes overlap, false otherwise
+ */
+export const overlaps = (a: Placed, b: Placed, margin: number = 0): boolean =>
+  [0, -CANVASWIDTH, CANVASWIDTH].some(dx => shapesOverlap(a, shift(grow(b, margin), dx)))
+
+/**
+ * Function that returns how wide a hitbox is
+ * @param h The given hitbox
+ * @returns The width of the hitbox
+ */
+export const widthOf = (h: Hitbox): number => h.kind === "rect" ? h.width : h.radius * 2
+
+/**
+ * Function that returns how tall a hitbox is
+ * @param h The given hitbox
+ * @returns The height of the hitbox
+ */
+export const heightOf = (h: Hitbox): number => h.kind === "rect" ? h.height : h.radius * 2
@@ -0,0 +1,110 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Move, Restart } from "./game";
+import { Pause, Autopilot } from "./app";
+import { memoryStore } from "./leaderboard";
+import { DEFAULTBINDINGS, LONGPRESS, loadBindings, saveBindings, rebind, bindingLabel, keyAction, gestureAction, gamepadActions, actionEvent } from "./input";
+
+describe("bindings", () => {
+  it("starts with the default keys", () => {
+    assert.deepEqual(loadBindings(memoryStore()), DEFAULTBINDINGS);
+  });
+
+  it("round trips through the store", () => {
+    const store = memoryStore();
+    const bindings = rebind(DEFAULTBINDINGS, "up", "i");
+    saveBindings(store, bindings);
+    assert.deepEqual(loadBindings(store), bindings);
+  });
+
+  it("keeps the default keys of actions that are missing or corrupted", () => {
+    const store = memoryStore();
+    store.setItem("frogger.bindings", JSON.stringify({up: ["i"], down: "k", left: [3]}));
+    assert.deepEqual(loadBindings(store), {...DEFAULTBINDINGS, up: ["i"]});
+    store.setItem("frogger.bindings", "not json");
+    assert.deepEqual(loadBindings(store), DEFAULTBINDINGS);
+    store.setItem("frogger.bindings", "null");
+    assert.deepEqual(loadBindings(store), DEFAULTBINDINGS);
+  });
+
+  it("takes a rebound key away from the action it was bound to", () => {
+    const bindings = rebind(DEFAULTBINDINGS, "restart", "W");
+    assert.deepEqual(bindings.restart, ["w"]);
+    assert.deepEqual(bindings.up, []);
+    assert.equal(keyAction(bindings, "w", false), "restart");
+    assert.equal(keyAction(bindings, "r", false), null);
+  });
+
+  it("describes the keys bound to an action", () => {
+    assert.equal(bindingLabel(DEFAULTBINDINGS, "pause"), "Pause: P, Escape");
+    assert.equal(bindingLabel(DEFAULTBINDINGS, "up2"), "Player 2 up: ArrowUp");
+    assert.equal(bindingLabel(rebind(DEFAULTBINDINGS, "pause", " "), "pause"), "Pause: Space");
+    assert.equal(bindingLabel(rebind(DEFAULTBINDINGS, "down", "r"), "restart"), "Restart: unbound");
+  });
+});
+
+describe("keyAction", () => {
+  it("finds the action of letters however they are typed and of the arrow keys", () => {
+    assert.equal(keyAction(DEFAULTBINDINGS, "W", false), "up");
+    assert.equal(keyAction(DEFAULTBINDINGS, "ArrowLeft", false), "left2");
+    assert.equal(keyAction(DEFAULTBINDINGS, "Escape", false), "pause");
+    assert.equal(keyAction(DEFAULTBINDINGS, "x", false), null);
+  });
+
+  it("ignores keys repeating while held down", () => {
+    assert.equal(keyAction(DEFAULTBINDINGS, "w", true), null);
+  });
+});
+
+describe("gestureAction", () => {
+  /**
+   * Where a finger touches the game
+   */
+  const start = {x: 300, y: 300, time: 1000};
+
+  it("moves the frog in the direction of a swipe", () => {
+    assert.equal(gestureAction(start, {x: 300, y: 200, time: 1100}), "up");
+    assert.equal(gestureAction(start, {x: 290, y: 400, time: 1100}), "down");
+    assert.equal(gestureAction(start, {x: 200, y: 260, time: 1100}), "left");
+    assert.equal(gestureAction(start, {x: 400, y: 340, time: 1100}), "right");
+  });
+
+  it("hops forward on a tap and restarts on a long press", () => {
+    assert.equal(gestureAction(start, {x: 305, y: 295, time: 1100}), "up");
+    assert.equal(gestureAction(start, {x: 305, y: 295, time: 1000 + LONGPRESS}), "restart");
+  });
+});
+
+describe("gamepadActions", () => {
+  /**
+   * Function that creates the buttons of a gamepad with the given buttons pressed
+   * @param down The given buttons
+   * @returns Which of the 17 buttons of a standard gamepad are pressed
+   */
+  const buttons = (...down: ReadonlyArray<number>): ReadonlyArray<boolean> => Array(17).fill(false).map((_, i) => down.includes(i));
+
+  it("acts on the d-pad, Select and Start only when they are first pressed", () => {
+    assert.deepEqual(gamepadActions([], buttons(12, 15)), ["up", "right"]);
+    assert.deepEqual(gamepadActions(buttons(12), buttons(12, 13)), ["down"]);
+    assert.deepEqual(gamepadActions(buttons(), buttons(8, 9)), ["restart", "pause"]);
+  });
+
+  it("moves the frog of the second player with the d-pad of the second gamepad", () => {
+    assert.deepEqual(gamepadActions([], buttons(12, 9), 1), ["pause", "up2"]);
+  });
+
+  it("ignores the buttons that have no action", () => {
+    assert.deepEqual(gamepadActions(buttons(), buttons(0, 1, 16)), []);
+  });
+});
+
+describe("actionEvent", () => {
+  it("feeds every input to the app as the same events as the keyboard", () => {
+    assert.deepEqual(actionEvent("up"), new Move("w", -60));
+    assert.deepEqual(actionEvent("left"), new Move("a", -45));
+    assert.deepEqual(actionEvent("down2"), new Move("s", 60, 1));
+    assert.ok(actionEvent("restart") instanceof Restart);
+    assert.ok(actionEvent("pause") instanceof Pause);
+    assert.ok(actionEvent("autopilot") instanceof Autopilot);
+  });
+});
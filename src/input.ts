@@ -0,0 +1,226 @@
+/**
+ * The input module which turns what the user does on any input device into the actions of the game.
+ * Keys, touch gestures and gamepad buttons are all mapped to the same actions, and every action is fed to the app as the same event,
+ * so the game does not know which device the user is playing with. Like the game module, nothing in this module touches the DOM.
+ */
+import { Move, Restart } from "./game";
+import { Pause, Autopilot } from "./app";
+import { Point } from "./hitbox";
+import { ScoreStore } from "./leaderboard";
+import { isRecord, isList } from "./level";
+
+/** The section below contains all the types that will be used for input */
+
+/**
+ * The Action type which represents everything the user can ask the game to do, the actions ending in 2 move the frog of the second player
+ */
+export type Action = "up" | "down" | "left" | "right" | "up2" | "down2" | "left2" | "right2" | "restart" | "pause" | "autopilot";
+
+/**
+ * The Bindings type which represents the keys bound to every action, an action can have more than one key
+ */
+export type Bindings = Readonly<Record<Action, ReadonlyArray<string>>>
+
+/**
+ * The Touch type which represents where and when a finger touched or left the screen
+ */
+export type Touch = Point & Readonly<{
+  time: number
+}>
+
+/** The section above contains all the types that will be used for input */
+
+/**
+ * Every action the user can ask for, in the order they are listed to the user
+ */
+export const ACTIONS: ReadonlyArray<Action> = ["up", "down", "left", "right", "up2", "down2", "left2", "right2", "restart", "pause", "autopilot"];
+
+/**
+ * The names of the actions shown to the user
+ */
+const ACTIONNAMES: Readonly<Record<Action, string>> = {
+  up: "Up",
+  down: "Down",
+  left: "Left",
+  right: "Right",
+  up2: "Player 2 up",
+  down2: "Player 2 down",
+  left2: "Player 2 left",
+  right2: "Player 2 right",
+  restart: "Restart",
+  pause: "Pause",
+  autopilot: "Autopilot"
+};
+
+/**
+ * The keys bound to every action until the user changes them.
+ * The second player uses the arrow keys, which also move the frog when playing alone
+ */
+export const DEFAULTBINDINGS: Bindings = {
+  up: ["w"],
+  down: ["s"],
+  left: ["a"],
+  right: ["d"],
+  up2: ["ArrowUp"],
+  down2: ["ArrowDown"],
+  left2: ["ArrowLeft"],
+  right2: ["ArrowRight"],
+  restart: ["r"],
+  pause: ["p", "Escape"],
+  autopilot: ["b"]
+};
+
+/**
+ * The key the bindings are stored under
+ */
+const STOREKEY = "frogger.bindings";
+
+/**
+ * The shortest distance a finger has to move for a touch to count as a swipe instead of a tap, in pixels
+ */
+export const SWIPEDISTANCE = 30;
+
+/**
+ * The shortest time a finger has to stay still on the screen for a touch to count as a long press, in milliseconds
+ */
+export const LONGPRESS = 500;
+
+/**
+ * The actions of the buttons of a gamepad with the standard layout, the d-pad moves the frog, Select restarts and Start pauses.
+ * The d-pad of the second gamepad moves the frog of the second player
+ */
+export const GAMEPADBUTTONS: Readonly<{ [button: number]: Action }> = {
+  8: "restart",
+  9: "pause",
+  12: "up",
+  13: "down",
+  14: "left",
+  15: "right"
+};
+
+/**
+ * Function that makes keys that type letters match however they are typed, so that W matches w when Caps Lock is on
+ * @param key The given key
+ * @returns The key in the form it is bound in
+ */
+const normalise = (key: string): string => key.length === 1 ? key.toLowerCase() : key
+
+/**
+ * Function that checks if the given value is a list of keys
+ * @param keys The given value
+ * @returns True if the value is an array of keys, false otherwise
+ */
+const isKeys = (keys: unknown): keys is ReadonlyArray<string> =>
+  isList(keys) && keys.every(k => typeof k === "string" && k.length > 0)
+
+/**
+ * Function that loads the bindings from the given store.
+ * Actions that are missing or corrupted keep their default keys, so the user can always play
+ * @param store The given store
+ * @returns The bindings
+ */
+export const loadBindings = (store: ScoreStore): Bindings => {
+  try {
+    const json: unknown = JSON.parse(store.getItem(STOREKEY) || "{}");
+    return !isRecord(json) ? DEFAULTBINDINGS : ACTIONS.reduce((acc, action) => {
+      const keys = json[action];
+      return {...acc, [action]: isKeys(keys) ? keys : DEFAULTBINDINGS[action]}
+    }, DEFAULTBINDINGS);
+  } catch {
+    return DEFAULTBINDINGS;
+  }
+}
+
+/**
+ * Function that saves the bindings to the given store
+ * @param store The given store
+ * @param bindings The given bindings
+ */
+export const saveBindings = (store: ScoreStore, bindings: Bindings): void => {
+  store.setItem(STOREKEY, JSON.stringify(bindings));
+}
+
+/**
+ * Function that binds a key to an action in place of the keys it had, the key is taken away from any other action it was bound to
+ * @param bindings The current bindings
+ * @param action The action the key is bound to
+ * @param key The key
+ * @returns The new bindings
+ */
+export const rebind = (bindings: Bindings, action: Action, key: string): Bindings =>
+  ACTIONS.reduce((acc, a) =>
+    ({...acc, [a]: a === action ? [normalise(key)] : bindings[a].filter(k => k !== normalise(key))}),
+    bindings)
+
+/**
+ * Function that describes the keys bound to an action to the user, for example "Pause: P, Escape"
+ * @param bindings The current bindings
+ * @param action The given action
+ * @returns The description of the keys bound to the action
+ */
+export const bindingLabel = (bindings: Bindings, action: Action): string =>
+  `${ACTIONNAMES[action]}: ${bindings[action].length === 0 ? "unbound"
+    : bindings[action].map(k => k === " " ? "Space" : k.length === 1 ? k.toUpperCase() : k).join(", ")}`
+
+/**
+ * Function that finds the action bound to a key pressed by the user.
+ * Keys held down repeat by themselves, the repeats are ignored so that holding a key moves the frog only once
+ * @param bindings The current bindings
+ * @param key The key pressed by the user
+ * @param repeat True if the key press is a repeat of a key held down
+ * @returns The action bound to the key, or null if there is none
+ */
+export const keyAction = (bindings: Bindings, key: string, repeat: boolean): Action | null =>
+  repeat ? null : ACTIONS.find(action => bindings[action].includes(normalise(key))) || null
+
+/**
+ * Function that finds the action of a touch gesture on the game.
+ * A swipe moves the frog in the direction it is mostly going, a tap hops the frog forward and a long press restarts the game
+ * @param start Where and when the finger touched the screen
+ * @param end Where and when the finger left the screen
+ * @returns The action of the gesture
+ */
+export const gestureAction = (start: Touch, end: Touch): Action => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  return Math.hypot(dx, dy) < SWIPEDISTANCE ? end.time - start.time >= LONGPRESS ? "restart" : "up"
+    : Math.abs(dx) > Math.abs(dy) ? dx < 0 ? "left" : "right"
+    : dy < 0 ? "up" : "down"
+}
+
+/**
+ * Function that turns an action of the first player into the same action of the second player
+ * @param action The given action
+ * @returns The action of the second player, actions that do not move a frog are shared by both players
+ */
+const secondPlayer = (action: Action): Action =>
+  action === "up" || action === "down" || action === "left" || action === "right" ? `${action}2` : action
+
+/**
+ * Function that finds the actions of the buttons of a gamepad that have just been pressed, buttons held down only act once
+ * @param previous Which buttons were pressed the last time the gamepad was read
+ * @param pressed Which buttons are pressed now
+ * @param pad The index of the gamepad, the second gamepad moves the frog of the second player
+ * @returns The actions of the buttons that have just been pressed
+ */
+export const gamepadActions = (previous: ReadonlyArray<boolean>, pressed: ReadonlyArray<boolean>, pad: number = 0): ReadonlyArray<Action> =>
+  pressed.flatMap((down, button) => down && !previous[button] && GAMEPADBUTTONS[button] !== undefined
+    ? [pad === 1 ? secondPlayer(GAMEPADBUTTONS[button]) : GAMEPADBUTTONS[button]] : [])
+
+/**
+ * Function that turns an action into the event the app is fed
+ * @param action The given action
+ * @returns The event of the action
+ */
+export const actionEvent = (action: Action): Move | Restart | Pause | Autopilot =>
+  action === "up" ? new Move("w", -60)
+  : action === "down" ? new Move("s", 60)
+  : action === "left" ? new Move("a", -45)
+  : action === "right" ? new Move("d", 45)
+  : action === "up2" ? new Move("w", -60, 1)
+  : action === "down2" ? new Move("s", 60, 1)
+  : action === "left2" ? new Move("a", -45, 1)
+  : action === "right2" ? new Move("d", 45, 1)
+  : action === "restart" ? new Restart()
+  : action === "pause" ? new Pause()
+  : new Autopilot()
@@ -0,0 +1,70 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Entry, LEADERBOARDSIZE, memoryStore, loadLeaderboard, saveLeaderboard, qualifies, addEntry, bestScore } from "./leaderboard";
+
+/**
+ * Function that creates an entry of the leaderboard with the given score
+ * @param score The given score
+ * @param initials The initials of the entry
+ * @returns The entry
+ */
+const entry = (score: number, initials: string = "AAA"): Entry => ({initials: initials, score: score, level: 1, date: "2022-09-06T00:00:00.000Z"});
+
+/**
+ * A full leaderboard with scores from 1000 down to 100
+ */
+const FULL = Array(LEADERBOARDSIZE).fill(0).map((_, index) => entry((LEADERBOARDSIZE - index) * 100));
+
+describe("loadLeaderboard", () => {
+  it("starts with an empty leaderboard", () => {
+    assert.deepEqual(loadLeaderboard(memoryStore()), []);
+  });
+
+  it("loads the leaderboard that was saved", () => {
+    const store = memoryStore();
+    saveLeaderboard(store, FULL);
+    assert.deepEqual(loadLeaderboard(store), FULL);
+  });
+
+  it("keeps the difficulty a score was played on, and drops entries with a difficulty the game does not know", () => {
+    const store = memoryStore();
+    const hard: Entry = {...entry(500), difficulty: "hard", adaptive: true};
+    store.setItem("frogger.leaderboard", JSON.stringify([hard, entry(400), {...entry(300), difficulty: "insane"}]));
+    assert.deepEqual(loadLeaderboard(store), [hard, entry(400)]);
+  });
+
+  it("treats a corrupted leaderboard as an empty one", () => {
+    const store = memoryStore();
+    store.setItem("frogger.leaderboard", "{not json");
+    assert.deepEqual(loadLeaderboard(store), []);
+    store.setItem("frogger.leaderboard", JSON.stringify([entry(500), {initials: "BAD"}]));
+    assert.deepEqual(loadLeaderboard(store), [entry(500)]);
+  });
+});
+
+describe("qualifies", () => {
+  it("lets any positive score onto a leaderboard that is not full", () => {
+    assert.equal(qualifies([], 10), true);
+    assert.equal(qualifies([], 0), false);
+  });
+
+  it("only lets scores better than the worst one onto a full leaderboard", () => {
+    assert.equal(qualifies(FULL, 100), false);
+    assert.equal(qualifies(FULL, 150), true);
+  });
+});
+
+describe("addEntry", () => {
+  it("keeps the leaderboard sorted from best to worst", () => {
+    const board = addEntry(FULL, entry(550, "NEW"));
+    assert.equal(board.length, LEADERBOARDSIZE);
+    assert.equal(board[5].initials, "NEW");
+    assert.equal(board[board.length - 1].score, 200);
+    assert.equal(bestScore(board), 1000);
+  });
+
+  it("ranks a tie below the score that was there first", () => {
+    const board = addEntry([entry(300, "OLD")], entry(300, "NEW"));
+    assert.deepEqual(board.map(e => e.initials), ["OLD", "NEW"]);
+  });
+});
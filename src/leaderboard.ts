@@ -0,0 +1,123 @@
+/**
+ * The leaderboard module which keeps the best scores across page reloads.
+ * The leaderboard is stored through a small storage interface, so that tests can use an in-memory store instead of localStorage.
+ */
+import { DifficultyName, DIFFICULTIES } from "./difficulty";
+import { isRecord, isList } from "./level";
+
+/** The section below contains all the types that will be used for the leaderboard */
+
+/**
+ * The ScoreStore type which represents anywhere the leaderboard can be stored, localStorage is one
+ */
+export type ScoreStore = Readonly<{
+  getItem: (key: string) => string | null,
+  setItem: (key: string, value: string) => void
+}>
+
+/**
+ * The Entry type which represents a score on the leaderboard, with the difficulty it was played on.
+ * Scores saved before the game had difficulties have no difficulty and were played on the normal preset
+ */
+export type Entry = Readonly<{
+  initials: string,
+  score: number,
+  level: number,
+  date: string,
+  difficulty?: DifficultyName,
+  adaptive?: boolean
+}>
+
+/**
+ * The Leaderboard type which represents the best scores, from best to worst
+ */
+export type Leaderboard = ReadonlyArray<Entry>
+
+/** The section above contains all the types that will be used for the leaderboard */
+
+/**
+ * The number of scores kept on the leaderboard
+ */
+export const LEADERBOARDSIZE = 10;
+
+/**
+ * The key the leaderboard is stored under
+ */
+const STOREKEY = "frogger.leaderboard";
+
+/**
+ * Function that creates a store that only keeps the leaderboard in memory
+ * @returns The in-memory store
+ */
+export const memoryStore = (): ScoreStore => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.has(key) ? items.get(key) as string : null,
+    setItem: (key: string, value: string) => { items.set(key, value) }
+  }
+}
+
+/**
+ * Function that checks if the given value is a valid entry of the leaderboard
+ * @param e The given value
+ * @returns True if the value is a valid entry, false otherwise
+ */
+const isEntry = (e: unknown): e is Entry =>
+  isRecord(e)
+  && typeof e.initials === "string" && typeof e.score === "number" && typeof e.level === "number" && typeof e.date === "string"
+  && (e.difficulty === undefined || DIFFICULTIES.some(d => d === e.difficulty)) && (e.adaptive === undefined || typeof e.adaptive === "boolean")
+
+/**
+ * Function that sorts the entries of a leaderboard from best to worst, keeping only the best ones
+ * @param entries The given entries
+ * @returns The leaderboard
+ */
+const rank = (entries: ReadonlyArray<Entry>): Leaderboard =>
+  entries.slice().sort((a, b) => b.score - a.score).slice(0, LEADERBOARDSIZE)
+
+/**
+ * Function that loads the leaderboard from the given store.
+ * A missing or corrupted leaderboard is treated as an empty one, since losing the scores is better than not being able to play
+ * @param store The given store
+ * @returns The leaderboard
+ */
+export const loadLeaderboard = (store: ScoreStore): Leaderboard => {
+  try {
+    const entries = JSON.parse(store.getItem(STOREKEY) || "[]");
+    return isList(entries) ? rank(entries.filter(isEntry)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Function that saves the leaderboard to the given store
+ * @param store The given store
+ * @param board The leaderboard
+ */
+export const saveLeaderboard = (store: ScoreStore, board: Leaderboard): void =>
+  store.setItem(STOREKEY, JSON.stringify(board))
+
+/**
+ * Function that checks if the given score is good enough to be on the leaderboard
+ * @param board The leaderboard
+ * @param score The given score
+ * @returns True if the score would make it onto the leaderboard, false otherwise
+ */
+export const qualifies = (board: Leaderboard, score: number): boolean =>
+  score > 0 && (board.length < LEADERBOARDSIZE || score > board[board.length - 1].score)
+
+/**
+ * Function that adds an entry to the leaderboard
+ * @param board The leaderboard
+ * @param entry The given entry
+ * @returns The leaderboard with the entry added, if it is good enough
+ */
+export const addEntry = (board: Leaderboard, entry: Entry): Leaderboard => rank(board.concat([entry]))
+
+/**
+ * Function that returns the best score on the leaderboard
+ * @param board The leaderboard
+ * @returns The best score, 0 if the leaderboard is empty
+ */
+export const bestScore = (board: Leaderboard): number => board.length > 0 ? board[0].score : 0
@@ -0,0 +1,100 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { LEVELS, loadLevel, validateLevel, inRiver } from "./level";
+import { DEFAULTCONFIG, Vector, Tick, createGame, reduceState } from "./game";
+
+/**
+ * A valid level file with a single lane
+ */
+const LEVEL = {
+  name: "Test",
+  lanes: [{ kind: "car", row: 480, count: 2, spacing: 250, offset: 50, width: 60, height: 30, velocity: 150, direction: "left" }],
+  bays: [{ x: 80, y: 35 }, { x: 260, y: 35 }, { x: 440, y: 35 }],
+  powerUps: [{ kind: "doubleJump", x: [100, 100], y: [300, 300] }]
+};
+
+describe("validateLevel", () => {
+  it("accepts every shipped level", () => {
+    assert.ok(LEVELS.length > 0);
+    assert.ok(LEVELS.every(level => validateLevel(level).length === 0));
+  });
+
+  it("reports every invalid field of a lane", () => {
+    const errors = validateLevel({...LEVEL, lanes: [{...LEVEL.lanes[0], kind: "tractor", count: 0, direction: "up"}]});
+    assert.deepEqual(errors, [
+      "lanes[0].kind must be one of car, bus, plank, croc, snake, turtle",
+      "lanes[0].count must be a positive whole number",
+      "lanes[0].direction must be \"left\" or \"right\""
+    ]);
+  });
+
+  it("only lets turtles dive", () => {
+    assert.deepEqual(validateLevel({...LEVEL, lanes: [{...LEVEL.lanes[0], diving: true}]}), ["lanes[0].diving must be a boolean and can only be true for turtles"]);
+    assert.deepEqual(validateLevel({...LEVEL, lanes: [{...LEVEL.lanes[0], kind: "turtle", diving: true}]}), []);
+  });
+
+  it("rejects lurking crocodiles that are not a boolean", () => {
+    assert.deepEqual(validateLevel({...LEVEL, lurkingCrocs: "yes"}), ["lurkingCrocs must be a boolean"]);
+  });
+
+  it("accepts any number of target bays, as long as there is one", () => {
+    assert.deepEqual(validateLevel({...LEVEL, bays: LEVEL.bays.slice(1)}), []);
+    assert.deepEqual(validateLevel({...LEVEL, bays: [{ x: 0, y: 35 }, ...LEVEL.bays, { x: 520, y: 10 }]}), []);
+    assert.deepEqual(validateLevel({...LEVEL, bays: []}), ["bays must contain at least one target bay"]);
+  });
+
+  it("rejects target bays that miss the top row or overlap each other", () => {
+    assert.deepEqual(validateLevel({...LEVEL, bays: [{ x: 560, y: 300 }]}), [
+      "bays[0].x must be a number between 0 and 520",
+      "bays[0].y must be a number between 10 and 80, so the bay covers the top row"
+    ]);
+    assert.deepEqual(validateLevel({...LEVEL, bays: [...LEVEL.bays, { x: 300, y: 35 }]}), ["bays[3] overlaps bays[1]"]);
+  });
+
+  it("rejects power up spawn areas that are not ranges", () => {
+    assert.deepEqual(validateLevel({...LEVEL, powerUps: [{...LEVEL.powerUps[0], x: [200, 100]}]}), ["powerUps[0].x must be a [min, max] range between 0 and 600"]);
+  });
+
+  it("only spawns power ups the game knows", () => {
+    assert.deepEqual(validateLevel({...LEVEL, powerUps: [{...LEVEL.powerUps[0], kind: "any"}]}), []);
+    assert.deepEqual(validateLevel({...LEVEL, powerUps: [{...LEVEL.powerUps[0], kind: "laser"}]}),
+      ["powerUps[0].kind must be \"any\" or one of doubleJump, shield, slowTime, extraLife, antidote"]);
+  });
+});
+
+describe("loadLevel", () => {
+  it("throws an error listing the problems of an invalid level", () => {
+    assert.throws(() => loadLevel({...LEVEL, name: 3, lanes: "none"}), /Invalid level:\nname must be a string\nlanes must be an array/);
+  });
+
+  it("defaults the offset of a lane to 0", () => {
+    const { offset, ...lane } = LEVEL.lanes[0];
+    assert.equal(loadLevel({...LEVEL, lanes: [lane]}).lanes[0].offset, 0);
+  });
+});
+
+describe("inRiver", () => {
+  it("puts the rows the river lanes of a level run along in the river, wherever the level puts them", () => {
+    assert.deepEqual([560, 500, 440, 380, 320, 260, 200, 140, 80].filter(y => inRiver(LEVELS[0], y)), [260, 200, 140]);
+    const moved = loadLevel({...LEVEL, lanes: [{...LEVEL.lanes[0], kind: "plank", row: 485}]});
+    assert.deepEqual([560, 500, 440, 260].filter(y => inRiver(moved, y)), [500]);
+  });
+
+  it("drowns the frog on a row a plank lane was moved to, and not on the rows it left", () => {
+    const level = loadLevel({...LEVEL, lanes: [{...LEVEL.lanes[0], kind: "plank", row: 485, count: 1}]});
+    const s = createGame(1, {...DEFAULTCONFIG, levels: [level]});
+    const at = (x: number, y: number) => [new Tick(0), new Tick(1)].reduce(reduceState, {...s, frog: {...s.frog, position: new Vector(x, y)}});
+    assert.equal(at(400, 500).lives, s.lives - 1);
+    assert.equal(at(400, 260).lives, s.lives);
+  });
+});
+
+describe("createGame", () => {
+  it("builds the lanes, target bays and power up from the level", () => {
+    const s = createGame(1, {...DEFAULTCONFIG, levels: [loadLevel(LEVEL)]});
+    assert.deepEqual(s.cars.map(c => [c.id, c.position.x, c.position.y, c.velocity.x]), [["car0", 50, 480, -150], ["car1", 300, 480, -150]]);
+    assert.equal(s.buses.length, 0);
+    assert.deepEqual(s.targets.map(t => [t.id, t.position.x]), [["target0", 80], ["target1", 260], ["target2", 440]]);
+    assert.deepEqual(s.pickup && [s.pickup.kind, s.pickup.position.x, s.pickup.position.y], ["doubleJump", 100, 300]);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * The level module which describes the levels of the game as plain data, so that levels can be added without touching the reducer.
+ * The shipped levels live as JSON files in src/levels.
+ */
+import level1 from "./levels/level1.json";
+import level2 from "./levels/level2.json";
+import level3 from "./levels/level3.json";
+import { PowerUpKind, POWERUPKINDS } from "./powerup";
+
+/** The section below contains all the types that will be used for levels */
+
+/**
+ * The LaneKind type which represents all the kinds of bodies that can move along a lane
+ */
+export type LaneKind = "car" | "bus" | "plank" | "croc" | "snake" | "turtle";
+
+/**
+ * The Direction type which represents the directions a lane can move in
+ */
+export type Direction = "left" | "right";
+
+/**
+ * The Lane type which represents a row of identical bodies moving across the canvas, the bodies are rectangles of the given width and height
+ */
+export type Lane = Readonly<{
+  kind: LaneKind,
+  row: number,
+  count: number,
+  spacing: number,
+  offset: number,
+  width: number,
+  height: number,
+  velocity: number,
+  direction: Direction,
+  diving: boolean
+}>
+
+/**
+ * The Bay type which represents the position of the top left corner of a target bay at the top of the canvas
+ */
+export type Bay = Readonly<{
+  x: number,
+  y: number
+}>
+
+/**
+ * The PowerUpSpawn type which represents an area of the canvas in which a power up can spawn,
+ * either a power up of the given kind or any power up picked at random
+ */
+export type PowerUpSpawn = Readonly<{
+  kind: PowerUpKind | "any",
+  x: readonly [number, number],
+  y: readonly [number, number]
+}>
+
+/**
+ * The Level type which represents everything that makes up a level of the game
+ */
+export type Level = Readonly<{
+  name: string,
+  timer: number,
+  lurkingCrocs: boolean,
+  lanes: ReadonlyArray<Lane>,
+  bays: ReadonlyArray<Bay>,
+  powerUps: ReadonlyArray<PowerUpSpawn>
+}>
+
+/** The section above contains all the types that will be used for levels */
+
+/**
+ * The number of seconds the frog(Player) has to fill a target if the level file does not say otherwise
+ */
+export const DEFAULTTIMER = 30;
+
+/**
+ * All the kinds of bodies that can move along a lane
+ */
+export const LANEKINDS: ReadonlyArray<LaneKind> = ["car", "bus", "plank", "croc", "snake", "turtle"];
+
+/**
+ * All the kinds of bodies that float on the river, the rows they run along are the river
+ */
+export const RIVERKINDS: ReadonlyArray<LaneKind> = ["plank", "croc", "turtle"];
+
+/**
+ * The distance between two rows the frog(Player) can stand on
+ */
+export const ROWHEIGHT = 60;
+
+/**
+ * The width of every target bay
+ */
+export const BAYWIDTH = 80;
+
+/**
+ * The height of every target bay
+ */
+export const BAYHEIGHT = 70;
+
+/**
+ * The row at the top of the canvas the frog(Player) lands on when it jumps into a target bay, every target bay has to cover it
+ */
+export const BAYROW = 80;
+
+/**
+ * Function that checks if the given value is an object whose fields can be read, such as a parsed JSON object
+ * @param v The given value
+ * @returns True if the value is an object that is not null, false otherwise
+ */
+export const isRecord = (v: unknown): v is Readonly<Record<string, unknown>> => typeof v === "object" && v !== null
+
+/**
+ * Function that checks if the given value is a list, without trusting anything about what is in it
+ * @param v The given value
+ * @returns True if the value is an array, false otherwise
+ */
+export const isList = (v: unknown): v is ReadonlyArray<unknown> => Array.isArray(v)
+
+/**
+ * Function that checks if the given value is a number within the given limits
+ * @param v The given value
+ * @param min The smallest allowed number
+ * @param max The largest allowed number
+ * @returns True if the value is a number within the limits, false otherwise
+ */
+const isNumberWithin = (v: unknown, min: number, max: number): v is number =>
+  typeof v === "number" && Number.isFinite(v) && v >= min && v <= max
+
+/**
+ * Function that checks if the given value is a range of numbers within the given limits
+ * @param v The given value
+ * @param min The smallest allowed number
+ * @param max The largest allowed number
+ * @returns True if the value is a range within the limits, false otherwise
+ */
+const isRangeWithin = (v: unknown, min: number, max: number): boolean =>
+  isList(v) && v.length === 2 && isNumberWithin(v[0], min, max) && isNumberWithin(v[1], v[0], max)
+
+/**
+ * Function that checks if a row the frog(Player) stands on is in the river of a level, which is every row below the target bays
+ * that a lane floating on the river runs along, wherever the level puts those lanes
+ * @param level The given level
+ * @param y y-coordinate of the frog(Player)
+ * @returns True if the frog is in the river, false otherwise
+ */
+export const inRiver = (level: Level, y: number): boolean =>
+  y > BAYROW && level.lanes.some(lane =>
+    RIVERKINDS.includes(lane.kind) && lane.row < y + ROWHEIGHT / 2 && lane.row + lane.height > y - ROWHEIGHT / 2)
+
+/**
+ * Function that finds everything that is wrong with a lane
+ * @param lane The given lane
+ * @param path Where the lane is in the level file, used in the error messages
+ * @returns The error messages, empty if the lane is valid
+ */
+const validateLane = (lane: unknown, path: string): ReadonlyArray<string> =>
+  !isRecord(lane) ? [`${path} must be an object`] : [
+    ...(LANEKINDS.some(kind => kind === lane.kind) ? [] : [`${path}.kind must be one of ${LANEKINDS.join(", ")}`]),
+    ...(isNumberWithin(lane.row, 0, 600) ? [] : [`${path}.row must be a number between 0 and 600`]),
+    ...(isNumberWithin(lane.count, 1, Infinity) && Number.isInteger(lane.count) ? [] : [`${path}.count must be a positive whole number`]),
+    ...(isNumberWithin(lane.spacing, 1, 600) ? [] : [`${path}.spacing must be a number between 1 and 600`]),
+    ...(lane.offset === undefined || isNumberWithin(lane.offset, 0, 600) ? [] : [`${path}.offset must be a number between 0 and 600`]),
+    ...(isNumberWithin(lane.width, 1, 600) ? [] : [`${path}.width must be a number between 1 and 600`]),
+    ...(isNumberWithin(lane.height, 1, 600) ? [] : [`${path}.height must be a number between 1 and 600`]),
+    ...(isNumberWithin(lane.velocity, 0, 6000) ? [] : [`${path}.velocity must be a number of pixels per second between 0 and 6000`]),
+    ...(lane.direction === "left" || lane.direction === "right" ? [] : [`${path}.direction must be "left" or "right"`]),
+    ...(lane.diving === undefined || (typeof lane.diving === "boolean" && (!lane.diving || lane.kind === "turtle")) ? [] : [`${path}.diving must be a boolean and can only be true for turtles`])
+  ]
+
+/**
+ * Function that finds everything that is wrong with a target bay
+ * @param bay The given target bay
+ * @param path Where the target bay is in the level file, used in the error messages
+ * @returns The error messages, empty if the target bay is valid
+ */
+const validateBay = (bay: unknown, path: string): ReadonlyArray<string> =>
+  !isRecord(bay) ? [`${path} must be an object`] : [
+    ...(isNumberWithin(bay.x, 0, 600 - BAYWIDTH) ? [] : [`${path}.x must be a number between 0 and ${600 - BAYWIDTH}`]),
+    ...(isNumberWithin(bay.y, BAYROW - BAYHEIGHT, BAYROW) ? [] : [`${path}.y must be a number between ${BAYROW - BAYHEIGHT} and ${BAYROW}, so the bay covers the top row`])
+  ]
+
+/**
+ * Function that finds the target bays that overlap a target bay before them, so that the frog can never land in two bays at once
+ * @param bays The valid target bays of the level
+ * @returns The error messages, empty if no target bays overlap
+ */
+const validateBaySpacing = (bays: ReadonlyArray<Bay>): ReadonlyArray<string> =>
+  bays.flatMap((bay, index) => bays.slice(0, index).flatMap((before, i) =>
+    Math.abs(bay.x - before.x) < BAYWIDTH ? [`bays[${index}] overlaps bays[${i}]`] : []))
+
+/**
+ * Function that finds everything that is wrong with the target bays of a level
+ * @param bays The given target bays
+ * @returns The error messages, empty if the target bays are valid
+ */
+const validateBays = (bays: ReadonlyArray<unknown>): ReadonlyArray<string> => {
+  const errors = bays.flatMap((bay, index) => validateBay(bay, `bays[${index}]`));
+  return bays.length === 0 ? ["bays must contain at least one target bay"]
+    : errors.length > 0 ? errors
+    : validateBaySpacing(bays as ReadonlyArray<Bay>)
+}
+
+/**
+ * Function that finds everything that is wrong with a power up spawn
+ * @param spawn The given power up spawn
+ * @param path Where the power up spawn is in the level file, used in the error messages
+ * @returns The error messages, empty if the power up spawn is valid
+ */
+const validatePowerUp = (spawn: unknown, path: string): ReadonlyArray<string> =>
+  !isRecord(spawn) ? [`${path} must be an object`] : [
+    ...(spawn.kind === "any" || POWERUPKINDS.some(kind => kind === spawn.kind) ? [] : [`${path}.kind must be "any" or one of ${POWERUPKINDS.join(", ")}`]),
+    ...(isRangeWithin(spawn.x, 0, 600) ? [] : [`${path}.x must be a [min, max] range between 0 and 600`]),
+    ...(isRangeWithin(spawn.y, 0, 600) ? [] : [`${path}.y must be a [min, max] range between 0 and 600`])
+  ]
+
+/**
+ * Function that finds everything that is wrong with a level file
+ * @param json The parsed contents of the level file
+ * @returns The error messages, empty if the level is valid
+ */
+export const validateLevel = (json: unknown): ReadonlyArray<string> =>
+  !isRecord(json) ? ["level must be an object"] : [
+    ...(typeof json.name === "string" ? [] : ["name must be a string"]),
+    ...(json.timer === undefined || isNumberWithin(json.timer, 1, 600) ? [] : ["timer must be a number of seconds between 1 and 600"]),
+    ...(json.lurkingCrocs === undefined || typeof json.lurkingCrocs === "boolean" ? [] : ["lurkingCrocs must be a boolean"]),
+    ...(isList(json.lanes)
+      ? json.lanes.flatMap((lane, index) => validateLane(lane, `lanes[${index}]`))
+      : ["lanes must be an array"]),
+    ...(isList(json.bays) ? validateBays(json.bays) : ["bays must be an array"]),
+    ...(isList(json.powerUps)
+      ? json.powerUps.flatMap((spawn, index) => validatePowerUp(spawn, `powerUps[${index}]`))
+      : ["powerUps must be an array"])
+  ]
+
+/**
+ * Function that loads a level from the parsed contents of a level file
+ * @param json The parsed contents of the level file
+ * @returns The level
+ * @throws Error listing everything that is wrong with the level file if it is not a valid level
+ */
+export const loadLevel = (json: unknown): Level => {
+  const errors = validateLevel(json);
+  if(errors.length > 0) {
+    throw new Error(`Invalid level:\n${errors.join("\n")}`);
+  }
+  const level = json as Level;
+  return {
+    ...level,
+    timer: level.timer === undefined ? DEFAULTTIMER : level.timer,
+    lurkingCrocs: level.lurkingCrocs === undefined ? false : level.lurkingCrocs,
+    lanes: level.lanes.map(lane => ({...lane,
+      offset: lane.offset === undefined ? 0 : lane.offset,
+      diving: lane.diving === undefined ? false : lane.diving
+    }))
+  }
+}
+
+/**
+ * The levels shipped with the game, in the order they are played
+ */
+export const LEVELS: ReadonlyArray<Level> = [level1, level2, level3].map(loadLevel);
@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Tick, Vector, TICKSPERSECOND, createGame, reduceState } from "./game";
+import { Clock, TICKLENGTH, MAXCATCHUP, createClock, advanceClock, interpolate } from "./loop";
+
+/**
+ * Function that runs the clock through frames drawn at the given times
+ * @param times The times of the frames, in milliseconds
+ * @returns The clock after every frame
+ */
+const frames = (times: ReadonlyArray<number>): ReadonlyArray<Clock> =>
+  times.reduce<Clock[]>((acc, time) => acc.concat([advanceClock(acc.length > 0 ? acc[acc.length - 1] : createClock(0), time)]), [])
+
+/**
+ * Function that returns the times of the frames drawn in one second at the given frame rate
+ * @param rate The number of frames per second
+ * @returns The times of the frames, in milliseconds
+ */
+const second = (rate: number): ReadonlyArray<number> => Array(rate).fill(0).map((_, index) => (index + 1) * 1000 / rate)
+
+describe("advanceClock", () => {
+  it("runs the same number of ticks per second on slow and fast displays", () => {
+    const total = (clocks: ReadonlyArray<Clock>) => clocks.reduce((n, c) => n + c.due, 0);
+    assert.equal(total(frames(second(30))), TICKSPERSECOND);
+    assert.equal(total(frames(second(60))), TICKSPERSECOND);
+    assert.equal(total(frames(second(144))), TICKSPERSECOND);
+  });
+
+  it("carries the time left over between frames to the next frame", () => {
+    const [first, next] = frames([TICKLENGTH * 1.5, TICKLENGTH * 2]);
+    assert.equal(first.due, 1);
+    assert.equal(first.alpha, 0.5);
+    assert.equal(next.due, 1);
+    assert.equal(next.alpha, 0);
+  });
+
+  it("drops the time beyond the catch up limit when the tab stalls", () => {
+    const [stalled, next] = frames([TICKLENGTH * MAXCATCHUP * 10, TICKLENGTH * (MAXCATCHUP * 10 + 1)]);
+    assert.equal(stalled.due, MAXCATCHUP);
+    assert.equal(next.due, 1);
+  });
+});
+
+describe("interpolate", () => {
+  /**
+   * The game at two consecutive ticks
+   */
+  const prev = createGame(1);
+  const next = reduceState(prev, new Tick(0));
+
+  it("draws bodies between their positions at the two latest ticks", () => {
+    const drawn = interpolate(prev, next, 0.5);
+    assert.equal(drawn.cars[0].position.x, (prev.cars[0].position.x + next.cars[0].position.x) / 2);
+    assert.equal(interpolate(prev, next, 0).buses[1].position.x, prev.buses[1].position.x);
+    assert.equal(interpolate(prev, next, 1).buses[1].position.x, next.buses[1].position.x);
+  });
+
+  it("puts a frog sent back to the start there straight away, however close to the start it died", () => {
+    const hit = {...prev, frog: {...prev.frog, position: new Vector(300, 500)}, dead: true};
+    const respawned = reduceState(hit, new Tick(0));
+    assert.equal(respawned.lives, hit.lives - 1);
+    assert.equal(interpolate(hit, respawned, 0.5).frog.position.y, respawned.frog.position.y);
+    const moving = {...next, frog: {...next.frog, position: new Vector(300, 500)}};
+    assert.equal(interpolate(prev, moving, 0.5).frog.position.y, 530);
+  });
+
+  it("does not slide bodies that wrapped around the canvas", () => {
+    const wrapped = {...next, cars: [{...next.cars[0], position: new Vector(next.cars[0].position.x + 590, next.cars[0].position.y)}]};
+    assert.equal(interpolate(prev, wrapped, 0.5).cars[0].position.x, wrapped.cars[0].position.x);
+  });
+});
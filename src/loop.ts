@@ -0,0 +1,119 @@
+/**
+ * The loop module which runs the simulation of the game on a fixed timestep, no matter how often the browser draws a frame.
+ * Frames are drawn between the two latest states of the simulation, so that objects move smoothly on any display.
+ * Like the game module, nothing in this module touches the DOM.
+ */
+import { Body, Frog, Player, State, TICKSPERSECOND } from "./game";
+
+/** The section below contains all the types that will be used for the loop */
+
+/**
+ * The Clock type which represents how much of the time passed between frames has been simulated
+ */
+export type Clock = Readonly<{
+  time: number,
+  accumulator: number,
+  due: number,
+  alpha: number
+}>
+
+/** The section above contains all the types that will be used for the loop */
+
+/**
+ * The number of milliseconds simulated by a single tick
+ */
+export const TICKLENGTH = 1000 / TICKSPERSECOND;
+
+/**
+ * The most ticks simulated for a single frame, when the tab stalls for longer than this the time beyond it is dropped
+ * so that the game slows down for a moment instead of running the frog over before the user can see it
+ */
+export const MAXCATCHUP = 25;
+
+/**
+ * The furthest a body can move between two ticks without having wrapped around the canvas
+ */
+const MAXSTEP = 300;
+
+/**
+ * Function that creates a clock that has simulated everything up to the given time
+ * @param time The time of the first frame, in milliseconds
+ * @returns The clock
+ */
+export const createClock = (time: number): Clock => ({
+  time: time,
+  accumulator: 0,
+  due: 0,
+  alpha: 0
+});
+
+/**
+ * Function that advances the clock to the time of a new frame
+ * @param c The current clock
+ * @param time The time of the new frame, in milliseconds
+ * @returns The clock with the number of ticks due for the frame, and how far the frame is between the last two ticks
+ */
+export const advanceClock = (c: Clock, time: number): Clock => {
+  const accumulated = Math.min(c.accumulator + Math.max(0, time - c.time), MAXCATCHUP * TICKLENGTH);
+  const due = Math.floor(accumulated / TICKLENGTH);
+  return {
+    time: time,
+    accumulator: accumulated - due * TICKLENGTH,
+    due: due,
+    alpha: (accumulated - due * TICKLENGTH) / TICKLENGTH
+  }
+}
+
+/**
+ * Function that finds the position of a body between two ticks
+ * @param prev The body at the previous tick
+ * @param next The body at the latest tick
+ * @param alpha How far between the two ticks the body should be, from 0 to 1
+ * @returns The body at the position between the two ticks, or at the latest tick if it jumped across the canvas
+ */
+const interpolateBody = <B extends Body>(prev: B | undefined, next: B, alpha: number): B =>
+  prev && prev.id === next.id && Math.abs(next.position.x - prev.position.x) <= MAXSTEP && Math.abs(next.position.y - prev.position.y) <= MAXSTEP
+    ? {...next, position: prev.position.add(next.position.subtract(prev.position).scale(alpha))}
+    : next
+
+/**
+ * Function that finds the position of the frog of a player between two ticks.
+ * A frog sent back to the start because it lost a life or filled a bay is drawn at the start straight away instead of sliding there
+ * @param prev The player at the previous tick
+ * @param next The player at the latest tick
+ * @param alpha How far between the two ticks the frog should be, from 0 to 1
+ * @returns The frog at the position between the two ticks, or at the latest tick if it was sent back to the start
+ */
+const interpolateFrog = (prev: Player, next: Player, alpha: number): Frog =>
+  prev.lives !== next.lives || prev.frogCount !== next.frogCount ? next.frog : interpolateBody(prev.frog, next.frog, alpha)
+
+/**
+ * Function that finds the positions of every body of a lane between two ticks
+ * @param prev The bodies at the previous tick
+ * @param next The bodies at the latest tick
+ * @param alpha How far between the two ticks the bodies should be, from 0 to 1
+ * @returns The bodies at the positions between the two ticks
+ */
+const interpolateBodies = <B extends Body>(prev: ReadonlyArray<B>, next: ReadonlyArray<B>, alpha: number): ReadonlyArray<B> =>
+  next.map((b, index) => interpolateBody(prev[index], b, alpha))
+
+/**
+ * Function that finds the state of the game to draw between two ticks.
+ * The result is only used for drawing, the simulation always carries on from the latest tick
+ * @param prev The state of the game at the previous tick
+ * @param next The state of the game at the latest tick
+ * @param alpha How far between the two ticks the frame is, from 0 to 1
+ * @returns The state of the game to draw
+ */
+export const interpolate = (prev: State, next: State, alpha: number): State =>
+  prev.level !== next.level ? next : {...next,
+    frog: interpolateFrog(prev, next, alpha),
+    second: prev.second === null || next.second === null ? next.second
+      : {...next.second, frog: interpolateFrog(prev.second, next.second, alpha)},
+    cars: interpolateBodies(prev.cars, next.cars, alpha),
+    buses: interpolateBodies(prev.buses, next.buses, alpha),
+    planks: interpolateBodies(prev.planks, next.planks, alpha),
+    crocs: interpolateBodies(prev.crocs, next.crocs, alpha),
+    snakes: interpolateBodies(prev.snakes, next.snakes, alpha),
+    turtles: interpolateBodies(prev.turtles, next.turtles, alpha)
+  }
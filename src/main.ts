@@ -1,850 +1,583 @@
 import "./style.css";
-import { interval, fromEvent, merge } from "rxjs";
-import { map, filter, scan} from "rxjs/operators";
+import { interval, fromEvent, merge, from, of, range, animationFrameScheduler, Subject, EMPTY } from "rxjs";
+import { webSocket } from "rxjs/webSocket";
+import { map, filter, scan, share, shareReplay, switchMap, mergeMap, takeUntil, withLatestFrom, startWith, pairwise, distinctUntilChanged, skip, take, tap, catchError, endWith } from "rxjs/operators";
+import { Tick, Move, Restart } from "./game";
+import { createClock, advanceClock, interpolate } from "./loop";
+import { Replay, Playback, PlayPause, Seek, Speed, serializeReplay, parseReplay, createPlayback, reducePlayback } from "./replay";
+import { loadLeaderboard, saveLeaderboard } from "./leaderboard";
+import { App, KeyPress, AutoPause, Received, createApp, reduceApp } from "./app";
+import { Message, serverUrl, parseMessage } from "./net";
+import { Lane, LaneKind } from "./level";
+import { Point } from "./hitbox";
+import { Editor, PointerDown, PointerMove, PointerUp, SelectLane, AddLane, AddSpawn, AddBay, RemoveSelected, EditLane, EditLevel, ImportLevel, TogglePreview,
+  createEditor, reduceEditor, serializeLevel, describeLane } from "./editor";
+import { describeScreen, describeEditor } from "./scene";
+import { Renderer, rendererKind, createSvgRenderer, createCanvasRenderer } from "./renderer";
+import { themeFor } from "./theme";
+import { Action, Bindings, Touch, DEFAULTBINDINGS, loadBindings, saveBindings, rebind, keyAction, gestureAction, gamepadActions, actionEvent, bindingLabel } from "./input";
+import { AudioSettings, SILENTSYNTH, loadAudioSettings, saveAudioSettings, createSynth } from "./audio";
 
 /**
  * The main function which contains all the code to run the game.
  */
 function main() {
 
-  /** The section below contains all the classes that will be used for the game*/
-
-  /**
-   * The Vector class which is used to position objects and give movement capabilities to the objects in the game.
-   * 
-   * References:
-   * [1]: Stuff, T. C. (2022, September 2). FRP Asteroids. Tim’s Code Stuff. Retrieved September 6, 2022, from https://tgdwyer.github.io/asteroids/
-   */
-  class Vector{
-
-    /**
-     * Constructor for the Vector class
-     * @param x x-coordinate of the object
-     * @param y y-coordinate of the object
-     */
-    constructor(public readonly x: number = 0, public readonly y: number = 0) {}
-
-    /**
-     * Function that adds a given vector with another vector
-     * @param b The given vector
-     * @returns The sum of the given vector with the other vector
-     */
-    readonly add = (b:Vector) => new Vector(this.x + b.x, this.y + b.y)
-
-    /**
-     * Function that subtracts a vector from a given vector
-     * @param b The given vector
-     * @returns The result of subtracting the given vector with another vector
-     */
-    readonly subtract = (b:Vector) => this.add(b.scale(-1))
-
-    /**
-     * Function that calculates the length of a given vector
-     * @returns The length of the given vector
-     */
-    readonly length = ()=> Math.sqrt(this.x*this.x + this.y*this.y)
-
-    /**
-     * Function that scales a vector with a given number
-     * @param s The given number for scaling
-     * @returns The result of scaling a vector with the given number
-     */
-    readonly scale = (s:number) => new Vector(this.x*s,this.y*s)
-
-    /**
-     * Function that wraps an object that is not the frog(Player) around the canvas if it exceeds the boundaries/limits of the canvas
-     * @param param0 The current vector(position) of the object
-     * @returns The new vector(position) of the object after wrapping around the canvas
-     */
-    static readonly objectTorusWrap = ({ x, y }: Vector) => {
-      return new Vector(x < 0 ? x + 600: x > 600 ? x - 600 : x, y < 40 ? y + 80: y > 560 ? y - 80 : y);
-    }
+  /**
+   * The frames drawn by the browser, each one tells how many ticks of the simulation are due since the last frame
+   */
+  const frames = interval(0, animationFrameScheduler).pipe(
+    map(() => performance.now()),
+    scan(advanceClock, createClock(performance.now())),
+    share()
+  );
 
-    /**
-     * Function that wraps the frog(Player) around the canvas if it exceeds the boundaries/limits of the canvas
-     * @param param0 The current vector(position) of the frog(Player)
-     * @returns The new vector(position) of the frog(Player) after wrapping around the canvas
-     */
-    static readonly frogTorusWrap = ({ x, y }: Vector) => {
-      return new Vector(x < 30 ? x + 585: x > 570 ? x - 585 : x, 
-                        y < 80 ? y + 80 : y <= 80 ? ((x >= 100 && x <= 135) || (x >= 285 && x <= 320) || (x >= 460 && x <= 495) ? y : y + 60) 
-                        : y > 570 ? y - 60 : y)
-    }
+  /**
+   * Function that represents the game clock, it creates as many new instances of the Tick class as are due on every frame,
+   * so the game runs at the same speed however often the browser draws a frame
+   */
+  const gameClock = frames.pipe(
+    mergeMap(c => range(0, c.due)),
+    map((_, elapsed) => new Tick(elapsed))
+  );
 
-    /**
-     * Function that wraps the frog(Player) with the double jump ability around the canvas if it exceeds the boundaries/limits of the canvas
-     * @param param0 The current vector(position) of the frog(Player)
-     * @returns The new vector(position) of the frog(Player) after wrapping around the canvas
-     */
-    static readonly doubleJumpTorusWrap = ({ x, y }: Vector) => {
-      return new Vector(x < 30 ? x + 585: x > 570 ? x - 585 : x,
-                        y <= 80 ? ((x >= 100 && x <= 135) || (x >= 280 && x <= 315) || (x >= 460 && x <= 495) ? (y == 80 ? y : y + 60) : y + 120) 
-                        : y > 570 ? y - 120 : y)
-    }
+  /**
+   * The buttons used to bind keys to the actions of the game, each one is labelled with the action it binds
+   */
+  const bindingButtons = Array.from(document.querySelectorAll<HTMLButtonElement>("#bindings button[data-action]"));
 
-    /**
-     * Zero Vector
-     */
-    static Zero = new Vector();
-  }
+  /**
+   * The keys bound to every action, the user binds a key by clicking the button of an action and pressing the key.
+   * The key pressed to bind an action is not seen by the rest of the game
+   */
+  const bindings = merge(
+    merge(...bindingButtons.map(button => fromEvent(button, "click").pipe(
+      tap(() => button.textContent = "Press a key..."),
+      switchMap(() => fromEvent<KeyboardEvent>(button, "keydown").pipe(take(1))),
+      tap(e => { e.stopPropagation(); e.preventDefault() }),
+      map(e => (b: Bindings) => rebind(b, button.dataset.action as Action, e.key))
+    ))),
+    fromEvent(document.getElementById("resetBindings") as HTMLElement, "click").pipe(map(() => () => DEFAULTBINDINGS))
+  ).pipe(
+    scan((b: Bindings, change: (b: Bindings) => Bindings) => change(b), loadBindings(localStorage)),
+    startWith(loadBindings(localStorage)),
+    shareReplay(1)
+  );
 
   /**
-   * The Tick class which tracks the amount of time passed in the game. One tick is 10 milliseconds
+   * The button used to mute the game and the slider used to change its volume
    */
-  class Tick { 
+  const muteButton = document.getElementById("mute") as HTMLButtonElement;
+  const volumeInput = document.getElementById("volume") as HTMLInputElement;
 
-    /**
-     * Constructor for the Tick class
-     * @param elapsed The amount of time passed in the game
-     */
-    constructor(public readonly elapsed: number) {} 
-  };
+  /**
+   * The audio settings, the user changes them with the mute button and the volume slider
+   */
+  const audioSettings = merge(
+    fromEvent(muteButton, "click").pipe(map(() => (a: AudioSettings) => ({...a, muted: !a.muted}))),
+    fromEvent(volumeInput, "input").pipe(map(() => (a: AudioSettings) => ({...a, volume: Number(volumeInput.value) / 100})))
+  ).pipe(
+    scan((a: AudioSettings, change: (a: AudioSettings) => AudioSettings) => change(a), loadAudioSettings(localStorage)),
+    startWith(loadAudioSettings(localStorage)),
+    shareReplay(1)
+  );
 
   /**
-   * The Move class which tracks the movement of the frog(Player) in the game
+   * The audio context the sounds and the music are played on, browsers only let it play once the user has interacted with the page.
+   * Browsers without Web Audio play the game without sound
    */
-  class Move { 
+  const audioContext = typeof AudioContext === "undefined" ? null : new AudioContext();
+  const synth = audioContext === null ? SILENTSYNTH : createSynth(audioContext, loadAudioSettings(localStorage));
 
-    /**
-     * Constructor for the Move class
-     * @param direction The direction in which the frog(Player) is moving
-     * @param steps The number of steps the frog(Player) should take when moving in the given direction
-     */
-    constructor(public readonly direction: string, public readonly steps: number) {} 
-  };
+  /**
+   * The actions bound to the keys pressed by the user, keys bound to an action do not scroll the page.
+   * Keys typed into the fields of the page are left alone
+   */
+  const keyActions = fromEvent<KeyboardEvent>(document, "keydown").pipe(
+    filter(e => !(e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement)),
+    withLatestFrom(bindings),
+    tap(([e, b]) => { if(keyAction(b, e.key, false) !== null) e.preventDefault() }),
+    map(([e, b]) => keyAction(b, e.key, e.repeat)),
+    filter((a): a is Action => a !== null)
+  );
 
   /**
-   * The Restart class which tracks when the user wants to restart the game
+   * Function that reads where and when a finger touched or left the screen
+   * @param e The touch event
+   * @returns Where and when the finger touched or left the screen
    */
-  class Restart { constructor() {} };
+  const touchOf = (e: TouchEvent): Touch => ({x: e.changedTouches[0].clientX, y: e.changedTouches[0].clientY, time: e.timeStamp});
 
   /**
-   * The RNG class which creates a randomly generated number.
-   * 
-   * References:
-   * [1]: undefined [Tim Dwyer]. (2021, August 26). PiApproximationsFRPSolution [Video]. YouTube. Retrieved September 6, 2022, from https://www.youtube.com/watch?v=RD9v9XHA4x4
+   * The actions of the swipes, taps and long presses of the user on the game
    */
-  class RNG {
+  const gestureActions = merge(...Array.from(document.querySelectorAll("#svgCanvas, #canvas2d")).map(surface =>
+    fromEvent<TouchEvent>(surface, "touchstart").pipe(
+      map(touchOf),
+      switchMap(start => fromEvent<TouchEvent>(surface, "touchend").pipe(
+        take(1),
+        map(e => gestureAction(start, touchOf(e)))
+      ))
+    )
+  ));
 
-    readonly m = 0x80000000
-    readonly a = 1103515245
-    readonly c = 12345
+  /**
+   * The actions of the buttons pressed on the first two connected gamepads, which are read once per frame since gamepads have no events
+   * for buttons. The second gamepad moves the frog of the second player
+   */
+  const padActions = frames.pipe(
+    map(() => Array.from(navigator.getGamepads ? navigator.getGamepads() : [])
+      .filter((pad): pad is Gamepad => pad !== null)
+      .slice(0, 2)
+      .map(pad => pad.buttons.map(button => button.pressed))),
+    startWith([] as ReadonlyArray<ReadonlyArray<boolean>>),
+    pairwise(),
+    mergeMap(([previous, pressed]) => pressed.flatMap((buttons, pad) => gamepadActions(previous[pad] || [], buttons, pad)))
+  );
 
-    /**
-     * Constructor for the RNG class
-     * @param state The current state of the game
-     */
-    constructor(readonly state: number) {}
+  /**
+   * Every action asked for by the user, from any input, as the events fed to the app
+   */
+  const actions = merge(keyActions, gestureActions, padActions).pipe(map(actionEvent));
 
-    /**
-     * Function that returns a randomly generated integer
-     * @returns A randomly generated integer
-     */
-    int() {
-      return (this.a * this.state + this.c) % this.m;
-    }
+  /**
+   * Every key pressed by the user, used to move between screens and to type initials
+   */
+  const keyPresses = fromEvent<KeyboardEvent>(document, "keydown").pipe(map(({key}) => new KeyPress(key, Date.now())));
 
-    /**
-     * Function that returns a randomly generated float
-     * @returns A randomly generated float
-     */
-    float() {
-      return this.int() / (this.m - 1);
-    }
+  /**
+   * Pauses the game whenever the page is hidden or loses focus, so the frog is not run over while the user is away
+   */
+  const autoPauses = merge(
+    fromEvent(document, "visibilitychange").pipe(filter(() => document.hidden)),
+    fromEvent(window, "blur")
+  ).pipe(map(() => new AutoPause()));
 
-    /**
-     * Function that returns a new instance of the RNG class
-     * @returns A new instance of the RNG class
-     */
-    next() {
-      return new RNG(this.int())
+  /**
+   * Function that creates the renderer asked for by the renderer query parameter of the page, either ?renderer=svg or ?renderer=canvas,
+   * and shows the element it draws on. The theme is picked by the theme query parameter, for example ?theme=swamp
+   * @returns The renderer
+   */
+  const pickRenderer = (): Renderer => {
+    const theme = themeFor(window.location.search);
+    const svg = document.querySelector("#svgCanvas") as SVGElement & HTMLElement;
+    const canvas = document.querySelector("#canvas2d") as HTMLCanvasElement;
+    const ctx = canvas.getContext("2d");
+    if(rendererKind(window.location.search) === "canvas" && ctx) {
+      svg.style.display = "none";
+      canvas.hidden = false;
+      return createCanvasRenderer(ctx, href => Object.assign(new Image(), {src: href}), theme);
     }
+    return createSvgRenderer<Element>({
+      create: tag => document.createElementNS(svg.namespaceURI, tag),
+      insert: (e, before) => svg.insertBefore(e, before),
+      remove: e => svg.removeChild(e)
+    }, theme);
   }
 
-  /** The section above contains all the classes that will be used for the game*/
-
-  /** The section below contains all the types that will be used in the game */
-
-  /**
-   * The Key type which represents all the keys that are used in the game, either for movement or restarting the game
-   */
-  type Key = "w" | "a" | "s" | "d" | "r";
-
-  /**
-   * The HTMLElementAttributes type which represents the attributes of the HTMLElement type using key value pairs
-   */
-  type HTMLElementAttributes = { [key: string]: string};
-
-  /**
-   * The Body type which represents the attributes of an object in the game
-   */
-  type Body = Readonly<{
-    id: string,
-    position: Vector,
-    length: number,
-    velocity: Vector,
-    inRiver?: boolean,
-    onLog?: boolean,
-    onCroc?: boolean,
-    onTurtle?: boolean,
-    filled?: boolean,
-    timeOnCroc?: number
-  }>
-
-  /**
-   * The State type which represents the current state of the game
-   */
-  type State = Readonly<{
-    frog: Body,
-    frogCount: number,
-    cars: ReadonlyArray<Body>,
-    buses: ReadonlyArray<Body>,
-    planks: ReadonlyArray<Body>,
-    crocs: ReadonlyArray<Body>,
-    snakes: ReadonlyArray<Body>,
-    turtles: ReadonlyArray<Body>,
-    targetOne: Body,
-    targetTwo: Body,
-    targetThree: Body,
-    jumpPower: Body,
-    doubleJump: boolean,
-    snakeBite: boolean,
-    removables: ReadonlyArray<string>,
-    time: number,
-    reached: boolean,
-    levelBeaten: boolean,
-    gameOver: boolean,
-    restart: boolean,
-    level: number,
-    score: number,
-    highScore: number,
-    rng: RNG
-  }>
-
-  /** The section above contains all the types that will be used in the game */
-  
-  /**
-   * The initial state of the game
-   */
-  const INITIALSTATE: State = {
-    frog: {
-      id: "frog",
-      position: new Vector(300, 560),
-      length: 55,
-      velocity: Vector.Zero,
-      inRiver: false,
-      onLog: false,
-      onCroc: false,
-      onTurtle: false,
-      timeOnCroc: 0
-    },
-    frogCount: 0,
-    cars: Array(4).fill(0).map((_, index) => (<Body>{
-      id: `car${index}`,
-      position: new Vector(index * 300, 480),
-      length: 25,
-      velocity: new Vector(3, 0)
-    })),
-    buses: Array(4).fill(0).map((_, index) => (<Body>{
-      id: `bus${index}`,
-      position: new Vector(index * 300, 425),
-      length: 40,
-      velocity: new Vector(-2, 0)
-    })),
-    planks: Array(4).fill(0).map((_, index) => (<Body>{
-      id: `plank${index}`,
-      position: new Vector(index * 300, 240),
-      length: 60,
-      velocity: new Vector(2, 0)
-    })),
-    crocs: Array(4).fill(0).map((_, index) => (<Body>{
-      id: `croc${index}`,
-      position: new Vector(index * 200, 185),
-      length: 50,
-      velocity: new Vector(-1, 0)
-    })),
-    snakes: Array(4).fill(0).map((_, index) => (<Body>{
-      id: `snake${index}`,
-      position: new Vector(index * 300, 380),
-      length: 40,
-      velocity: new Vector(1, 0)
-    })),
-    turtles: Array(4).fill(0).map((_, index) => (<Body>{
-      id: `turtle${index}`,
-      position: new Vector(index * 200, 130),
-      length: 60,
-      velocity: new Vector(-2, 0),
-    })),
-    targetOne: {
-      id: "targetone",
-      position: new Vector(80, 35),
-      length: -20,
-      velocity: Vector.Zero
-    },
-    targetTwo: {
-      id: "targetwo",
-      position: new Vector(260, 35),
-      length: -20,
-      velocity: Vector.Zero
-    },
-    targetThree: {
-      id: "targetthree",
-      position: new Vector(440, 35),
-      length: -20,
-      velocity: Vector.Zero
-    },
-    jumpPower: {
-      id: "jumpPower",
-      position: new Vector(Math.round(new RNG(1).float() * 600), Math.round(new RNG(1).next().float() * 300 + 200)),
-      length: 2,
-      velocity: Vector.Zero
-    },
-    snakeBite: false,
-    doubleJump: false,
-    removables: [],
-    time: 0,
-    reached: false,
-    levelBeaten: false,
-    gameOver: false,
-    restart: false,
-    level: 1,
-    score: 0,
-    highScore: 0,
-    rng: new RNG(1)
-  };
-
   /**
-   * Function that represents the game clock, it generates a constant stream of numbers which are used to create new instances of the Tick class to create the game clock.
+   * The renderer which draws the game
    */
-  const gameClock = interval(10).pipe(map(elapsed => new Tick(elapsed)));
+  const renderer = pickRenderer();
 
   /**
-   * Function that observes the key pressed by the user and checks if it matches the given key of type Key
-   * @param k The given key
-   * @param result Function that returns an instance of a class if keypress matches given key
-   * @returns An instance of a class based on the keypress if it matches the given key
+   * Function that updates the replay controls to match the playback of a replay
+   * @param p The current playback
    */
-  const keyObserve = <T>(k: Key, result:() => T) => 
-    fromEvent<KeyboardEvent>(document, "keydown")
-      .pipe(
-        map(({key}) => key),
-        filter(key => key === k),
-        map(result)
-      )
-
-  const moveLeft = keyObserve("a", () => new Move("a", -45));
-  const moveRight = keyObserve("d", () => new Move("d", 45));
-  const moveUp = keyObserve("w", () => new Move("w", -60));
-  const moveDown = keyObserve("s", () => new Move("s", 60));
-  const restart = keyObserve("r", () => new Restart());
+  const updatePlaybackControls = (p: Playback): void => {
+    (document.getElementById("playPause") as HTMLButtonElement).textContent = p.playing ? "Pause" : "Play";
+    const seek = document.getElementById("seek") as HTMLInputElement;
+    seek.max = `${p.events.length}`;
+    seek.value = `${p.index}`;
+  }
 
   /**
-   * Function that gives continuous movement to the given object
-   * @param b The given object
-   * @returns The given object but with continuous movement
+   * Function that saves the given replay as a file on the user's computer
+   * @param r The given replay
    */
-  const moveObject = (b: Body) => <Body>{
-    ...b,
-    position: Vector.objectTorusWrap(b.position.add(b.velocity))
+  const downloadReplay = (r: Replay): void => {
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(new Blob([serializeReplay(r)], {type: "application/json"}));
+    a.download = `frogger-replay-${r.seed}.json`;
+    a.click();
+    URL.revokeObjectURL(a.href);
   }
 
   /**
-   * Function that gives continuous movement to the frog(Player) matching the velocity of the object it is standing on
-   * This only occurs if the frog is standing on an object in the River section
-   * @param b The frog(Player)
-   * @returns The frog(Player) but with continuous movement matching the velocity of the object it is standing on
+   * Function that reads a replay from the contents of a replay file
+   * @param json The contents of the replay file
+   * @returns The replay, or the error explaining why the file is not a valid replay
    */
-  const moveFrog = (b: Body) => <Body>{
-    ...b,
-    position: Vector.frogTorusWrap((b.position).add(b.velocity))
+  const readReplay = (json: string): Replay | Error => {
+    try {
+      return parseReplay(json);
+    } catch (err) {
+      return err instanceof Error ? err : new Error("Replay file could not be read");
+    }
   }
 
-  /** The section below contains all the functions used to create views of all the objects in the game */
+  /**
+   * The connection to the relay server used to play online, the address is given by the server query parameter of the page,
+   * for example ?server=ws://example.com:8080, or is on the same host as the page otherwise
+   */
+  const socket = webSocket<Message>({
+    url: serverUrl(window.location.search, window.location.hostname),
+    deserializer: e => parseMessage(e.data)
+  });
 
   /**
-   * Function that creates a HTMLElementAttributes type object containing the attributes to create the view of the frog(Player) 
-   * @param b The frog(Player)
-   * @returns An object containing the attributes of the view of the frog(Player)
+   * The messages received from the relay server
    */
-  const createFrog = (b: Body): HTMLElementAttributes => ({
-    id: b.id,
-    r: "25",
-    style: "fill:chartreuse"
-  })
+  const received = new Subject<Received>();
 
   /**
-   * Function that creates a HTMLElementAttributes type object containing the attributes to create the view of a static frog.
-   * The static frog replaces the player's frog when a target is filled
-   * @param s The current state of the game
-   * @returns An object containing the attributes of the view of the frog(Player)
+   * All the events of the app, the app decides which of them are fed to the game
    */
-  const createStaticFrog = (s: State): HTMLElementAttributes => ({
-    id: `frog${s.frogCount}`,
-    r: "25",
-    style: "fill:chartreuse"
-  })
+  const events = merge(actions, gameClock, keyPresses, autoPauses, received);
 
   /**
-   * Function that creates a HTMLElementAttributes type object containing the attributes to create the view of the car
-   * @param b The car
-   * @returns An object containing the attributes of the view of the car
+   * The replays loaded by the user from a replay file
    */
-  const createCar = (b: Body): HTMLElementAttributes => ({
-    id: b.id,
-    width: "60",
-    height: "30",
-    style: "fill:red"
-  })
+  const loadReplayInput = document.getElementById("loadReplay") as HTMLInputElement;
+  const loadedReplays = fromEvent(loadReplayInput, "change").pipe(
+    map(() => loadReplayInput.files ? loadReplayInput.files[0] : undefined),
+    filter((f): f is File => f !== undefined),
+    switchMap(f => from(f.text())),
+    map(readReplay),
+    share()
+  );
+  const replays = loadedReplays.pipe(filter((r): r is Replay => !(r instanceof Error)));
 
   /**
-   * Function that creates a HTMLElementAttributes type object containing the attributes to create the view of the bus
-   * @param b The bus
-   * @returns An object containing the attributes of the view of the bus
+   * What the canvas is used for, the game until the user opens the level editor or starts watching a replay.
+   * Closing the level editor or the replay goes back to the game
    */
-  const createBus = (b: Body): HTMLElementAttributes => ({
-    id: b.id,
-    width: "80",
-    height: "30",
-    style: "fill:yellow"
-  })
+  const modes = merge(
+    fromEvent(document.getElementById("openEditor") as HTMLElement, "click").pipe(map(() => "editor" as const)),
+    fromEvent(document.getElementById("closeEditor") as HTMLElement, "click").pipe(map(() => "game" as const)),
+    fromEvent(document.getElementById("closeReplay") as HTMLElement, "click").pipe(map(() => "game" as const)),
+    replays.pipe(map(() => "replay" as const))
+  ).pipe(
+    startWith("game" as const),
+    distinctUntilChanged(),
+    shareReplay(1)
+  );
 
   /**
-   * Function that creates a HTMLElementAttributes type object containing the attributes to create the view of the plank
-   * @param b The plank
-   * @returns An object containing the attributes of the view of the plank
+   * Function that creates a new app, with a new seed and the leaderboard as it is saved
+   * @returns The app
    */
-  const createPlank = (b: Body): HTMLElementAttributes => ({
-    id: b.id,
-    width: "120",
-    height: "30",
-    style: "fill:brown"
-  })
-
+  const newApp = (): App => createApp(Math.floor(Math.random() * 0x80000000), loadLeaderboard(localStorage));
+
   /**
-   * Function that creates a HTMLElementAttributes type object containing the attributes to create the view of the crocodile
-   * @param b The crocodile
-   * @returns An object containing the attributes of the view of the crocodile
-   */
-  const createCroc = (b: Body): HTMLElementAttributes => ({
-    id: b.id,
-    width: "100",
-    height: "30",
-    style: "fill:darkgreen"
-  })
-
-  /**
-   * Function that creates a HTMLElementAttributes type object containing the attributes to create the view of the snake
-   * @param b The snake
-   * @returns An object containing the attributes of the view of the snake
-   */
-  const createSnake = (b: Body): HTMLElementAttributes => ({
-    id: b.id,
-    width: "80",
-    height: "5",
-    style: "fill:forestgreen"
-  })
-
-  /**
-   * Function that creates a HTMLElementAttributes type object containing the attributes to create the view of the turtle
-   * @param b The turtle
-   * @returns An object containing the attributes of the view of the turtle
-   */
-  const createTurtle = (b: Body): HTMLElementAttributes => ({
-    id: b.id,
-    width: "120",
-    height: "30",
-    style: "fill:green"
-  })
-
-  /**
-   * Function that creates a HTMLElementAttributes type object containing the attributes to create the view of the target
-   * @param b The target
-   * @returns An object containing the attributes of the view of the target
-   */
-  const createTarget = (b: Body): HTMLElementAttributes => ({
-    id: b.id,
-    width: "80",
-    height: "70",
-    style: "fill:purple"
-  })
-
-  /**
-   * Function that creates a HTMLElementAttributes type object containing the attributes to create the view of the jump powerup
-   * @param b The jump powerup
-   * @returns An object containing the attributes of the view of the jump powerup
-   */
-  const createJump = (b: Body): HTMLElementAttributes => ({
-    id: b.id,
-    width: "20",
-    height: "20",
-    style: "fill:black"
-  })
-
-  /** The section above contains all the functions used to create views of all the objects in the game */
-
-  /**
-   * Function that contains all the necessary code for creating collisions in the game
-   * @param s The current state of the game
-   * @returns The state of the game after handling all possible collisions
-   */
-  const collisionHandler = (s: State) => {
-
-    /**
-     * Function that checks if collision occurs between two objects
-     * @param param0 Array containing the two objects
-     * @returns True if a collision occurs, false otherwise
-     */
-    const bodiesCollided = ([a,b]:[Body,Body]) => a.position.x > b.position.x && (a.position.y - b.position.y <= 20 && a.position.y - b.position.y >= -20) 
-                                                ? a.position.subtract(b.position).length() <  a.length + b.length
-                                                  : b.position.subtract(a.position).length() < a.length - b.length;
-
-    /**
-     * Checks if the frog(Player) collides with any objects in the game
-     * The frog dies when colliding with a car or a bus
-     * The frog is able to stand on a plank, crocodile or turtle while in the River section
-     */
-    const frogCollided = s.cars.filter(c => bodiesCollided([s.frog, c])).length > 0 
-                          || s.buses.filter(b => bodiesCollided([s.frog, b])).length > 0
-                          ||(
-                            !(s.planks.filter(p => bodiesCollided([s.frog, p])).length > 0 
-                              || s.crocs.filter(c => bodiesCollided([s.frog, c])).length > 0
-                              || s.turtles.filter(t => bodiesCollided([s.frog, t])).length > 0) && s.frog.inRiver
-                            ) 
-
-    /**
-     * Checks if the frog(Player) has filled a target (collided with the target)
-     */
-    const frogReached = bodiesCollided([s.frog, s.targetOne]) || bodiesCollided([s.frog, s.targetTwo]) || bodiesCollided([s.frog, s.targetThree])
-
-    /**
-     * Checks if the frog(Player) has picked up a powerup (collided with the powerup)
-     */
-    const powerUp = bodiesCollided([s.frog, s.jumpPower])
-
-    return <State>{
-      ...s,
-      frog: moveFrog({
-        ...s.frog,
-        onLog: (s.planks.filter(p => bodiesCollided([s.frog, p])).length > 0) && s.frog.inRiver,
-        onCroc: (s.crocs.filter(c => bodiesCollided([s.frog, c])).length > 0) && s.frog.inRiver,
-        onTurtle: (s.turtles.filter(t => bodiesCollided([s.frog, t])).length > 0) && s.frog.inRiver,
-        velocity: s.frog.onLog ? s.planks[0].velocity : s.frog.onCroc ? s.crocs[0].velocity : s.frog.onTurtle ? s.turtles[0].velocity : s.snakeBite ? s.snakes[0].velocity : Vector.Zero, 
-      }),
-      doubleJump: s.doubleJump ? s.doubleJump : powerUp,
-      snakeBite: s.snakeBite ? s.snakeBite : s.snakes.filter(sn => bodiesCollided([s.frog, sn])).length > 0,
-      targetOne: {...s.targetOne, filled: s.targetOne.filled ? s.targetOne.filled : bodiesCollided([s.frog, s.targetOne])},
-      targetTwo: {...s.targetTwo, filled: s.targetTwo.filled ? s.targetTwo.filled : bodiesCollided([s.frog, s.targetTwo])},
-      targetThree: {...s.targetThree, filled: s.targetThree.filled ? s.targetThree.filled : bodiesCollided([s.frog, s.targetThree])},
-      score: s.score + (!s.targetOne.filled && bodiesCollided([s.frog, s.targetOne]) ? 300 : 0) 
-                     + (!s.targetTwo.filled && bodiesCollided([s.frog, s.targetTwo]) ? 300 : 0) 
-                     + (!s.targetThree.filled && bodiesCollided([s.frog, s.targetThree]) ? 300 : 0),
-      highScore: s.score + (!s.targetOne.filled && bodiesCollided([s.frog, s.targetOne]) ? 300 : 0) 
-                      + (!s.targetTwo.filled && bodiesCollided([s.frog, s.targetTwo]) ? 300 : 0) 
-                      + (!s.targetThree.filled && bodiesCollided([s.frog, s.targetThree]) ? 300 : 0) > s.highScore 
-                      ? s.score + (!s.targetOne.filled && bodiesCollided([s.frog, s.targetOne]) ? 300 : 0) 
-                            + (!s.targetTwo.filled && bodiesCollided([s.frog, s.targetTwo]) ? 300 : 0) 
-                            + (!s.targetThree.filled && bodiesCollided([s.frog, s.targetThree]) ? 300 : 0)
-                      : s.highScore,
-      reached: frogReached,
-      gameOver: frogCollided
-    }
-  }
+   * The state of the app, a new app is started every time the user goes back to the game and it stops while the canvas is used for
+   * anything else. The app records every event it feeds to the game, so the recording matches exactly what the game saw
+   */
+  const app = modes.pipe(
+    map(mode => mode === "game" ? newApp() : null),
+    switchMap(a => a === null ? EMPTY : events.pipe(
+      scan(reduceApp, a),
+      startWith(a)
+    )),
+    shareReplay(1)
+  );
 
   /**
-   * The most important function in the game, it checks every tick for changes to the state of the game
-   * @param s The current state of the game
-   * @param elapsed The time elapsed in the game
-   * @returns New state of the game
-   */
-  const tick = (s: State, elapsed: number): State => {
-
-    /**
-     * Check if all three distinct targets have been filled
-     * If so, reset the game to initial state while keeping the current score and increase difficulty
-     */
-    if(s.targetOne.filled && s.targetTwo.filled && s.targetThree.filled) {
-      return {...INITIALSTATE, 
-        cars: Array(4).fill(0).map((_, index) => (<Body>{
-          id: `car${index}`,
-          position: new Vector(index * 300, 480),
-          length: 25,
-          velocity: s.cars[0].velocity.add(new Vector(0.2, 0))
-        })),
-        buses: Array(4).fill(0).map((_, index) => (<Body>{
-          id: `bus${index}`,
-          position: new Vector(index * 300, 425),
-          length: 40,
-          velocity: s.buses[0].velocity.subtract(new Vector(0.2, 0))
-        })),
-        planks: Array(4).fill(0).map((_, index) => (<Body>{
-          id: `plank${index}`,
-          position: new Vector(index * 300, 240),
-          length: 60,
-          velocity: s.planks[0].velocity.add(new Vector(0.2, 0))
-        })),
-        crocs: Array(4).fill(0).map((_, index) => (<Body>{
-          id: `croc${index}`,
-          position: new Vector(index * 200, 185),
-          length: 50,
-          velocity: s.crocs[0].velocity.subtract(new Vector(0.2, 0))
-        })),
-        snakes: Array(4).fill(0).map((_, index) => (<Body>{
-          id: `snake${index}`,
-          position: new Vector(index * 300, 370),
-          length: 40,
-          velocity: s.snakes[0].velocity.add(new Vector(0.2, 0))
-        })),
-        turtles: Array(4).fill(0).map((_, index) => (<Body>{
-          id: `turtle${index}`,
-          position: new Vector(index * 200, 130),
-          length: 60,
-          velocity: s.turtles[0].velocity.subtract(new Vector(0.2, 0)),
-        })),
-        removables: s.removables.concat(`frog${s.frogCount}`),
-        levelBeaten: true,
-        level: s.level + 1,
-        score: s.score + 500,
-        highScore: s.score + 500 >= s.highScore ? s.score + 500 : s.highScore,
-        rng: s.rng.next(),
-        jumpPower: {
-          ...s.jumpPower,
-          position: new Vector(Math.round(s.rng.float() * 600), Math.round(s.rng.next().float() * 300 + 200))
-        }
-      }
-    }
+   * The states of the game at the two latest ticks, frames are drawn between them. The first state is paired with itself
+   */
+  const simulated = app.pipe(
+    distinctUntilChanged((prev, a) => prev.ticks === a.ticks),
+    map(a => a.game),
+    mergeMap((game, index) => index === 0 ? [game, game] : [game]),
+    pairwise()
+  );
 
-    /**
-     * Check if game over or whether the frog(Player) has been on any crocodile for more than 2.5 seconds
-     */
-    if((s.frog.timeOnCroc as number) > 250 || s.gameOver) {
-      return {...s,
-        gameOver: true
-      }
-    }
+  /**
+   * The controls the user can use while watching a replay
+   */
+  const seekInput = document.getElementById("seek") as HTMLInputElement;
+  const speedSelect = document.getElementById("speed") as HTMLSelectElement;
+  const playbackControls = merge(
+    fromEvent(document.getElementById("playPause") as HTMLElement, "click").pipe(map(() => new PlayPause())),
+    fromEvent(seekInput, "input").pipe(map(() => new Seek(Number(seekInput.value)))),
+    fromEvent(speedSelect, "change").pipe(map(() => new Speed(Number(speedSelect.value))))
+  );
 
-    /**
-     * Check if the frog(Player) has filled a target
-     * If so, reset the game to initial state while keeping the score and the view of the filled target
-     */
-    if(s.reached) {
-      return { ...INITIALSTATE,
-        frogCount: s.frogCount + 1,
-        cars: s.cars,
-        buses: s.buses,
-        planks: s.planks,
-        crocs: s.crocs,
-        snakes: s.snakes,
-        turtles: s.turtles,
-        targetOne: s.targetOne,
-        targetTwo: s.targetTwo,
-        targetThree: s.targetThree,
-        level: s.level,
-        time: s.time,
-        doubleJump: s.doubleJump,
-        removables: s.removables.concat(`frog${s.frogCount}`),
-        reached: false,
-        score: s.score, 
-        highScore: s.highScore,
-        rng: s.rng.next(),
-        jumpPower: {
-          ...s.jumpPower,
-          position: new Vector(Math.round(s.rng.float() * 600), Math.round(s.rng.next().float() * 300 + 200))
-        }
-      }
-    }
-    return collisionHandler({...s,
-    frog: {...s.frog, 
-    inRiver: s.frog.position.y <= 260 && s.frog.position.y > 80,
-    timeOnCroc: s.frog.onCroc ? (s.frog.timeOnCroc as number) + 1 : 0
-    },
-    time: elapsed,
-    cars: s.cars.map(moveObject),
-    buses: s.buses.map(moveObject),
-    planks: s.planks.map(moveObject),
-    crocs: s.crocs.map(moveObject),
-    snakes: s.snakes.map(moveObject),
-    turtles: s.turtles.map(moveObject),
-    })
+  /**
+   * Function that finds where a pointer is on the game, in the coordinates of the game however big the game is drawn on the page
+   * @param surface The element the game is drawn on
+   * @param e The pointer event
+   * @returns Where the pointer is on the game
+   */
+  const pointOf = (surface: Element, e: PointerEvent): Point => {
+    const box = surface.getBoundingClientRect();
+    return {x: (e.clientX - box.left) * 600 / box.width, y: (e.clientY - box.top) * 600 / box.height};
   }
 
   /**
-   * Function that returns a new state of the game based on the user input or tick
-   * @param s The current state of the game
-   * @param e The event that has occured based on the user input or tick
-   * @returns A new state of the game based on the user input or tick
-   */
-  const reduceState = (s: State, e:Move | Tick | Restart) =>
-    {
-      return e instanceof Move ? s.gameOver ? s 
-      : {...s, 
-        frog: {
-          ...s.frog,
-          //Check if the frog(Player) has been bitten by a snake and if the frog(Player) has the double jump power up
-          position: s.snakeBite ? s.frog.position : s.doubleJump ? Vector.doubleJumpTorusWrap(new Vector(
-            e.direction === "a" || e.direction === "d" ? s.frog.position.x + e.steps: s.frog.position.x,
-              e.direction === "w" || e.direction === "s" ? s.frog.position.y + e.steps * 2 : s.frog.position.y
-              )) : Vector.frogTorusWrap(new Vector(
-            e.direction === "a" || e.direction === "d" ? s.frog.position.x + e.steps : s.frog.position.x,
-              e.direction === "w" || e.direction === "s" ? s.frog.position.y + e.steps : s.frog.position.y
-              )),
-          velocity: Vector.Zero
-        }
-      } : e instanceof Restart ? {...INITIALSTATE,frogCount: s.frogCount, removables: s.removables, restart: true, highScore: s.highScore}
-      : tick(s, e.elapsed);
-    }
-  
+   * The user pressing, dragging and letting go of the game in the level editor, a drag carries on when the pointer leaves the game
+   */
+  const pointerEvents = merge(...Array.from(document.querySelectorAll("#svgCanvas, #canvas2d")).map(surface =>
+    fromEvent<PointerEvent>(surface, "pointerdown").pipe(
+      switchMap(down => {
+        const up = fromEvent(document, "pointerup").pipe(take(1));
+        return merge(
+          of(new PointerDown(pointOf(surface, down))),
+          fromEvent<PointerEvent>(document, "pointermove").pipe(takeUntil(up), map(e => new PointerMove(pointOf(surface, e)))),
+          up.pipe(map(() => new PointerUp()))
+        );
+      })
+    )
+  ));
+
   /**
-   * Function that updates the view of the game
-   * @param s The current state of the game
+   * Function that reads the value of a field of the editor panel used to change the selected lane
+   * @param field The field
+   * @returns The value of the field, as the type of the field of the lane it changes
    */
-  const updateView = (s: State): void => {
+  const fieldValue = (field: HTMLInputElement | HTMLSelectElement): string | number | boolean =>
+    field instanceof HTMLInputElement && field.type === "checkbox" ? field.checked
+    : field instanceof HTMLSelectElement ? field.value
+    : Number(field.value);
 
-    /**
-     * The all important canvas
-     */
-    const svg = document.querySelector("#svgCanvas") as SVGElement & HTMLElement;
+  /**
+   * The fields of the editor panel
+   */
+  const editorPanel = document.getElementById("editor") as HTMLElement;
+  const levelNameInput = document.getElementById("levelName") as HTMLInputElement;
+  const levelTimerInput = document.getElementById("levelTimer") as HTMLInputElement;
+  const lurkingCrocsInput = document.getElementById("lurkingCrocs") as HTMLInputElement;
+  const lanesSelect = document.getElementById("lanes") as HTMLSelectElement;
+  const newLaneKindSelect = document.getElementById("newLaneKind") as HTMLSelectElement;
+  const laneFields = Array.from(document.querySelectorAll<HTMLInputElement | HTMLSelectElement>("#laneFields [data-field]"));
+  const importLevelInput = document.getElementById("importLevel") as HTMLInputElement;
 
-    /**
-     * Helper function that bulk sets properties on a given element based on a given object containing key value pairs of the attributes of the element
-     * @param e The given element
-     * @returns A function that takes an input of an object containing key value pairs and bulk sets the properties of the given element
-     */
-    const attr = (e: Element) => (k: {[key: string]: string}) => {
-      Object.keys(k).forEach(key => e.setAttribute(key, k[key]));
-    }
+  /**
+   * The changes made by the user from the editor panel
+   */
+  const panelEvents = merge(
+    fromEvent(levelNameInput, "change").pipe(map(() => new EditLevel({name: levelNameInput.value}))),
+    fromEvent(levelTimerInput, "change").pipe(map(() => new EditLevel({timer: Number(levelTimerInput.value)}))),
+    fromEvent(lurkingCrocsInput, "change").pipe(map(() => new EditLevel({lurkingCrocs: lurkingCrocsInput.checked}))),
+    fromEvent(lanesSelect, "change").pipe(map(() => new SelectLane(Number(lanesSelect.value)))),
+    fromEvent(document.getElementById("addLane") as HTMLElement, "click").pipe(map(() => new AddLane(newLaneKindSelect.value as LaneKind))),
+    fromEvent(document.getElementById("addSpawn") as HTMLElement, "click").pipe(map(() => new AddSpawn())),
+    fromEvent(document.getElementById("addBay") as HTMLElement, "click").pipe(map(() => new AddBay())),
+    fromEvent(document.getElementById("removeSelected") as HTMLElement, "click").pipe(map(() => new RemoveSelected())),
+    fromEvent(document.getElementById("previewToggle") as HTMLElement, "click").pipe(map(() => new TogglePreview())),
+    merge(...laneFields.map(field => fromEvent(field, "change").pipe(
+      map(() => new EditLane({[field.dataset.field as string]: fieldValue(field)} as Partial<Lane>))
+    ))),
+    fromEvent(importLevelInput, "change").pipe(
+      map(() => importLevelInput.files ? importLevelInput.files[0] : undefined),
+      filter((f): f is File => f !== undefined),
+      switchMap(f => from(f.text())),
+      map(json => new ImportLevel(json))
+    )
+  );
 
-    /**
-     * Helper function that creates an element based on the given element type and given element attributes
-     * @param elementType The given element type
-     * @param obj The given element attributes
-     * @returns The created element
-     */
-    const createElementById = (elementType: string, obj: HTMLElementAttributes): Element => {
-      const v = document.createElementNS(svg.namespaceURI, elementType);
-      attr(v)(obj);
-      svg.appendChild(v);
-      return v;
-    }
+  /**
+   * The state of the level editor, a new editor is started every time the user opens it.
+   * The frog can be moved and restarted to play the level while it is edited
+   */
+  const editor = modes.pipe(
+    map(mode => mode === "editor" ? createEditor() : null),
+    switchMap(e => e === null ? EMPTY : merge(
+      gameClock,
+      actions.pipe(filter((ev): ev is Move | Restart => ev instanceof Move || ev instanceof Restart)),
+      pointerEvents,
+      panelEvents
+    ).pipe(
+      scan(reduceEditor, e),
+      startWith(e)
+    )),
+    shareReplay(1)
+  );
 
-    /**
-     * Helper function that removes an element from the canvas based on the given id
-     * @param id The given id of the element
-     */
-    const removeElementById = (id: string) => {
-      const v = document.getElementById(id);
-      if (v) svg.removeChild(v);
-    }
+  /**
+   * Function that updates the editor panel to match the level being edited, the fields of the selected lane are only shown
+   * while a lane is selected
+   * @param e The current state of the editor
+   */
+  const updateEditorPanel = (e: Editor): void => {
+    const lane = e.selected !== null && e.selected.kind === "lane" ? e.level.lanes[e.selected.index] : null;
+    levelNameInput.value = e.level.name;
+    levelTimerInput.value = `${e.level.timer}`;
+    lurkingCrocsInput.checked = e.level.lurkingCrocs;
+    lanesSelect.replaceChildren(...e.level.lanes.map((l, index) => new Option(describeLane(l, index), `${index}`, false, l === lane)));
+    (document.getElementById("laneFields") as HTMLElement).hidden = lane === null;
+    laneFields.forEach(field => {
+      const value = lane === null ? "" : lane[field.dataset.field as keyof Lane];
+      if(field instanceof HTMLInputElement && field.type === "checkbox") field.checked = value === true;
+      else field.value = `${value}`;
+    });
+    (document.getElementById("previewToggle") as HTMLElement).textContent = e.running ? "Stop Preview" : "Run Preview";
+    (document.getElementById("editorStatus") as HTMLElement).textContent = e.errors.join(" ");
+  }
 
-    /**
-     * Check if the frog(Player) has the double jump ability
-     * If so, remove the power up from view
-     */
-    if(s.doubleJump) {
-      removeElementById(s.jumpPower.id)
-    }
+  /**
+   * Function that saves the given level as a level file on the user's computer
+   * @param e The current state of the editor
+   */
+  const downloadLevel = (e: Editor): void => {
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(new Blob([serializeLevel(e.level)], {type: "application/json"}));
+    a.download = `${e.level.name}.json`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  }
 
-    /**
-     * Check if the user has beaten the level or prompted to restart the game
-     * If so, remove all filled targets on the screen and the game over text
-     */
-    if(s.restart || s.levelBeaten) {
-      removeElementById("gameOver")
-      s.removables.forEach(r => removeElementById(r)) 
-    }
+  /**
+   * Function that updates the view of the game once per frame, after the ticks due for the frame have been simulated
+   * While the game is running objects are drawn between the two latest ticks, otherwise the game is drawn as it is
+   */
+  const subscription = modes
+    .pipe(switchMap(mode => mode === "game" ? frames.pipe(withLatestFrom(app, simulated)) : EMPTY))
+    .subscribe(([c, a, [prev, game]]) => {
+      renderer.draw(a.screen === "playing" && !a.paused ? interpolate(prev, game, c.alpha) : a.game, describeScreen(a));
+    });
 
-    /**
-     * Check if it is game over
-     * If so, display game over text
-     */
-    if(s.gameOver) {
-      const v = document.createElementNS(svg.namespaceURI, "text");
-      attr(v)({x:"150", y:"300", class:"gameover", style:"fill:red", id:"gameOver"});
-      v.textContent = "Game Over";
-      svg.appendChild(v);
-    }
+  /**
+   * Function that keeps the connection to the relay server open while the user is joining a room or playing online,
+   * and feeds the messages received to the app. The user is told when the connection fails or is closed
+   */
+  const connectionSubscription = app
+    .pipe(
+      map(a => a.online !== null || a.lobby.status === "connecting" || a.lobby.status === "waiting"),
+      distinctUntilChanged(),
+      switchMap(open => open ? socket.pipe(
+        map(m => new Received(m)),
+        catchError(() => EMPTY),
+        endWith(new Received({type: "error", message: "Lost the connection to the relay server"}))
+      ) : EMPTY)
+    )
+    .subscribe(r => received.next(r));
 
-    /**
-     * Check if the frog(Player) has filled a target
-     * If so, create a static frog to replace the player's frog
-     */
-    if(s.reached) {
-      attr(createElementById("circle", createStaticFrog(s)))({transform: `translate(${s.frog.position.x}, ${s.frog.position.y})`})
-    }
-    /**
-     * Updates the view of all objects in the game if the frog(Player) is not filling a target
-     */
-    else {
-      s.cars.forEach(car => attr(document.getElementById(car.id) ? document.getElementById(car.id) as HTMLElement : createElementById("rect", createCar(car)))({
-        transform: `translate(${car.position.x}, ${car.position.y})`
-      }))
-      s.buses.forEach(bus => attr(document.getElementById(bus.id) ? document.getElementById(bus.id) as HTMLElement : createElementById("rect", createBus(bus)))({
-        transform: `translate(${bus.position.x}, ${bus.position.y})`
-      }))
-      s.planks.forEach(plank => attr(document.getElementById(plank.id) ? document.getElementById(plank.id) as HTMLElement : createElementById("rect", createPlank(plank)))({
-        transform: `translate(${plank.position.x}, ${plank.position.y})`
-      }))
-      s.crocs.forEach(croc => attr(document.getElementById(croc.id) ? document.getElementById(croc.id) as HTMLElement : createElementById("rect", createCroc(croc)))({
-        transform: `translate(${croc.position.x}, ${croc.position.y})`
-      }))
-      s.snakes.forEach(snake => attr(document.getElementById(snake.id) ? document.getElementById(snake.id) as HTMLElement : createElementById("rect", createSnake(snake)))({
-        transform: `translate(${snake.position.x}, ${snake.position.y})`
-      }))
-      s.turtles.forEach(turtle => attr(document.getElementById(turtle.id) ? document.getElementById(turtle.id) as HTMLElement : createElementById("rect", createTurtle(turtle)))({
-        transform: `translate(${turtle.position.x}, ${turtle.position.y})`
-      }))
-      attr(document.getElementById(s.targetOne.id) ? document.getElementById(s.targetOne.id) as HTMLElement: createElementById("rect", createTarget(s.targetOne)))
-      ({transform: `translate(${s.targetOne.position.x}, ${s.targetOne.position.y})`})
-      attr(document.getElementById(s.targetTwo.id) ? document.getElementById(s.targetTwo.id) as HTMLElement: createElementById("rect", createTarget(s.targetTwo)))
-      ({transform: `translate(${s.targetTwo.position.x}, ${s.targetTwo.position.y})`})
-      attr(document.getElementById(s.targetThree.id) ? document.getElementById(s.targetThree.id) as HTMLElement: createElementById("rect", createTarget(s.targetThree)))
-      ({transform: `translate(${s.targetThree.position.x}, ${s.targetThree.position.y})`})
-    }
+  /**
+   * Function that sends the messages of the app to the relay server, messages sent while connecting are sent once it is connected
+   */
+  const outboxSubscription = app.subscribe(a => a.outbox.forEach(m => socket.next(m)));
 
-    /**
-     * If the frog(Player) has been bitten by a snake (collided with the snake), transform the frog(Player) into a snake
-     * This is done by removing the frog from the screen and creating the snake under the frog's id
-     */
-     if(s.snakeBite){
-      removeElementById(s.frog.id)
-      attr(document.getElementById(s.frog.id) ? document.getElementById(s.frog.id) as HTMLElement : createElementById("rect", createSnake(s.frog)))
-      ({transform: `translate(${s.frog.position.x}, ${s.frog.position.y})`})
-    }
-    /**
-     * Update the view of the frog(Player)
-     */
-    else{
-      removeElementById(s.frog.id)
-      attr(document.getElementById(s.frog.id) ? document.getElementById(s.frog.id) as HTMLElement : createElementById("circle", createFrog(s.frog)))
-      ({transform: `translate(${s.frog.position.x}, ${s.frog.position.y})`})
-    }
-    
-    /**
-     * If the frog(Player) does not have the double jump powerup (which means that there should be a double jump powerup on the canvas).
-     * create the view of the double jump powerup
-     */
-    if(!s.doubleJump){
-    attr(document.getElementById(s.jumpPower.id) ? document.getElementById(s.jumpPower.id) as HTMLElement: createElementById("rect", createJump(s.jumpPower)))
-    ({transform: `translate(${s.jumpPower.position.x}, ${s.jumpPower.position.y})`})
-    }
-    
-    /**
-     * Update the current level, score and highscore
-     */
-    removeElementById("score");
-    const v = document.createElementNS(svg.namespaceURI, "text");
-    attr(v)({x:"30", y:"330", class:"score", style:"fill:black", id:"score"});
-    v.textContent = `Level: ${s.level} | Score: ${s.score} | Highscore: ${s.highScore}`;
-    svg.appendChild(v);
-  }
+  /**
+   * Function that saves the bindings and labels the buttons used to bind keys whenever they change
+   */
+  const bindingsSubscription = bindings.subscribe(b => {
+    saveBindings(localStorage, b);
+    bindingButtons.forEach(button => button.textContent = bindingLabel(b, button.dataset.action as Action));
+  });
+
+  /**
+   * Function that saves the audio settings, passes them on to the synth and updates the audio controls whenever they change
+   */
+  const audioSettingsSubscription = audioSettings.subscribe(settings => {
+    saveAudioSettings(localStorage, settings);
+    synth.adjust(settings);
+    muteButton.textContent = settings.muted ? "Unmute" : "Mute";
+    volumeInput.value = `${Math.round(settings.volume * 100)}`;
+  });
+
+  /**
+   * Function that lets the audio context play once the user presses a key or touches the page
+   */
+  const audioUnlockSubscription = merge(fromEvent(document, "keydown"), fromEvent(document, "pointerdown"))
+    .pipe(filter(() => audioContext !== null && audioContext.state === "suspended"))
+    .subscribe(() => audioContext && audioContext.resume());
+
+  /**
+   * Function that plays the sound effects of every event fed to the game
+   */
+  const soundSubscription = app
+    .pipe(
+      map(a => a.sounds),
+      filter(sounds => sounds.length > 0)
+    )
+    .subscribe(synth.play);
+
+  /**
+   * Function that keeps the tune playing once per frame while the game is played, at the tempo of the level.
+   * The tune stops while the game is paused or over and while the user is away from the game
+   */
+  const musicSubscription = modes
+    .pipe(switchMap(mode => mode === "game" ? frames.pipe(withLatestFrom(app)) : EMPTY))
+    .subscribe(([_, a]) => synth.music(a.game.level, a.screen === "playing" && !a.paused && !a.game.gameOver));
+
+  /**
+   * Function that saves the leaderboard whenever a score is added to it
+   */
+  const leaderboardSubscription = app
+    .pipe(
+      map(a => a.leaderboard),
+      distinctUntilChanged(),
+      skip(1)
+    )
+    .subscribe(board => saveLeaderboard(localStorage, board));
 
   /**
-   * Function that updates the state of the game and the view of the game 
+   * Function that plays back the latest replay loaded by the user through the same reducer as the game, drawing it once per frame
+   * until the user opens the level editor
    */
-    const subscription = merge(moveLeft, moveRight, moveUp, moveDown, gameClock, restart)
+  const playbackSubscription = replays
     .pipe(
-      scan(reduceState, INITIALSTATE)
+      map(r => ({...createPlayback(r), speed: Number(speedSelect.value)})),
+      switchMap(p => modes.pipe(switchMap(mode => mode === "replay" ? frames.pipe(
+        withLatestFrom(merge(gameClock, playbackControls).pipe(
+          scan(reducePlayback, p),
+          startWith(p)
+        )),
+        map(([_, playback]) => playback)
+      ) : EMPTY)))
     )
-    .subscribe(updateView);
+    .subscribe(p => {
+      renderer.draw(p.state, []);
+      updatePlaybackControls(p);
+    });
+
+  /**
+   * Function that shows the controls of whatever the canvas is used for, and hides the rest.
+   * The file picker of replays is cleared once the user stops watching, so the same replay can be loaded again
+   */
+  const modeSubscription = modes.subscribe(mode => {
+    if(mode !== "replay") loadReplayInput.value = "";
+    (document.getElementById("openEditor") as HTMLElement).hidden = mode === "editor";
+    editorPanel.hidden = mode !== "editor";
+    (document.getElementById("playback") as HTMLElement).hidden = mode !== "replay";
+  });
+
+  /**
+   * Function that draws the preview of the level being edited once per frame, with the editor drawn on top of it
+   */
+  const editorSubscription = modes
+    .pipe(switchMap(mode => mode === "editor" ? frames.pipe(withLatestFrom(editor)) : EMPTY))
+    .subscribe(([_, e]) => renderer.draw(e.preview, describeEditor(e)));
+
+  /**
+   * Function that updates the editor panel whenever the level, the selected part, the errors or the preview change
+   */
+  const editorPanelSubscription = editor
+    .pipe(distinctUntilChanged((prev, e) =>
+      prev.level === e.level && prev.selected === e.selected && prev.errors === e.errors && prev.running === e.running))
+    .subscribe(updateEditorPanel);
+
+  /**
+   * Function that saves the level being edited when the user asks for it
+   */
+  const exportSubscription = fromEvent(document.getElementById("exportLevel") as HTMLElement, "click")
+    .pipe(withLatestFrom(editor))
+    .subscribe(([_, e]) => downloadLevel(e));
+
+  /**
+   * Function that saves the recording of the game when the user asks for it
+   */
+  const downloadSubscription = fromEvent(document.getElementById("downloadReplay") as HTMLElement, "click")
+    .pipe(withLatestFrom(app))
+    .subscribe(([_, a]) => downloadReplay(a.replay));
+
+  /**
+   * Function that tells the user when a replay file could not be loaded
+   */
+  const replayErrorSubscription = loadedReplays
+    .pipe(map(r => r instanceof Error ? r.message : ""))
+    .subscribe(message => (document.getElementById("replayStatus") as HTMLElement).textContent = message);
 }
 
 // The following simply runs your main function on window load.  Make sure to leave it in place.
@@ -0,0 +1,111 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Move } from "./game";
+import { Lockstep, Message, INPUTDELAY, HASHEVERY, parseMessage, serverUrl, hashState, createLockstep, localMove, receive, stepLockstep, waiting } from "./net";
+
+/**
+ * The Pair type which represents the browsers of both players
+ */
+type Pair = readonly [Lockstep, Lockstep]
+
+/**
+ * Function that changes the game in one browser and passes the messages it sends to the other browser straight away
+ * @param pair The browsers of both players
+ * @param player The player whose browser changes
+ * @param change The change
+ * @returns Both browsers after the change
+ */
+const send = ([a, b]: Pair, player: number, change: (l: Lockstep) => Lockstep): Pair => {
+  const next = change(player === 0 ? a : b);
+  return player === 0 ? [next, next.outbox.reduce(receive, b)] : [next.outbox.reduce(receive, a), next]
+}
+
+/**
+ * Function that advances both browsers by the given number of ticks
+ * @param pair The browsers of both players
+ * @param ticks The given number of ticks
+ * @param moves The moves made by either player, as the tick they are made on, the player and the move
+ * @returns Both browsers after the ticks
+ */
+const run = (pair: Pair, ticks: number, moves: ReadonlyArray<readonly [number, number, Move]> = []): Pair =>
+  Array(ticks).fill(0).reduce<Pair>((p, _, t) => {
+    const moved = moves.filter(([at]) => at === t).reduce<Pair>((acc, [, player, m]) => send(acc, player, l => localMove(l, m)), p);
+    return send(send(moved, 0, stepLockstep), 1, stepLockstep)
+  }, pair);
+
+describe("parseMessage", () => {
+  it("reads the messages of the browsers and the relay server", () => {
+    const input: Message = {type: "input", player: 1, upTo: 20, moves: [[15, "w", -60]]};
+    assert.deepEqual(parseMessage(JSON.stringify(input)), input);
+    assert.deepEqual(parseMessage('{"type":"join","room":"ABCD"}'), {type: "join", room: "ABCD"});
+  });
+
+  it("rejects anything else", () => {
+    assert.throws(() => parseMessage('{"type":"input","player":2,"upTo":20,"moves":[]}'), /Invalid message/);
+    assert.throws(() => parseMessage('{"type":"shout"}'), /Invalid message/);
+    assert.throws(() => parseMessage("[]"), /Invalid message/);
+  });
+});
+
+describe("serverUrl", () => {
+  it("uses the server query parameter or the host of the page", () => {
+    assert.equal(serverUrl("?server=ws://example.com:9000", "localhost"), "ws://example.com:9000");
+    assert.equal(serverUrl("", "frogger.example.com"), "ws://frogger.example.com:8080");
+    assert.equal(serverUrl("", ""), "ws://localhost:8080");
+  });
+});
+
+describe("hashState", () => {
+  it("is the same for the same state and changes when the state does", () => {
+    const l = createLockstep(7, 0);
+    assert.equal(hashState(l.state), hashState(createLockstep(7, 1).state));
+    assert.notEqual(hashState(l.state), hashState({...l.state, score: 10}));
+  });
+});
+
+describe("lockstep", () => {
+  it("plays both frogs together", () => {
+    const l = createLockstep(7, 1);
+    assert.equal(l.state.config.mode, "coop");
+    assert.notEqual(l.state.second, null);
+  });
+
+  it("keeps both browsers in the same state with moves made by both players", () => {
+    const [a, b] = run([createLockstep(7, 0), createLockstep(7, 1)], 3 * HASHEVERY, [
+      [3, 0, new Move("w", -60)],
+      [40, 1, new Move("a", -45)]
+    ]);
+    assert.ok(a.tick > 2 * HASHEVERY);
+    assert.equal(a.tick, b.tick);
+    assert.equal(hashState(a.state), hashState(b.state));
+    assert.deepEqual(b.state.second && [b.state.second.frog.position.x, b.state.second.frog.position.y], [300, 560]);
+    assert.deepEqual([a.state.frog.position.y, a.state.lives], [b.state.frog.position.y, b.state.lives]);
+    assert.equal(a.desync, null);
+    assert.equal(b.desync, null);
+  });
+
+  it("applies a move after the input delay", () => {
+    const l = Array(INPUTDELAY).fill(0).reduce<Lockstep>(stepLockstep, localMove(createLockstep(7, 0), new Move("w", -60)));
+    assert.equal(l.state.frog.position.y, 560);
+    assert.equal(stepLockstep({...l, confirmed: 100}).state.frog.position.y, 500);
+  });
+
+  it("waits for the other browser before simulating ticks it has not confirmed", () => {
+    const l = Array(INPUTDELAY + 5).fill(0).reduce<Lockstep>(stepLockstep, createLockstep(7, 0));
+    assert.equal(l.tick, INPUTDELAY);
+    assert.ok(waiting(l));
+    const caughtUp = stepLockstep(receive(l, {type: "input", player: 1, upTo: 100, moves: []}));
+    assert.equal(caughtUp.tick, INPUTDELAY + 6);
+    assert.ok(!waiting(caughtUp));
+  });
+
+  it("notices when the games drift apart", () => {
+    const a = Array(HASHEVERY).fill(0).reduce<Lockstep>(l => stepLockstep({...l, confirmed: 1000}), createLockstep(7, 0));
+    const hash = a.outbox.find(m => m.type === "hash");
+    assert.ok(hash && hash.type === "hash");
+    assert.equal(receive(a, {...hash, player: 1}).desync, null);
+    const drifted = receive(a, {...hash, player: 1, hash: hash.hash + 1});
+    assert.equal(drifted.desync, HASHEVERY - 1);
+    assert.equal(stepLockstep(drifted).tick, drifted.tick);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * The net module which lets two players in different browsers play the same game.
+ * Both browsers run the same deterministic reducer in lockstep: every move is stamped with the tick it is applied on, a little
+ * in the future so that it reaches the other browser in time, and a browser only simulates a tick once it knows every move of
+ * the other player up to that tick. Hashes of the state are swapped from time to time to catch games that drift apart.
+ * Like the game module, nothing in this module touches the DOM or the network.
+ */
+import { State, Config, GameEvent, Tick, Move, DEFAULTCONFIG, createGame, reduceState, players } from "./game";
+import { MAXCATCHUP } from "./loop";
+import { isRecord, isList } from "./level";
+
+/** The section below contains all the types that will be used for online games */
+
+/**
+ * The NetMove type which represents a move sent over the network, as the tick it is applied on, its direction and its steps
+ */
+export type NetMove = readonly [number, string, number]
+
+/**
+ * The Message type which represents everything sent between the browsers and the relay server.
+ * Browsers ask to create or join a room, the server answers with the room and the seed of the game and starts the game once
+ * both players are in, and then relays the inputs and hashes of each player to the other
+ */
+export type Message =
+  Readonly<{type: "create"}>
+  | Readonly<{type: "join", room: string}>
+  | Readonly<{type: "joined", room: string, seed: number, player: number}>
+  | Readonly<{type: "start"}>
+  | Readonly<{type: "input", player: number, upTo: number, moves: ReadonlyArray<NetMove>}>
+  | Readonly<{type: "hash", player: number, tick: number, hash: number}>
+  | Readonly<{type: "left"}>
+  | Readonly<{type: "error", message: string}>
+
+/**
+ * The Scheduled type which represents a move of either player waiting for the tick it is applied on
+ */
+export type Scheduled = Readonly<{
+  tick: number,
+  move: Move
+}>
+
+/**
+ * The Lockstep type which represents a game played in lockstep with another browser.
+ * The outbox holds the messages to send and applied holds the events fed to the reducer, both only for the latest change
+ */
+export type Lockstep = Readonly<{
+  player: number,
+  state: State,
+  tick: number,
+  target: number,
+  confirmed: number,
+  moves: ReadonlyArray<Scheduled>,
+  hashes: ReadonlyArray<readonly [number, number]>,
+  remoteHashes: ReadonlyArray<readonly [number, number]>,
+  desync: number | null,
+  outbox: ReadonlyArray<Message>,
+  applied: ReadonlyArray<GameEvent>
+}>
+
+/** The section above contains all the types that will be used for online games */
+
+/**
+ * The number of ticks between a move being made and it being applied, which gives it time to reach the other browser
+ */
+export const INPUTDELAY = 10;
+
+/**
+ * The number of ticks between two input messages when no move is made, which tells the other browser it can carry on
+ */
+export const SENDEVERY = 5;
+
+/**
+ * The number of ticks between two hashes of the state
+ */
+export const HASHEVERY = 100;
+
+/**
+ * The number of hashes of the state kept to compare with the hashes of the other browser
+ */
+const HASHESKEPT = 10;
+
+/**
+ * The number of letters of a room code
+ */
+export const ROOMCODELENGTH = 4;
+
+/**
+ * The port the relay server listens on if no other port is given
+ */
+export const DEFAULTPORT = 8080;
+
+/**
+ * Function that checks if the given value is a valid move sent over the network
+ * @param m The given value
+ * @returns True if the value is a valid move, false otherwise
+ */
+const isNetMove = (m: unknown): m is NetMove =>
+  isList(m) && m.length === 3 && Number.isInteger(m[0]) && typeof m[1] === "string" && typeof m[2] === "number"
+
+/**
+ * Function that checks if the given value is a valid message
+ * @param m The given value
+ * @returns True if the value is a valid message, false otherwise
+ */
+const isMessage = (m: unknown): m is Message =>
+  isRecord(m) && (
+    m.type === "create" || m.type === "start" || m.type === "left"
+    || (m.type === "join" && typeof m.room === "string")
+    || (m.type === "joined" && typeof m.room === "string" && Number.isInteger(m.seed) && (m.player === 0 || m.player === 1))
+    || (m.type === "input" && (m.player === 0 || m.player === 1) && Number.isInteger(m.upTo) && isList(m.moves) && m.moves.every(isNetMove))
+    || (m.type === "hash" && (m.player === 0 || m.player === 1) && Number.isInteger(m.tick) && Number.isInteger(m.hash))
+    || (m.type === "error" && typeof m.message === "string"))
+
+/**
+ * Function that reads a message received from the network
+ * @param json The contents of the message
+ * @returns The message
+ * @throws Error if the contents are not a valid message
+ */
+export const parseMessage = (json: string): Message => {
+  const m: unknown = JSON.parse(json);
+  if(!isMessage(m)) {
+    throw new Error("Invalid message");
+  }
+  return m
+}
+
+/**
+ * Function that finds the address of the relay server, given by the server query parameter of the page or on the same host otherwise
+ * @param search The query string of the page
+ * @param hostname The host the page was loaded from
+ * @returns The address of the relay server
+ */
+export const serverUrl = (search: string, hostname: string): string =>
+  new URLSearchParams(search).get("server") || `ws://${hostname || "localhost"}:${DEFAULTPORT}`
+
+/**
+ * Function that hashes everything in the state of the game that both browsers must agree on, using 32 bit FNV-1a.
+ * Positions are rounded so that the hash only changes when the games have really drifted apart
+ * @param s The current state of the game
+ * @returns The hash of the state
+ */
+export const hashState = (s: State): number => {
+  const bodies = [...players(s).map(p => p.frog), ...s.cars, ...s.buses, ...s.planks, ...s.crocs, ...s.snakes, ...s.turtles];
+  const text = [
+    s.time, s.level, s.rng.state,
+    ...players(s).flatMap(p => [p.score, p.lives, p.poison, ...p.powerUps.map(u => `${u.kind}${u.ticksLeft}`)]),
+    s.pickup === null ? "" : `${s.pickup.kind}${s.pickup.position.x},${s.pickup.position.y}`,
+    s.tuning.speed, s.tuning.density, s.fly, s.ladyFrog === null ? "" : `${s.ladyFrog.carriedBy}${s.ladyFrog.position.x.toFixed(2)},${s.ladyFrog.position.y.toFixed(2)}`,
+    ...s.targets.map(t => t.filled ? 1 : 0),
+    ...bodies.map(b => `${b.position.x.toFixed(2)},${b.position.y.toFixed(2)}`)
+  ].join(";");
+  return text.split("").reduce((hash, c) => Math.imul(hash ^ c.charCodeAt(0), 16777619) >>> 0, 2166136261)
+}
+
+/**
+ * Function that starts a game played in lockstep, the two players always play together.
+ * No move can be applied before the input delay, so both browsers can simulate that far straight away
+ * @param seed The seed of the game, which is the same in both browsers
+ * @param player The player of this browser
+ * @param config The settings of the game
+ * @returns The game played in lockstep
+ */
+export const createLockstep = (seed: number, player: number, config: Config = DEFAULTCONFIG): Lockstep => ({
+  player: player,
+  state: createGame(seed, {...config, mode: "coop"}),
+  tick: 0,
+  target: 0,
+  confirmed: INPUTDELAY,
+  moves: [],
+  hashes: [],
+  remoteHashes: [],
+  desync: null,
+  outbox: [],
+  applied: []
+})
+
+/**
+ * Function that clears the messages and events of the previous change to the game
+ * @param l The game played in lockstep
+ * @returns The game without messages to send or events applied
+ */
+const fresh = (l: Lockstep): Lockstep => ({...l, outbox: [], applied: []})
+
+/**
+ * Function that compares the hashes of both browsers for every tick they have both hashed, the first tick they differ on is kept
+ * @param l The game played in lockstep
+ * @returns The game, with the tick the games drifted apart on if they did
+ */
+const compareHashes = (l: Lockstep): Lockstep => {
+  const differ = l.remoteHashes.find(([tick, hash]) => l.hashes.some(([t, h]) => t === tick && h !== hash));
+  return l.desync === null && differ ? {...l, desync: differ[0]} : l
+}
+
+/**
+ * Function that makes a move of the player of this browser, it is applied after the input delay and sent to the other browser
+ * @param l The game played in lockstep
+ * @param move The move
+ * @returns The game with the move scheduled
+ */
+export const localMove = (l: Lockstep, move: Move): Lockstep => {
+  const tick = l.target + INPUTDELAY;
+  return {...fresh(l),
+    moves: l.moves.concat([{tick: tick, move: new Move(move.direction, move.steps, l.player)}]),
+    outbox: [{type: "input", player: l.player, upTo: tick, moves: [[tick, move.direction, move.steps]]}]
+  }
+}
+
+/**
+ * Function that handles a message from the other browser, inputs schedule the moves of the other player and confirm every tick
+ * up to the one they were sent for, hashes are compared with the hashes of this browser
+ * @param l The game played in lockstep
+ * @param m The message
+ * @returns The game after handling the message
+ */
+export const receive = (l: Lockstep, m: Message): Lockstep =>
+  m.type === "input" && m.player !== l.player ? {...fresh(l),
+    moves: l.moves.concat(m.moves.map(([tick, direction, steps]) => ({tick: tick, move: new Move(direction, steps, m.player)}))),
+    confirmed: Math.max(l.confirmed, m.upTo)
+  }
+  : m.type === "hash" && m.player !== l.player ? compareHashes({...fresh(l), remoteHashes: l.remoteHashes.concat([[m.tick, m.hash]]).slice(-HASHESKEPT)})
+  : fresh(l)
+
+/**
+ * Function that simulates the next tick, applying the moves of both players scheduled for it first.
+ * Moves are applied in the order of their players so that both browsers apply them in the same order
+ * @param l The game played in lockstep
+ * @returns The game one tick later
+ */
+const simulate = (l: Lockstep): Lockstep => {
+  const due = l.moves.filter(m => m.tick === l.tick).sort((a, b) => a.move.player - b.move.player).map(m => m.move);
+  const events: ReadonlyArray<GameEvent> = [...due, new Tick(l.tick)];
+  const state = events.reduce(reduceState, l.state);
+  const hashed = (l.tick + 1) % HASHEVERY === 0;
+  return {...l,
+    state: state,
+    tick: l.tick + 1,
+    moves: l.moves.filter(m => m.tick !== l.tick),
+    hashes: hashed ? l.hashes.concat([[l.tick, hashState(state)]]).slice(-HASHESKEPT) : l.hashes,
+    outbox: hashed ? l.outbox.concat([{type: "hash", player: l.player, tick: l.tick, hash: hashState(state)}]) : l.outbox,
+    applied: l.applied.concat(events)
+  }
+}
+
+/**
+ * Function that advances the game by a tick of the game clock.
+ * Every tick that is due and confirmed by the other browser is simulated, so a game that had to wait for the other browser catches up
+ * by a few ticks at a time. Every few ticks the other browser is told it can carry on, and nothing is simulated once the games have
+ * drifted apart
+ * @param l The game played in lockstep
+ * @returns The game after the tick
+ */
+export const stepLockstep = (l: Lockstep): Lockstep => {
+  if(l.desync !== null) {
+    return fresh(l)
+  }
+  const target = l.target + 1;
+  const start = {...fresh(l), target: target,
+    outbox: target % SENDEVERY === 0 ? [{type: "input", player: l.player, upTo: target + INPUTDELAY, moves: []} as Message] : []
+  };
+  const ticks = Math.max(0, Math.min(target, l.confirmed, l.tick + MAXCATCHUP) - l.tick);
+  return compareHashes(Array(ticks).fill(0).reduce<Lockstep>(simulate, start))
+}
+
+/**
+ * Function that checks if the game has had to stop and wait for the other browser
+ * @param l The game played in lockstep
+ * @returns True if ticks are due that the other browser has not confirmed yet, false otherwise
+ */
+export const waiting = (l: Lockstep): boolean => l.tick < l.target && l.tick >= l.confirmed
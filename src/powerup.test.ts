@@ -0,0 +1,48 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { POWERUPKINDS, POWERUPS, NOEFFECT, pickKind, collect, wearOff, combine, useShield } from "./powerup";
+
+describe("pickKind", () => {
+  it("picks kinds with a larger weight more often", () => {
+    const picks = Array(1000).fill(0).map((_, index) => pickKind(index / 1000));
+    const count = (kind: string) => picks.filter(k => k === kind).length;
+    assert.deepEqual(POWERUPKINDS.map(count), [334, 250, 166, 84, 166]);
+    assert.equal(pickKind(1), "antidote");
+  });
+});
+
+describe("collect", () => {
+  it("adds a power up for its duration", () => {
+    assert.deepEqual(collect([], "shield"), [{kind: "shield", ticksLeft: POWERUPS.shield.duration}]);
+  });
+
+  it("extends or refreshes a power up that is still active", () => {
+    assert.deepEqual(collect([{kind: "doubleJump", ticksLeft: 10}], "doubleJump"), [{kind: "doubleJump", ticksLeft: 10 + POWERUPS.doubleJump.duration}]);
+    assert.deepEqual(collect([{kind: "shield", ticksLeft: 10}], "shield"), [{kind: "shield", ticksLeft: POWERUPS.shield.duration}]);
+  });
+
+  it("does not keep power ups that only act when picked up", () => {
+    assert.deepEqual(collect([], "extraLife"), []);
+  });
+});
+
+describe("wearOff", () => {
+  it("counts down every power up and drops the ones that ran out", () => {
+    assert.deepEqual(wearOff([{kind: "shield", ticksLeft: 1}, {kind: "slowTime", ticksLeft: 5}]), [{kind: "slowTime", ticksLeft: 4}]);
+  });
+});
+
+describe("combine", () => {
+  it("adds up the effects of the active power ups", () => {
+    assert.deepEqual(combine([]), NOEFFECT);
+    assert.deepEqual(combine([{kind: "doubleJump", ticksLeft: 1}, {kind: "slowTime", ticksLeft: 1}, {kind: "slowTime", ticksLeft: 1}]),
+      {jump: 2, laneSpeed: 0.5, shield: false, lives: 0, cure: false});
+  });
+});
+
+describe("useShield", () => {
+  it("uses up the shield and keeps the other power ups", () => {
+    assert.deepEqual(useShield([{kind: "doubleJump", ticksLeft: 1}, {kind: "shield", ticksLeft: 1}]), [{kind: "doubleJump", ticksLeft: 1}]);
+    assert.deepEqual(useShield([{kind: "doubleJump", ticksLeft: 1}]), [{kind: "doubleJump", ticksLeft: 1}]);
+  });
+});
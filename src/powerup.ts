@@ -0,0 +1,138 @@
+/**
+ * The power up module which lists every kind of power up the frog(Player) can pick up: how it looks, how long it lasts, what happens
+ * when the frog picks it up again while it is still active, and what it does to the game.
+ * The game only asks this module what the active power ups of a frog add up to, so a new power up is added by adding it to the registry.
+ * Like the game module, nothing in this module touches the DOM.
+ */
+import { SpriteKind } from "./theme";
+
+/** The section below contains all the types that will be used for power ups */
+
+/**
+ * The PowerUpKind type which represents every kind of power up
+ */
+export type PowerUpKind = "doubleJump" | "shield" | "slowTime" | "extraLife" | "antidote";
+
+/**
+ * The Stacking type which represents what happens when the frog picks up a power up that is still active,
+ * either the duration is added to the time left or the time left starts again from the full duration
+ */
+export type Stacking = "extend" | "refresh";
+
+/**
+ * The PowerUpEffect type which represents what a power up does to the game.
+ * The jump scales how far the frog hops up and down, the lane speed scales how fast every lane moves, a shield absorbs the next hit
+ * that would cost the frog a life, and lives are given and snake poison is cured once when the power up is picked up
+ */
+export type PowerUpEffect = Readonly<{
+  jump: number,
+  laneSpeed: number,
+  shield: boolean,
+  lives: number,
+  cure: boolean
+}>
+
+/**
+ * The PowerUpType type which represents everything about a kind of power up.
+ * The duration is in ticks, a power up that lasts 0 ticks only has an effect when it is picked up.
+ * The weight is how likely the power up is to be picked when a spawn area allows any power up, compared to the others
+ */
+export type PowerUpType = Readonly<{
+  name: string,
+  sprite: SpriteKind,
+  duration: number,
+  stacking: Stacking,
+  weight: number,
+  effect: PowerUpEffect
+}>
+
+/**
+ * The ActivePowerUp type which represents a power up the frog has picked up and how many ticks it has left
+ */
+export type ActivePowerUp = Readonly<{
+  kind: PowerUpKind,
+  ticksLeft: number
+}>
+
+/** The section above contains all the types that will be used for power ups */
+
+/**
+ * The effect of no power up at all
+ */
+export const NOEFFECT: PowerUpEffect = {jump: 1, laneSpeed: 1, shield: false, lives: 0, cure: false};
+
+/**
+ * Every kind of power up, in the order they are listed in the registry
+ */
+export const POWERUPKINDS: ReadonlyArray<PowerUpKind> = ["doubleJump", "shield", "slowTime", "extraLife", "antidote"];
+
+/**
+ * The registry of every kind of power up, durations are in ticks of 10 milliseconds
+ */
+export const POWERUPS: Readonly<Record<PowerUpKind, PowerUpType>> = {
+  doubleJump: {name: "DOUBLE JUMP", sprite: "doubleJump", duration: 1000, stacking: "extend", weight: 4, effect: {...NOEFFECT, jump: 2}},
+  shield: {name: "SHIELD", sprite: "shield", duration: 1500, stacking: "refresh", weight: 3, effect: {...NOEFFECT, shield: true}},
+  slowTime: {name: "SLOW TIME", sprite: "slowTime", duration: 500, stacking: "extend", weight: 2, effect: {...NOEFFECT, laneSpeed: 0.5}},
+  extraLife: {name: "EXTRA LIFE", sprite: "extraLife", duration: 0, stacking: "refresh", weight: 1, effect: {...NOEFFECT, lives: 1}},
+  antidote: {name: "ANTIDOTE", sprite: "antidote", duration: 0, stacking: "refresh", weight: 2, effect: {...NOEFFECT, cure: true}}
+};
+
+/**
+ * Function that picks a kind of power up at random, kinds with a larger weight are picked more often
+ * @param float A random float between 0 and 1
+ * @returns The kind of power up picked
+ */
+export const pickKind = (float: number): PowerUpKind => {
+  const total = POWERUPKINDS.reduce((sum, kind) => sum + POWERUPS[kind].weight, 0);
+  const target = float * total;
+  return POWERUPKINDS.reduce<[PowerUpKind | null, number]>(([picked, before], kind) =>
+    picked === null && target < before + POWERUPS[kind].weight ? [kind, before] : [picked, before + POWERUPS[kind].weight],
+    [null, 0])[0] || POWERUPKINDS[POWERUPKINDS.length - 1]
+}
+
+/**
+ * Function that adds a power up the frog has picked up to its active power ups, following the stacking rule of the power up
+ * if it is still active. Power ups that last 0 ticks are not kept
+ * @param active The active power ups of the frog
+ * @param kind The kind of power up picked up
+ * @returns The active power ups of the frog with the power up added
+ */
+export const collect = (active: ReadonlyArray<ActivePowerUp>, kind: PowerUpKind): ReadonlyArray<ActivePowerUp> => {
+  const type = POWERUPS[kind];
+  return type.duration === 0 ? active
+    : !active.some(p => p.kind === kind) ? active.concat([{kind: kind, ticksLeft: type.duration}])
+    : active.map(p => p.kind !== kind ? p : {kind: kind, ticksLeft: type.stacking === "extend" ? p.ticksLeft + type.duration : type.duration})
+}
+
+/**
+ * Function that counts down the active power ups of the frog by a tick, dropping the ones that have run out
+ * @param active The active power ups of the frog
+ * @returns The active power ups left after the tick
+ */
+export const wearOff = (active: ReadonlyArray<ActivePowerUp>): ReadonlyArray<ActivePowerUp> =>
+  active.map(p => ({...p, ticksLeft: p.ticksLeft - 1})).filter(p => p.ticksLeft > 0)
+
+/**
+ * Function that adds up the effects of the given active power ups.
+ * The largest jump and the slowest lane speed win, so the same power up picked up by both frogs does not count twice
+ * @param active The given active power ups
+ * @returns The effect of all of them together
+ */
+export const combine = (active: ReadonlyArray<ActivePowerUp>): PowerUpEffect =>
+  active.map(p => POWERUPS[p.kind].effect).reduce((total, e) => ({
+    jump: Math.max(total.jump, e.jump),
+    laneSpeed: Math.min(total.laneSpeed, e.laneSpeed),
+    shield: total.shield || e.shield,
+    lives: total.lives + e.lives,
+    cure: total.cure || e.cure
+  }), NOEFFECT)
+
+/**
+ * Function that uses up the first active power up that shields the frog, once it has absorbed a hit
+ * @param active The active power ups of the frog
+ * @returns The active power ups of the frog without the shield that was used
+ */
+export const useShield = (active: ReadonlyArray<ActivePowerUp>): ReadonlyArray<ActivePowerUp> => {
+  const index = active.findIndex(p => POWERUPS[p.kind].effect.shield);
+  return active.filter((_, i) => i !== index)
+}
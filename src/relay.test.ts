@@ -0,0 +1,75 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Relay, EMPTYRELAY, relayMessage, disconnect } from "./relay";
+
+/**
+ * A relay server where client a has created a room
+ */
+const created = relayMessage(EMPTYRELAY, "a", {type: "create"}, 42);
+
+/**
+ * The code of the room created by client a
+ */
+const code = created.rooms[0].code;
+
+/**
+ * A relay server where client b has joined the room of client a
+ */
+const joined = relayMessage(created, "b", {type: "join", room: code}, 7);
+
+describe("relayMessage", () => {
+  it("creates a room with a code and a seed", () => {
+    assert.match(code, /^[A-Z]{4}$/);
+    assert.deepEqual(created.outbox, [["a", {type: "joined", room: code, seed: 42, player: 0}]]);
+  });
+
+  it("gives every room its own code", () => {
+    const again = relayMessage(created, "b", {type: "create"}, 42);
+    assert.notEqual(again.rooms[1].code, code);
+  });
+
+  it("starts the game for both players once the second one joins", () => {
+    assert.deepEqual(joined.outbox, [
+      ["b", {type: "joined", room: code, seed: 42, player: 1}],
+      ["a", {type: "start"}],
+      ["b", {type: "start"}]
+    ]);
+  });
+
+  it("joins rooms whichever case the code is typed in", () => {
+    assert.deepEqual(relayMessage(created, "b", {type: "join", room: code.toLowerCase()}, 7).rooms[0].members, ["a", "b"]);
+  });
+
+  it("passes inputs and hashes on to the other player", () => {
+    const input = {type: "input", player: 1, upTo: 20, moves: []} as const;
+    assert.deepEqual(relayMessage(joined, "b", input, 0).outbox, [["a", input]]);
+    const hash = {type: "hash", player: 0, tick: 99, hash: 5} as const;
+    assert.deepEqual(relayMessage(joined, "a", hash, 0).outbox, [["b", hash]]);
+  });
+
+  it("tells clients what went wrong", () => {
+    /**
+     * Function that finds the error sent to a client
+     * @param r The relay server
+     * @returns The error message sent
+     */
+    const error = (r: Relay) => r.outbox.map(([_, m]) => m.type === "error" ? m.message : "").join();
+    assert.equal(error(relayMessage(joined, "c", {type: "join", room: "ZZZZ"}, 0)), "Room ZZZZ does not exist");
+    assert.equal(error(relayMessage(joined, "c", {type: "join", room: code}, 0)), `Room ${code} is full`);
+    assert.equal(error(relayMessage(joined, "a", {type: "create"}, 0)), `Already in room ${code}`);
+    assert.equal(error(relayMessage(joined, "c", {type: "input", player: 0, upTo: 5, moves: []}, 0)), "Not in a room");
+    assert.equal(error(relayMessage(joined, "c", {type: "start"}, 0)), "Unexpected message start");
+  });
+});
+
+describe("disconnect", () => {
+  it("closes the room and tells the other player", () => {
+    const r = disconnect(joined, "a");
+    assert.deepEqual(r.rooms, []);
+    assert.deepEqual(r.outbox, [["b", {type: "left"}]]);
+  });
+
+  it("does nothing for clients in no room", () => {
+    assert.deepEqual(disconnect(joined, "c"), {...joined, outbox: []});
+  });
+});
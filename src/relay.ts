@@ -0,0 +1,125 @@
+/**
+ * The relay module which decides what the relay server does with the messages of the browsers connected to it.
+ * The server knows nothing about the game, it puts two browsers in a room, gives them the same seed and passes their inputs on.
+ * Nothing in this module touches the network, so the server can be tested without sockets.
+ */
+import { RNG } from "./game";
+import { Message, ROOMCODELENGTH } from "./net";
+
+/** The section below contains all the types that will be used for the relay server */
+
+/**
+ * The Room type which represents two browsers playing the same game, the first member is the player who created the room
+ */
+export type Room = Readonly<{
+  code: string,
+  seed: number,
+  members: ReadonlyArray<string>
+}>
+
+/**
+ * The Relay type which represents every room of the relay server and the messages it has to send after the latest change,
+ * each message is sent to the client with the given id
+ */
+export type Relay = Readonly<{
+  rooms: ReadonlyArray<Room>,
+  outbox: ReadonlyArray<readonly [string, Message]>
+}>
+
+/** The section above contains all the types that will be used for the relay server */
+
+/**
+ * The number of players in a room
+ */
+export const ROOMSIZE = 2;
+
+/**
+ * The relay server before anyone has connected
+ */
+export const EMPTYRELAY: Relay = {rooms: [], outbox: []};
+
+/**
+ * Function that finds the room a client is in
+ * @param r The relay server
+ * @param client The id of the client
+ * @returns The room, or undefined if the client is in no room
+ */
+const roomOf = (r: Relay, client: string): Room | undefined => r.rooms.find(room => room.members.includes(client))
+
+/**
+ * Function that picks a room code that is not used yet, made of capital letters picked by the given RNG
+ * @param r The relay server
+ * @param rng The RNG used to pick the letters
+ * @returns The room code
+ */
+const roomCode = (r: Relay, rng: RNG): string => {
+  const code = Array(ROOMCODELENGTH).fill(0).reduce<[string, RNG]>(([acc, g]) =>
+    [acc + String.fromCharCode(65 + Math.floor(g.float() * 26) % 26), g.next()], ["", rng])[0];
+  return r.rooms.some(room => room.code === code) ? roomCode(r, rng.next()) : code
+}
+
+/**
+ * Function that answers a client with an error
+ * @param r The relay server
+ * @param client The id of the client
+ * @param message What went wrong
+ * @returns The relay server with the error to send
+ */
+const fail = (r: Relay, client: string, message: string): Relay => ({...r, outbox: [[client, {type: "error", message: message}]]})
+
+/**
+ * Function that handles a message from a client.
+ * Creating a room gives it a new code and seed, joining a room that is not full starts the game for both members,
+ * and inputs and hashes are passed on to the other member of the room
+ * @param r The relay server
+ * @param client The id of the client that sent the message
+ * @param m The message
+ * @param seed A random number used to pick the seed and the code of a new room
+ * @returns The relay server after handling the message
+ */
+export const relayMessage = (r: Relay, client: string, m: Message, seed: number): Relay => {
+  const current = roomOf(r, client);
+  if(m.type === "create" || m.type === "join") {
+    if(current) {
+      return fail(r, client, `Already in room ${current.code}`)
+    }
+    if(m.type === "create") {
+      const room = {code: roomCode(r, new RNG(seed)), seed: seed, members: [client]};
+      return {rooms: r.rooms.concat([room]), outbox: [[client, {type: "joined", room: room.code, seed: seed, player: 0}]]}
+    }
+    const room = r.rooms.find(room => room.code === m.room.toUpperCase());
+    if(!room) {
+      return fail(r, client, `Room ${m.room.toUpperCase()} does not exist`)
+    }
+    if(room.members.length >= ROOMSIZE) {
+      return fail(r, client, `Room ${room.code} is full`)
+    }
+    const joined = {...room, members: room.members.concat([client])};
+    return {
+      rooms: r.rooms.map(other => other.code === room.code ? joined : other),
+      outbox: [
+        [client, {type: "joined", room: room.code, seed: room.seed, player: room.members.length}],
+        ...joined.members.map((member): readonly [string, Message] => [member, {type: "start"}])
+      ]
+    }
+  }
+  if(m.type === "input" || m.type === "hash") {
+    return current ? {...r, outbox: current.members.filter(member => member !== client).map(member => [member, m])}
+      : fail(r, client, "Not in a room")
+  }
+  return fail(r, client, `Unexpected message ${m.type}`)
+}
+
+/**
+ * Function that handles a client disconnecting, its room is closed and the other member is told the player left
+ * @param r The relay server
+ * @param client The id of the client
+ * @returns The relay server after the client has left
+ */
+export const disconnect = (r: Relay, client: string): Relay => {
+  const current = roomOf(r, client);
+  return current ? {
+    rooms: r.rooms.filter(room => room !== current),
+    outbox: current.members.filter(member => member !== client).map(member => [member, {type: "left"}])
+  } : {...r, outbox: []}
+}
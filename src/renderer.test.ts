@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createGame } from "./game";
+import { Scene, SceneElement, describeBackground, describeFrame } from "./scene";
+import { THEMES } from "./theme";
+import { Canvas2D, rendererKind, paintScene, createSvgRenderer, createCanvasRenderer } from "./renderer";
+
+/**
+ * Function that creates a fake 2D drawing context which records everything painted on it
+ * @returns The drawing context and the calls made to it
+ */
+const fakeContext = () => {
+  const calls: string[] = [];
+  const ctx: Canvas2D = {
+    fillStyle: "",
+    globalAlpha: 1,
+    font: "",
+    textAlign: "start",
+    clearRect: () => { calls.push("clear") },
+    fillRect: (x, y, width, height) => { calls.push(`rect ${x} ${y} ${width} ${height} ${ctx.fillStyle} ${ctx.globalAlpha}`) },
+    beginPath: () => {},
+    arc: (x, y, radius) => { calls.push(`circle ${x} ${y} ${radius} ${ctx.fillStyle}`) },
+    fill: () => {},
+    fillText: (text, x, y) => { calls.push(`text ${text} ${x} ${y} ${ctx.font} ${ctx.textAlign}`) },
+    drawImage: (image, x, y, width, height) => { calls.push(`image ${(image as unknown as {src: string}).src} ${x} ${y} ${width} ${height}`) }
+  };
+  return {ctx, calls};
+}
+
+describe("rendererKind", () => {
+  it("picks the renderer from the query string and falls back to SVG", () => {
+    assert.equal(rendererKind("?renderer=canvas"), "canvas");
+    assert.equal(rendererKind("?renderer=svg"), "svg");
+    assert.equal(rendererKind("?renderer=webgl"), "svg");
+    assert.equal(rendererKind(""), "svg");
+  });
+});
+
+describe("paintScene", () => {
+  it("paints rectangles, circles and text with their fill, opacity and font", () => {
+    const {ctx, calls} = fakeContext();
+    const scene: Scene = [
+      {id: "a", tag: "rect", attributes: {width: "60", height: "30", transform: "translate(10, 20)", style: "fill:red", opacity: "0.5"}, text: ""},
+      {id: "b", tag: "circle", attributes: {r: "25", transform: "translate(300, 560)", style: "fill:chartreuse"}, text: ""},
+      {id: "c", tag: "text", attributes: {x: "300", y: "160", "text-anchor": "middle", style: "fill:white;font-size:24px;font-family:monospace"}, text: "FROGGER"}
+    ];
+    paintScene(ctx, scene, href => ({src: href}) as unknown as CanvasImageSource);
+    assert.deepEqual(calls, [
+      "clear",
+      "rect 10 20 60 30 red 0.5",
+      "circle 300 560 25 chartreuse",
+      "text FROGGER 300 160 24px monospace center"
+    ]);
+  });
+});
+
+describe("renderers", () => {
+  it("paint the static background under the game on a canvas", () => {
+    const {ctx, calls} = fakeContext();
+    createCanvasRenderer(ctx, href => ({src: href}) as unknown as CanvasImageSource).draw(createGame(1), []);
+    assert.equal(calls.length, 1 + describeFrame(createGame(1)).length);
+    assert.equal(calls[1], "rect 0 530 600 70 saddlebrown 1");
+  });
+
+  it("load every image of a theme only once on a canvas", () => {
+    const {ctx, calls} = fakeContext();
+    const loaded: string[] = [];
+    const renderer = createCanvasRenderer(ctx, href => { loaded.push(href); return {src: href} as unknown as CanvasImageSource }, THEMES[1]);
+    renderer.draw(createGame(1), []);
+    renderer.draw(createGame(1), []);
+    assert.ok(calls.some(c => c.startsWith("image data:image/svg+xml,")));
+    assert.equal(new Set(loaded).size, loaded.length);
+  });
+
+  it("draw the static background under the game as SVG elements", () => {
+    const elements: string[] = [];
+    const renderer = createSvgRenderer<SceneElement>({
+      create: () => ({setAttribute: (name, value) => { if(name === "id") elements.push(value) }, removeAttribute: () => {}, textContent: null}),
+      insert: () => {},
+      remove: () => {}
+    });
+    renderer.draw(createGame(1), []);
+    assert.deepEqual(elements.slice(0, describeBackground().length), describeBackground().map(n => n.id));
+  });
+});
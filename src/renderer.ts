@@ -0,0 +1,151 @@
+/**
+ * The renderer module which draws the game on the page.
+ * Every renderer is handed the state of the game and the screen shown on top of it, and draws the same scene in the look of its theme
+ * in its own way, either as SVG elements or on a HTML canvas.
+ */
+import { State } from "./game";
+import { Scene, SceneNode, SceneElement, Surface, createRenderer, describeFrame } from "./scene";
+import { Theme, DEFAULTTHEME } from "./theme";
+
+/** The section below contains all the types that will be used for renderers */
+
+/**
+ * The RendererKind type which represents all the ways the game can be drawn
+ */
+export type RendererKind = "svg" | "canvas";
+
+/**
+ * The Renderer type which represents anything that can draw the game
+ */
+export type Renderer = Readonly<{
+  kind: RendererKind,
+  draw: (s: State, screen: Scene) => void
+}>
+
+/**
+ * The Canvas2D type which represents the parts of a 2D drawing context that are used to draw a scene, the context of a HTML canvas is one
+ */
+export type Canvas2D = {
+  fillStyle: string | CanvasGradient | CanvasPattern,
+  globalAlpha: number,
+  font: string,
+  textAlign: CanvasTextAlign,
+  clearRect: (x: number, y: number, width: number, height: number) => void,
+  fillRect: (x: number, y: number, width: number, height: number) => void,
+  beginPath: () => void,
+  arc: (x: number, y: number, radius: number, startAngle: number, endAngle: number) => void,
+  fill: () => void,
+  fillText: (text: string, x: number, y: number) => void,
+  drawImage: (image: CanvasImageSource, x: number, y: number, width: number, height: number) => void
+}
+
+/** The section above contains all the types that will be used for renderers */
+
+/**
+ * All the ways the game can be drawn
+ */
+export const RENDERERKINDS: ReadonlyArray<RendererKind> = ["svg", "canvas"];
+
+/**
+ * Function that picks the renderer asked for by the renderer query parameter of the page, the SVG renderer is used otherwise
+ * @param search The query string of the page
+ * @returns The kind of renderer to use
+ */
+export const rendererKind = (search: string): RendererKind => {
+  const kind = new URLSearchParams(search).get("renderer");
+  return RENDERERKINDS.find(k => k === kind) || "svg";
+}
+
+/**
+ * Function that creates a renderer which draws the game as SVG elements, only the elements that have changed since the last frame are touched
+ * @param surface The SVG element the game is drawn in
+ * @param theme The theme of the game
+ * @returns The renderer
+ */
+export const createSvgRenderer = <E extends SceneElement>(surface: Surface<E>, theme: Theme = DEFAULTTHEME): Renderer => {
+  const render = createRenderer(surface);
+  return {
+    kind: "svg",
+    draw: (s: State, screen: Scene) => render(describeFrame(s, screen, theme))
+  }
+}
+
+/**
+ * Function that reads the properties of the style attribute of a node
+ * @param n The node
+ * @returns The properties of the style of the node using key value pairs
+ */
+const styleOf = (n: SceneNode): Readonly<{ [key: string]: string }> =>
+  (n.attributes.style || "").split(";").filter(p => p.includes(":")).reduce((acc, p) =>
+    ({...acc, [p.slice(0, p.indexOf(":")).trim()]: p.slice(p.indexOf(":") + 1).trim()}), {})
+
+/**
+ * Function that reads the position a node is moved to by its transform attribute
+ * @param n The node
+ * @returns The x and y coordinates the node is moved to
+ */
+const translationOf = (n: SceneNode): [number, number] => {
+  const match = /translate\(\s*(-?[\d.e-]+)[\s,]+(-?[\d.e-]+)\s*\)/.exec(n.attributes.transform || "");
+  return match ? [Number(match[1]), Number(match[2])] : [0, 0]
+}
+
+/**
+ * Function that paints a single node on a 2D drawing context
+ * @param ctx The drawing context
+ * @param image Function that returns the image with the given URL
+ * @returns A function that paints the given node
+ */
+const paintNode = (ctx: Canvas2D, image: (href: string) => CanvasImageSource) => (n: SceneNode): void => {
+  const style = styleOf(n);
+  const [x, y] = translationOf(n);
+  ctx.globalAlpha = Number(n.attributes.opacity || "1") * Number(style.opacity || "1");
+  ctx.fillStyle = style.fill || "black";
+  if(n.tag === "rect") {
+    ctx.fillRect(x, y, Number(n.attributes.width || "0"), Number(n.attributes.height || "0"));
+  }
+  else if(n.tag === "image") {
+    ctx.drawImage(image(n.attributes.href), x, y, Number(n.attributes.width || "0"), Number(n.attributes.height || "0"));
+  }
+  else if(n.tag === "circle") {
+    ctx.beginPath();
+    ctx.arc(x, y, Number(n.attributes.r || "0"), 0, Math.PI * 2);
+    ctx.fill();
+  }
+  else {
+    ctx.font = `${style["font-size"] || "16px"} ${style["font-family"] || "serif"}`;
+    ctx.textAlign = n.attributes["text-anchor"] === "middle" ? "center" : "start";
+    ctx.fillText(n.text, x + Number(n.attributes.x || "0"), y + Number(n.attributes.y || "0"));
+  }
+}
+
+/**
+ * Function that paints a whole scene on a 2D drawing context, a canvas keeps nothing between frames so every node is painted every frame
+ * @param ctx The drawing context
+ * @param scene The scene
+ * @param image Function that returns the image with the given URL
+ */
+export const paintScene = (ctx: Canvas2D, scene: Scene, image: (href: string) => CanvasImageSource): void => {
+  ctx.clearRect(0, 0, 600, 600);
+  scene.forEach(paintNode(ctx, image));
+  ctx.globalAlpha = 1;
+}
+
+/**
+ * Function that creates a renderer which draws the game on a HTML canvas, which is cheaper than SVG on low end devices.
+ * Every image is only loaded once, images that have not finished loading are not drawn
+ * @param ctx The 2D drawing context of the canvas
+ * @param loadImage Function that starts loading the image with the given URL
+ * @param theme The theme of the game
+ * @returns The renderer
+ */
+export const createCanvasRenderer = (ctx: Canvas2D, loadImage: (href: string) => CanvasImageSource, theme: Theme = DEFAULTTHEME): Renderer => {
+  const images = new Map<string, CanvasImageSource>();
+  const image = (href: string): CanvasImageSource => {
+    if(!images.has(href)) images.set(href, loadImage(href));
+    return images.get(href) as CanvasImageSource;
+  }
+  return {
+    kind: "canvas",
+    draw: (s: State, screen: Scene) => paintScene(ctx, describeFrame(s, screen, theme), image)
+  }
+}
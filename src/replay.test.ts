@@ -0,0 +1,106 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { GameEvent, Tick, Move, Restart, createGame, reduceState } from "./game";
+import { PlayPause, Seek, Speed, REPLAYVERSION, createReplay, recordEvent, replayEvents, serializeReplay, parseReplay, createPlayback, reducePlayback } from "./replay";
+
+/**
+ * A scripted sequence of events, as the game clock and the keyboard would produce them
+ */
+const EVENTS: ReadonlyArray<GameEvent> = [
+  new Tick(0), new Tick(1), new Move("w", -60), new Tick(2), new Tick(3), new Move("a", -45),
+  new Tick(4), new Restart(), new Tick(5), new Move("w", -60), new Tick(6)
+];
+
+/**
+ * The replay of the scripted sequence of events
+ */
+const REPLAY = EVENTS.reduce(recordEvent, createReplay(42));
+
+describe("recordEvent", () => {
+  it("stores consecutive ticks as a single run", () => {
+    assert.deepEqual(REPLAY.events, [
+      ["t", 0, 2], ["m", "w", -60], ["t", 2, 2], ["m", "a", -45], ["t", 4, 1], ["r"], ["t", 5, 1], ["m", "w", -60], ["t", 6, 1]
+    ]);
+  });
+
+  it("records the seed and the version of the replay format", () => {
+    assert.equal(REPLAY.seed, 42);
+    assert.equal(REPLAY.version, REPLAYVERSION);
+  });
+
+  it("turns the recorded events back into the same events", () => {
+    assert.deepEqual(replayEvents(REPLAY).map(e => e.constructor.name), EVENTS.map(e => e.constructor.name));
+    assert.deepEqual(replayEvents(REPLAY).map(e => e instanceof Tick ? e.elapsed : null), EVENTS.map(e => e instanceof Tick ? e.elapsed : null));
+  });
+
+  it("records the player of the moves of the second frog", () => {
+    const r = recordEvent(recordEvent(createReplay(42), new Move("w", -60)), new Move("a", -45, 1));
+    assert.deepEqual(r.events, [["m", "w", -60], ["m", "a", -45, 1]]);
+    assert.deepEqual(replayEvents(parseReplay(serializeReplay(r))), [new Move("w", -60), new Move("a", -45, 1)]);
+  });
+});
+
+describe("parseReplay", () => {
+  it("reads back a serialized replay", () => {
+    assert.deepEqual(parseReplay(serializeReplay(REPLAY)), REPLAY);
+  });
+
+  it("rejects replays of another version", () => {
+    assert.throws(() => parseReplay(JSON.stringify({...REPLAY, version: REPLAYVERSION + 1})), /Unsupported replay version/);
+  });
+
+  it("rejects replays with invalid events", () => {
+    assert.throws(() => parseReplay(JSON.stringify({...REPLAY, events: [["x"]]})), /invalid events/);
+    assert.throws(() => parseReplay(JSON.stringify({...REPLAY, seed: "42"})), /seed/);
+  });
+
+  it("rejects replays with invalid settings instead of failing while they are played back", () => {
+    const malformed = {...REPLAY, config: {ladyFrog: null, crocTime: "x"}};
+    assert.throws(() => parseReplay(JSON.stringify(malformed)), /invalid settings: crocTime, ladyFrog/);
+    assert.throws(() => parseReplay(JSON.stringify({...REPLAY, config: {...REPLAY.config, mode: "solo"}})), /invalid settings: mode/);
+    assert.throws(() => parseReplay(JSON.stringify({...REPLAY, config: {...REPLAY.config, fly: {away: 800}}})), /invalid settings: fly/);
+    assert.throws(() => parseReplay(JSON.stringify({...REPLAY, config: []})), /invalid settings/);
+  });
+
+  it("keeps the default of settings that are not given and drops unknown ones", () => {
+    const r = parseReplay(JSON.stringify({...REPLAY, config: {crocTime: 100, unknown: true}}));
+    assert.deepEqual(r.config, {...REPLAY.config, crocTime: 100});
+  });
+});
+
+describe("reducePlayback", () => {
+  const live = EVENTS.reduce(reduceState, createGame(42));
+
+  it("reaches the same state as the recorded game", () => {
+    const p = EVENTS.map(() => new Tick(0)).reduce(reducePlayback, createPlayback(REPLAY));
+    assert.equal(p.index, EVENTS.length);
+    assert.equal(p.playing, false);
+    assert.equal(p.state.frog.position.x, live.frog.position.x);
+    assert.equal(p.state.frog.position.y, live.frog.position.y);
+    assert.equal(p.state.time, live.time);
+  });
+
+  it("does not advance while paused", () => {
+    const p = [new PlayPause(), new Tick(0), new Tick(1)].reduce(reducePlayback, createPlayback(REPLAY));
+    assert.equal(p.index, 0);
+    assert.equal(p.playing, false);
+  });
+
+  it("plays back several events per tick when sped up", () => {
+    const p = [new Speed(4), new Tick(0)].reduce(reducePlayback, createPlayback(REPLAY));
+    assert.equal(p.index, 4);
+  });
+
+  it("plays back an event every other tick when slowed down", () => {
+    const p = [new Speed(0.5), new Tick(0), new Tick(1), new Tick(2)].reduce(reducePlayback, createPlayback(REPLAY));
+    assert.equal(p.index, 1);
+  });
+
+  it("seeks to the state after the given number of events", () => {
+    const p = [new Seek(3)].reduce(reducePlayback, createPlayback(REPLAY));
+    const expected = EVENTS.slice(0, 3).reduce(reduceState, createGame(42));
+    assert.equal(p.index, 3);
+    assert.equal(p.seeked, true);
+    assert.equal(p.state.frog.position.y, expected.frog.position.y);
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * The replay module which records the events fed into the game and plays them back through the same reducer.
+ * Like the game module, nothing in this module touches the DOM.
+ */
+import { State, Config, GameEvent, Tick, Move, Restart, DEFAULTCONFIG, MODES, createGame, reduceState } from "./game";
+import { loadLevel, isRecord, isList } from "./level";
+import { DIFFICULTIES } from "./difficulty";
+
+/** The section below contains all the classes that will be used for replays */
+
+/**
+ * The PlayPause class which tracks when the user wants to pause or resume the playback of a replay
+ */
+export class PlayPause { constructor() {} };
+
+/**
+ * The Seek class which tracks when the user wants to jump to another point of a replay
+ */
+export class Seek {
+
+  /**
+   * Constructor for the Seek class
+   * @param index The number of events of the replay that should have been played after seeking
+   */
+  constructor(public readonly index: number) {}
+};
+
+/**
+ * The Speed class which tracks when the user wants to change the playback speed of a replay
+ */
+export class Speed {
+
+  /**
+   * Constructor for the Speed class
+   * @param speed The number of events played back per tick of the clock
+   */
+  constructor(public readonly speed: number) {}
+};
+
+/** The section above contains all the classes that will be used for replays */
+
+/** The section below contains all the types that will be used for replays */
+
+/**
+ * The RecordedEvent type which represents an event of the game as it is stored in a replay file.
+ * Consecutive ticks are stored as a single run to keep replay files small, and moves of the second player are stored with their player
+ */
+export type RecordedEvent = readonly ["t", number, number] | readonly ["m", string, number] | readonly ["m", string, number, number] | readonly ["r"]
+
+/**
+ * The Replay type which represents everything needed to reproduce a game exactly
+ */
+export type Replay = Readonly<{
+  version: number,
+  seed: number,
+  config: Config,
+  events: ReadonlyArray<RecordedEvent>
+}>
+
+/**
+ * The Playback type which represents the current state of the playback of a replay
+ */
+export type Playback = Readonly<{
+  replay: Replay,
+  events: ReadonlyArray<GameEvent>,
+  index: number,
+  state: State,
+  playing: boolean,
+  speed: number,
+  progress: number,
+  seeked: boolean
+}>
+
+/** The section above contains all the types that will be used for replays */
+
+/**
+ * The version of the replay format, it must be increased whenever the format of replay files changes
+ */
+export const REPLAYVERSION = 6;
+
+/**
+ * Function that creates an empty replay
+ * @param seed The seed of the recorded game
+ * @param config The settings of the recorded game
+ * @returns An empty replay
+ */
+export const createReplay = (seed: number, config: Config = DEFAULTCONFIG): Replay => ({
+  version: REPLAYVERSION,
+  seed: seed,
+  config: config,
+  events: []
+});
+
+/**
+ * Function that records an event of the game into the given replay
+ * @param r The given replay
+ * @param e The event of the game
+ * @returns The replay with the event recorded
+ */
+export const recordEvent = (r: Replay, e: GameEvent): Replay => {
+  const last = r.events[r.events.length - 1];
+  return e instanceof Tick ?
+    last && last[0] === "t" && last[1] + last[2] === e.elapsed
+      ? {...r, events: r.events.slice(0, -1).concat([["t", last[1], last[2] + 1]])}
+      : {...r, events: r.events.concat([["t", e.elapsed, 1]])}
+    : e instanceof Move ? {...r, events: r.events.concat([e.player === 0 ? ["m", e.direction, e.steps] : ["m", e.direction, e.steps, e.player]])}
+    : {...r, events: r.events.concat([["r"]])}
+}
+
+/**
+ * Function that turns the recorded events of a replay back into events of the game
+ * @param r The given replay
+ * @returns The events of the game in the order they were recorded
+ */
+export const replayEvents = (r: Replay): ReadonlyArray<GameEvent> =>
+  r.events.reduce<GameEvent[]>((acc, e) =>
+    e[0] === "t" ? acc.concat(Array(e[2]).fill(0).map((_, index) => new Tick(e[1] + index)))
+    : e[0] === "m" ? acc.concat([new Move(e[1], e[2], e.length === 4 ? e[3] : 0)])
+    : acc.concat([new Restart()]), [])
+
+/**
+ * Function that serializes a replay so that it can be saved to a file
+ * @param r The given replay
+ * @returns The replay as JSON
+ */
+export const serializeReplay = (r: Replay): string => JSON.stringify(r)
+
+/**
+ * Function that checks if the given value is a valid recorded event
+ * @param e The given value
+ * @returns True if the value is a valid recorded event, false otherwise
+ */
+const isRecordedEvent = (e: unknown): e is RecordedEvent =>
+  isList(e) && (
+    (e[0] === "t" && e.length === 3 && Number.isInteger(e[1]) && typeof e[2] === "number" && Number.isInteger(e[2]) && e[2] > 0)
+    || (e[0] === "m" && (e.length === 3 || (e.length === 4 && Number.isInteger(e[3]))) && typeof e[1] === "string" && typeof e[2] === "number")
+    || (e[0] === "r" && e.length === 1))
+
+/**
+ * Function that checks if the given value has the same shape as a default setting, numbers must be finite and groups of settings
+ * must give every setting of the group
+ * @param value The given value
+ * @param fallback The default setting
+ * @returns True if the value can replace the default setting, false otherwise
+ */
+const isShapedLike = (value: unknown, fallback: unknown): boolean =>
+  typeof fallback === "number" ? typeof value === "number" && Number.isFinite(value)
+  : typeof fallback === "boolean" ? typeof value === "boolean"
+  : isRecord(fallback) && isRecord(value) && Object.keys(fallback).every(key => isShapedLike(value[key], fallback[key]))
+
+/**
+ * Function that checks if the given value is a valid setting of the game, the levels are read on their own
+ * @param key The name of the setting
+ * @param value The given value
+ * @returns True if the value is a valid setting, false otherwise
+ */
+const isSetting = <K extends keyof Config>(key: K, value: unknown): value is Config[K] =>
+  key === "difficulty" ? DIFFICULTIES.some(d => d === value)
+  : key === "mode" ? MODES.some(m => m === value)
+  : key !== "levels" && isShapedLike(value, DEFAULTCONFIG[key])
+
+/**
+ * Function that reads the settings of the recorded game, settings that are not given keep their default and unknown settings are dropped
+ * @param config The settings stored in the replay file
+ * @returns The settings of the recorded game
+ * @throws Error naming every setting that is invalid, or if a level is invalid
+ */
+const parseConfig = (config: unknown): Config => {
+  if(config === undefined) {
+    return DEFAULTCONFIG
+  }
+  if(!isRecord(config) || isList(config)) {
+    throw new Error("Replay file contains invalid settings");
+  }
+  const keys = Object.keys(DEFAULTCONFIG).filter((key): key is keyof Config => key !== "levels" && config[key] !== undefined);
+  const invalid = keys.filter(key => !isSetting(key, config[key]));
+  if(invalid.length > 0) {
+    throw new Error(`Replay file contains invalid settings: ${invalid.join(", ")}`);
+  }
+  const levels = config.levels;
+  if(levels !== undefined && !isList(levels)) {
+    throw new Error("Replay file contains invalid settings: levels");
+  }
+  return keys.reduce((acc, key) => {
+    const value = config[key];
+    return isSetting(key, value) ? {...acc, [key]: value} : acc
+  }, {...DEFAULTCONFIG, levels: levels === undefined ? DEFAULTCONFIG.levels : levels.map(loadLevel)})
+}
+
+/**
+ * Function that reads a replay from a replay file
+ * @param json The contents of the replay file
+ * @returns The replay stored in the file
+ * @throws Error if the file is not a valid replay, contains invalid settings or an invalid level, or was recorded with another version
+ * of the replay format
+ */
+export const parseReplay = (json: string): Replay => {
+  const r: unknown = JSON.parse(json);
+  if(!isRecord(r)) {
+    throw new Error("Replay file does not contain a replay");
+  }
+  if(r.version !== REPLAYVERSION) {
+    throw new Error(`Unsupported replay version ${r.version}, expected version ${REPLAYVERSION}`);
+  }
+  if(typeof r.seed !== "number") {
+    throw new Error("Replay file is missing the seed");
+  }
+  if(!isList(r.events) || !r.events.every(isRecordedEvent)) {
+    throw new Error("Replay file contains invalid events");
+  }
+  return {
+    version: REPLAYVERSION,
+    seed: r.seed,
+    config: parseConfig(r.config),
+    events: r.events
+  }
+}
+
+/**
+ * Function that computes the state of the game after the given number of events of a replay
+ * @param r The given replay
+ * @param events The events of the replay
+ * @param index The number of events to play
+ * @returns The state of the game after playing the events
+ */
+const stateAt = (r: Replay, events: ReadonlyArray<GameEvent>, index: number): State =>
+  events.slice(0, index).reduce(reduceState, createGame(r.seed, r.config))
+
+/**
+ * Function that starts the playback of a replay
+ * @param r The given replay
+ * @returns The playback at the start of the replay
+ */
+export const createPlayback = (r: Replay): Playback => ({
+  replay: r,
+  events: replayEvents(r),
+  index: 0,
+  state: createGame(r.seed, r.config),
+  playing: true,
+  speed: 1,
+  progress: 0,
+  seeked: true
+});
+
+/**
+ * Function that advances the playback by the events that are due, based on the playback speed
+ * @param p The current playback
+ * @returns The playback after playing the events that are due
+ */
+const advance = (p: Playback): Playback => {
+  const due = Math.min(Math.floor(p.progress + p.speed), p.events.length - p.index);
+  return {...p,
+    state: p.events.slice(p.index, p.index + due).reduce(reduceState, p.state),
+    index: p.index + due,
+    progress: p.progress + p.speed - Math.floor(p.progress + p.speed),
+    playing: p.index + due < p.events.length,
+    seeked: false
+  }
+}
+
+/**
+ * Function that returns a new playback based on the user input or tick
+ * @param p The current playback
+ * @param e The event that has occured based on the user input or tick
+ * @returns A new playback based on the user input or tick
+ */
+export const reducePlayback = (p: Playback, e: Tick | PlayPause | Seek | Speed): Playback =>
+  e instanceof PlayPause ? {...p, playing: !p.playing && p.index < p.events.length, seeked: false}
+  : e instanceof Speed ? {...p, speed: e.speed, progress: 0, seeked: false}
+  : e instanceof Seek ? {...p,
+      index: Math.max(0, Math.min(e.index, p.events.length)),
+      state: stateAt(p.replay, p.events, Math.max(0, Math.min(e.index, p.events.length))),
+      progress: 0,
+      seeked: true
+    }
+  : p.playing ? advance(p) : {...p, seeked: false};
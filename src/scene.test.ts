@@ -0,0 +1,189 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { State, Tick, Move, Restart, DEFAULTCONFIG, SECONDFROG, createGame, reduceState, withDifficulty } from "./game";
+import { createApp } from "./app";
+import { createEditor, reduceEditor, PointerDown } from "./editor";
+import { Scene, SceneElement, Surface, describeGame, describeScreen, describeEditor, diffScene, createRenderer } from "./scene";
+
+/**
+ * The FakeElement type which represents an element of the fake DOM
+ */
+type FakeElement = SceneElement & { tag: string, attributes: Map<string, string> };
+
+/**
+ * Function that creates a fake DOM which counts every change made to it
+ * @returns The surface of the fake DOM, the elements on it in order, and the number of changes made to it
+ */
+const fakeDOM = () => {
+  const children: FakeElement[] = [];
+  const counts = {created: 0, removed: 0, changed: 0};
+  const surface: Surface<FakeElement> = {
+    create: tag => {
+      counts.created++;
+      const attributes = new Map<string, string>();
+      return {
+        tag: tag,
+        attributes: attributes,
+        textContent: null,
+        setAttribute: (name, value) => { counts.changed++; attributes.set(name, value) },
+        removeAttribute: name => { counts.changed++; attributes.delete(name) }
+      }
+    },
+    insert: (e, before) => { children.splice(before === null ? children.length : children.indexOf(before), 0, e) },
+    remove: e => { counts.removed++; children.splice(children.indexOf(e), 1) }
+  };
+  return {surface, children, counts};
+}
+
+/**
+ * Function that returns the ids of the elements on the fake DOM, in order
+ * @param children The elements on the fake DOM
+ * @returns The ids of the elements
+ */
+const ids = (children: ReadonlyArray<FakeElement>): ReadonlyArray<string | undefined> => children.map(e => e.attributes.get("id"));
+
+describe("diffScene", () => {
+  /**
+   * A scene with a rectangle and a text
+   */
+  const scene: Scene = [
+    {id: "a", tag: "rect", attributes: {width: "10", style: "fill:red"}, text: ""},
+    {id: "b", tag: "text", attributes: {x: "0"}, text: "hello"}
+  ];
+
+  it("finds nothing to change between identical scenes", () => {
+    assert.deepEqual(diffScene(scene, scene.map(n => ({...n}))), []);
+  });
+
+  it("only updates the attributes and text that changed", () => {
+    const next: Scene = [{...scene[0], attributes: {width: "20"}}, {...scene[1], text: "bye"}];
+    assert.deepEqual(diffScene(scene, next), [
+      {kind: "update", id: "a", set: {width: "20"}, unset: ["style"], text: null},
+      {kind: "update", id: "b", set: {}, unset: [], text: "bye"}
+    ]);
+  });
+
+  it("creates new nodes before the next node that is kept and removes nodes that are gone", () => {
+    const next: Scene = [{id: "c", tag: "circle", attributes: {}, text: ""}, scene[1]];
+    assert.deepEqual(diffScene(scene, next), [
+      {kind: "remove", id: "a"},
+      {kind: "create", node: next[0], before: "b"}
+    ]);
+  });
+
+  it("replaces a node whose tag changed", () => {
+    const next: Scene = [{...scene[0], tag: "circle"}, scene[1]];
+    assert.deepEqual(diffScene(scene, next).map(p => p.kind), ["remove", "create"]);
+  });
+});
+
+describe("createRenderer", () => {
+  it("draws a scene in order", () => {
+    const dom = fakeDOM();
+    const render = createRenderer(dom.surface);
+    const scene = describeGame(createGame(1));
+    render(scene);
+    assert.deepEqual(ids(dom.children), scene.map(n => n.id));
+  });
+
+  it("only touches the nodes that changed on a tick", () => {
+    const dom = fakeDOM();
+    const render = createRenderer(dom.surface);
+    const s = createGame(1);
+    render(describeGame(s));
+    const created = dom.counts.created;
+    render(describeGame(reduceState(s, new Tick(0))));
+    assert.equal(dom.counts.created, created);
+    assert.equal(dom.counts.removed, 0);
+  });
+
+  it("does not leak elements across restarts and level ups", () => {
+    const dom = fakeDOM();
+    const render = createRenderer(dom.surface);
+    const s = createGame(1);
+    const filled = {...s, targets: s.targets.map((t, i) => i < 2 ? {...t, filled: true} : t)};
+    render(describeGame(s));
+    render(describeGame(filled));
+    assert.equal(dom.children.filter(e => e.attributes.get("id") === "target0frog").length, 1);
+    render(describeGame(reduceState(filled, new Restart())));
+    assert.deepEqual(ids(dom.children), describeGame(s).map(n => n.id));
+    const beaten = {...filled, targets: filled.targets.map(t => ({...t, filled: true}))};
+    render(describeGame(beaten));
+    render(describeGame(reduceState(beaten, new Tick(0))));
+    assert.equal(dom.children.length, describeGame(s).length);
+  });
+
+  it("draws the frog faded while it is poisoned", () => {
+    const dom = fakeDOM();
+    const render = createRenderer(dom.surface);
+    const s = reduceState(createGame(1), new Move("w", -60));
+    render(describeGame(s));
+    render(describeGame({...s, poison: 100}));
+    assert.equal(dom.children.filter(e => e.attributes.get("id") === "frog")[0].attributes.get("opacity"), "0.6");
+  });
+
+  it("draws both frogs, a score for every player and a summary once a two player game is over", () => {
+    const s = createGame(1, {...DEFAULTCONFIG, mode: "versus"});
+    const scene = describeGame(s);
+    assert.deepEqual(scene.filter(n => n.id === "frog" || n.id === SECONDFROG).map(n => n.attributes.style), ["fill:chartreuse", "fill:hotpink"]);
+    assert.deepEqual(scene.filter(n => /^score\d$/.test(n.id)).map(n => n.text), ["P1 Lives: 3 | Score: 0", "P2 Lives: 3 | Score: 0"]);
+    const over = describeGame({...s, gameOver: true, score: 400, lives: 0, second: s.second && {...s.second, lives: 0}});
+    assert.deepEqual(over.filter(n => n.id.startsWith("summary")).map(n => n.text), [
+      "Player 1: 400 points, 0 frogs home", "Player 2: 0 points, 0 frogs home", "Player 1 wins", "Press Escape to go back"
+    ]);
+  });
+
+  it("draws the title screen on top of the game and removes it once the game starts", () => {
+    const dom = fakeDOM();
+    const render = createRenderer(dom.surface);
+    const a = createApp(1, []);
+    render(describeGame(a.game).concat(describeScreen(a)));
+    assert.equal(ids(dom.children)[describeGame(a.game).length], "overlay");
+    render(describeGame(a.game).concat(describeScreen({...a, screen: "playing"})));
+    assert.equal(dom.children.length, describeGame(a.game).length);
+  });
+
+  it("reminds the user that the autopilot is playing", () => {
+    const a = createApp(1, []);
+    assert.deepEqual(describeScreen({...a, screen: "playing", autopilot: true}).map(n => n.text), ["AUTOPILOT"]);
+    assert.deepEqual(describeScreen({...a, screen: "playing", autopilot: true, paused: true})[1].text, "PAUSED");
+  });
+});
+
+describe("describeGame", () => {
+  it("shows the active power ups of the frog and the seconds they have left", () => {
+    const scene = describeGame({...createGame(1), powerUps: [{kind: "doubleJump", ticksLeft: 950}, {kind: "shield", ticksLeft: 20}]});
+    assert.equal((scene.find(n => n.id === "powerups") as Scene[number]).text, "DOUBLE JUMP 10s  SHIELD 1s");
+    assert.equal(describeGame(createGame(1)).find(n => n.id === "powerups"), undefined);
+  });
+
+  it("shows how long the poison of a snake bite has left before the power ups", () => {
+    const scene = describeGame({...createGame(1), poison: 420, powerUps: [{kind: "shield", ticksLeft: 20}]});
+    assert.equal((scene.find(n => n.id === "powerups") as Scene[number]).text, "POISONED 5s  SHIELD 1s");
+  });
+
+  it("shows the difficulty, and how adaptive difficulty has tuned the lanes while it is on", () => {
+    const text = (s: State) => (describeGame(s).find(n => n.id === "difficulty") as Scene[number]).text;
+    assert.equal(text(createGame(1)), "Normal");
+    const s = createGame(1, {...withDifficulty(DEFAULTCONFIG, "hard"), adaptive: true});
+    assert.equal(text({...s, tuning: {...s.tuning, speed: 0.85, density: 0.75}}), "Hard (A)  speed 85%  traffic 75%");
+  });
+
+  it("draws the fly in the target bay it visits and the lady frog", () => {
+    const s = {...reduceState(createGame(1), new Tick(DEFAULTCONFIG.ladyFrog.every)), fly: 1};
+    assert.notEqual(s.ladyFrog, null);
+    assert.deepEqual(describeGame(s).filter(n => n.id === "fly" || n.id === "ladyFrog").map(n => n.id), ["fly", "ladyFrog"]);
+    assert.deepEqual(describeGame(createGame(1)).filter(n => n.id === "fly" || n.id === "ladyFrog"), []);
+  });
+});
+
+describe("describeEditor", () => {
+  it("shades the power up spawn areas and highlights the selected lane along its row", () => {
+    const e = reduceEditor(createEditor(), new PointerDown({x: 30, y: 495}));
+    const scene = describeEditor(e);
+    assert.deepEqual(scene.map(n => n.id), ["spawn0", "selected", "editorHint"]);
+    assert.equal(scene[1].attributes.transform, "translate(0, 480)");
+    assert.equal(scene[1].attributes.width, "600");
+    assert.equal(scene[2].text, "EDITOR: Level 1");
+  });
+});
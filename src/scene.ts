@@ -0,0 +1,466 @@
+/**
+ * The scene module which describes everything drawn on the canvas as a list of keyed nodes, and draws a scene by applying only
+ * the changes since the last scene that was drawn.
+ * Describing a scene touches nothing, and drawing one only goes through the small Surface interface, so that it can be tested with a fake DOM.
+ */
+import { Body, State, Player, CROCHEAD, TICKSPERSECOND, players, winner } from "./game";
+import { Hitbox, rect, widthOf, heightOf } from "./hitbox";
+import { App, INITIALSLENGTH } from "./app";
+import { ROOMCODELENGTH } from "./net";
+import { Sprite, SpriteKind, Theme, DEFAULTTHEME, frameAt } from "./theme";
+import { Editor } from "./editor";
+import { POWERUPS } from "./powerup";
+import { PRESETS, difficultyLabel } from "./difficulty";
+
+/** The section below contains all the types that will be used for scenes */
+
+/**
+ * The Attributes type which represents the attributes of a node using key value pairs
+ */
+export type Attributes = Readonly<{ [key: string]: string }>
+
+/**
+ * The SceneNode type which represents a single element drawn on the canvas, the id of the node is the key used to find it again
+ */
+export type SceneNode = Readonly<{
+  id: string,
+  tag: "rect" | "circle" | "text" | "image",
+  attributes: Attributes,
+  text: string
+}>
+
+/**
+ * The Scene type which represents everything drawn on the canvas, nodes later in the scene are drawn on top
+ */
+export type Scene = ReadonlyArray<SceneNode>
+
+/**
+ * The Patch type which represents a single change to the canvas
+ */
+export type Patch =
+  Readonly<{ kind: "create", node: SceneNode, before: string | null }>
+  | Readonly<{ kind: "update", id: string, set: Attributes, unset: ReadonlyArray<string>, text: string | null }>
+  | Readonly<{ kind: "remove", id: string }>
+
+/**
+ * The SceneElement type which represents the parts of an element that are used to draw a node, a DOM element is one
+ */
+export type SceneElement = {
+  setAttribute: (name: string, value: string) => void,
+  removeAttribute: (name: string) => void,
+  textContent: string | null
+}
+
+/**
+ * The Surface type which represents anything a scene can be drawn on, the canvas is one
+ */
+export type Surface<E extends SceneElement> = Readonly<{
+  create: (tag: string) => E,
+  insert: (e: E, before: E | null) => void,
+  remove: (e: E) => void
+}>
+
+/** The section above contains all the types that will be used for scenes */
+
+/** The section below contains all the functions used to describe the nodes of all the objects in the game */
+
+/**
+ * Function that creates a node
+ * @param tag The tag of the node
+ * @param id The id of the node
+ * @param attributes The attributes of the node
+ * @param text The text of the node, only used by text nodes
+ * @returns The node
+ */
+const node = (tag: SceneNode["tag"], id: string, attributes: Attributes, text: string = ""): SceneNode => ({
+  id: id,
+  tag: tag,
+  attributes: attributes,
+  text: text
+})
+
+/**
+ * Function that describes the node of something in the game, drawn as the current frame of its sprite or as its hitbox filled with
+ * the colour of its sprite if the sprite has no frames
+ * @param sprite The sprite
+ * @param time The time elapsed in the game, used to pick the frame of the sprite
+ * @param id The id of the node
+ * @param hitbox The hitbox, the node is drawn exactly as big as it
+ * @param x x-coordinate of the hitbox
+ * @param y y-coordinate of the hitbox
+ * @returns The node
+ */
+const paint = (sprite: Sprite, time: number, id: string, hitbox: Hitbox, x: number, y: number): SceneNode => {
+  const frame = frameAt(sprite, time);
+  return frame === null ? node(hitbox.kind, id, {
+      ...(hitbox.kind === "rect" ? {width: `${hitbox.width}`, height: `${hitbox.height}`} : {r: `${hitbox.radius}`}),
+      transform: `translate(${x}, ${y})`,
+      style: `fill:${sprite.fill}`
+    })
+    : node("image", id, {
+      width: `${widthOf(hitbox)}`,
+      height: `${heightOf(hitbox)}`,
+      //Images are positioned by their top left corner, while circles are positioned by their centre
+      transform: hitbox.kind === "rect" ? `translate(${x}, ${y})` : `translate(${x - hitbox.radius}, ${y - hitbox.radius})`,
+      href: frame
+    })
+}
+
+/**
+ * Function that adds an opacity to a node
+ * @param n The node
+ * @param opacity The opacity, from 0 to 1
+ * @returns The node with the opacity
+ */
+const fade = (n: SceneNode, opacity: string): SceneNode => ({...n, attributes: {...n.attributes, opacity: opacity}})
+
+/** The section above contains all the functions used to describe the nodes of all the objects in the game */
+
+/**
+ * Function that describes the static background of the canvas
+ * @param theme The theme of the game
+ * @returns The scene of the background
+ */
+export const describeBackground = (theme: Theme = DEFAULTTHEME): Scene =>
+  theme.background.map((b, index) => b.image === null
+    ? node("rect", `background${index}`, {width: `${b.width}`, height: `${b.height}`, style: `fill:${b.fill}`, transform: `translate(${b.x}, ${b.y})`})
+    : node("image", `background${index}`, {width: `${b.width}`, height: `${b.height}`, transform: `translate(${b.x}, ${b.y})`, href: b.image}))
+
+/**
+ * Function that describes everything in the game that is drawn on the canvas
+ * @param s The current state of the game
+ * @param theme The theme of the game
+ * @returns The scene of the game
+ */
+export const describeGame = (s: State, theme: Theme = DEFAULTTHEME): Scene => {
+  const lurkingTarget = s.targets[s.lurkingCroc];
+  const flyTarget = s.targets[s.fly];
+
+  /**
+   * Function that describes the node of a body with the sprite of the given kind
+   * @param kind The kind of sprite
+   * @returns A function that describes the node of the given body
+   */
+  const draw = (kind: SpriteKind) => (b: Body): SceneNode => paint(theme.sprites[kind], s.time, b.id, b.hitbox, b.position.x, b.position.y);
+
+  /**
+   * Function that describes the node of a crocodile and the node of its head, which is at the front of the crocodile and opens its mouth
+   * while its jaws are open
+   * @param b The crocodile
+   * @returns The nodes of the crocodile
+   */
+  const croc = (b: Body): Scene => [
+    draw("croc")(b),
+    paint(theme.sprites[b.mouthOpen ? "crocMouth" : "crocHead"], s.time, `${b.id}head`, rect(widthOf(b.hitbox) * CROCHEAD, heightOf(b.hitbox)),
+      b.position.x + (b.velocity.x < 0 ? 0 : widthOf(b.hitbox) * (1 - CROCHEAD)), b.position.y)
+  ];
+
+  /**
+   * The sprites of the frogs of the first and second player, so the two frogs can be told apart
+   */
+  const frogSprites: ReadonlyArray<SpriteKind> = ["frog", "frogTwo"];
+
+  /**
+   * Function that describes the node of a static frog, which sits in the middle of a target once the target is filled,
+   * drawn as the frog of the player who filled it
+   * @param t The filled target
+   * @returns The node of the static frog
+   */
+  const staticFrog = (t: Body): SceneNode =>
+    paint(theme.sprites[frogSprites[t.filledBy || 0]], s.time, `${t.id}frog`, s.frog.hitbox,
+      t.position.x + widthOf(t.hitbox) / 2, t.position.y + heightOf(t.hitbox) / 2);
+
+  /**
+   * Function that describes the node of the frog of a player.
+   * A frog poisoned by a snake is drawn faded, and the frog blinks while it is invulnerable after respawning
+   * @param p The player
+   * @param index The index of the player
+   * @returns The node of the frog, or nothing if the player has no lives left in a two player game
+   */
+  const frog = (p: Player, index: number): Scene =>
+    s.second !== null && p.lives === 0 ? []
+    : [fade(draw(frogSprites[index])(p.frog), Math.floor(p.invulnerable / 10) % 2 === 1 ? "0.3" : p.poison > 0 ? "0.6" : "1")];
+
+  /**
+   * Function that describes the timer bar of a player, which shrinks as the frog runs out of time and turns red when time is almost up.
+   * In a two player game each player has half of the bottom of the canvas
+   * @param p The player
+   * @param index The index of the player
+   * @returns The node of the timer bar
+   */
+  const timer = (p: Player, index: number): SceneNode => {
+    const width = s.second === null ? 600 : 300;
+    return node("rect", index === 0 ? "timer" : "timertwo", {
+      height: "8",
+      width: `${Math.max(0, width * p.timeLeft / s.timeLimit)}`,
+      style: p.timeLeft < s.timeLimit / 4 ? "fill:red" : "fill:limegreen",
+      transform: `translate(${index * width}, 590)`
+    })
+  }
+
+  /**
+   * Function that describes the active power ups of a player and the seconds they have left, shown just above the timer bar,
+   * along with how long the poison of a snake bite has left
+   * @param p The player
+   * @param index The index of the player
+   * @returns The node of the power ups, or nothing if the player has no active power ups and is not poisoned
+   */
+  const powerUps = (p: Player, index: number): Scene =>
+    p.powerUps.length === 0 && p.poison === 0 ? []
+    : [node("text", index === 0 ? "powerups" : "powerupstwo", {
+      x: `${10 + index * 300}`,
+      y: "582",
+      style: "fill:white;font-size:14px;font-family:monospace"
+    }, (p.poison > 0 ? [`POISONED ${Math.ceil(p.poison / TICKSPERSECOND)}s`] : [])
+      .concat(p.powerUps.map(u => `${POWERUPS[u.kind].name} ${Math.ceil(u.ticksLeft / TICKSPERSECOND)}s`)).join("  "))];
+
+  return [
+    ...s.targets.map(draw("target")),
+    ...s.targets.filter(t => t.filled).map(staticFrog),
+    ...s.cars.map(draw("car")),
+    ...s.buses.map(draw("bus")),
+    ...s.planks.map(draw("plank")),
+    ...s.crocs.flatMap(croc),
+    ...s.snakes.map(draw("snake")),
+    //Diving turtles fade out as they sink and only leave a faint outline while submerged
+    ...s.turtles.map(t => fade(draw("turtle")(t), t.phase === "submerged" ? "0.15" : t.phase === "sinking" ? "0.6" : "1")),
+    ...(s.pickup === null ? [] : [draw(POWERUPS[s.pickup.kind].sprite)(s.pickup)]),
+    ...(lurkingTarget ? [paint(theme.sprites.lurkingCroc, s.time, "lurkingCroc", rect(60, 50), lurkingTarget.position.x + 10, lurkingTarget.position.y + 10)] : []),
+    ...(flyTarget ? [paint(theme.sprites.fly, s.time, "fly", rect(20, 20), flyTarget.position.x + 30, flyTarget.position.y + 25)] : []),
+    ...players(s).flatMap(frog),
+    //The lady frog is drawn after the frogs so she sits on the back of the frog carrying her
+    ...(s.ladyFrog === null ? [] : [draw("ladyFrog")(s.ladyFrog)]),
+    ...players(s).map(timer),
+    ...players(s).flatMap(powerUps),
+    //The difficulty sits above the target bays, with how adaptive difficulty has tuned the lanes while it is on
+    node("text", "difficulty", {x: "300", y: "24", "text-anchor": "middle", style: "fill:white;font-size:14px;font-family:monospace"},
+      `${difficultyLabel(s.config.difficulty, s.config.adaptive)}${s.config.adaptive
+        ? `  speed ${Math.round(s.tuning.speed * 100)}%  traffic ${Math.round(s.tuning.density * 100)}%` : ""}`),
+    ...(s.second === null
+      ? [node("text", "score", {x: "30", y: "330", class: "score", style: "fill:black;font-size:22px"},
+        `Level: ${s.level} | Lives: ${s.lives} | Score: ${s.score} | Highscore: ${s.highScore}`)]
+      : [node("text", "score", {x: "30", y: "315", class: "score", style: "fill:black;font-size:18px"},
+        `Level: ${s.level} | Highscore: ${s.highScore}`),
+        ...players(s).map((p, index) => node("text", `score${index + 1}`, {x: `${30 + index * 300}`, y: "342", style: "fill:black;font-size:18px"},
+          `P${index + 1} Lives: ${p.lives} | Score: ${p.score}`))]),
+    ...(s.gameOver ? [node("text", "gameOver", {x: "150", y: "300", class: "gameover", style: "fill:red;font-size:60px"}, "Game Over")] : []),
+    ...(s.gameOver && s.second !== null ? describeSummary(s) : [])
+  ]
+}
+
+/**
+ * Function that describes the summary shown at the end of a two player game, with the score of every player and how many frogs
+ * they brought home. Players that raced each other are told who won, players that played together are told their total score
+ * @param s The state of the game once it is over
+ * @returns The scene of the summary
+ */
+const describeSummary = (s: State): Scene => {
+  const best = winner(s);
+  const lines = [
+    ...players(s).map((p, index) => `Player ${index + 1}: ${p.score} points, ${p.frogCount} frogs home`),
+    s.config.mode === "coop" ? `Team score: ${players(s).reduce((total, p) => total + p.score, 0)}`
+      : best === null ? "It's a draw" : `Player ${best + 1} wins`,
+    "Press Escape to go back"
+  ];
+  return lines.map((line, index) => node("text", `summary${index}`, {
+    x: "300",
+    y: `${380 + index * 30}`,
+    "text-anchor": "middle",
+    style: "fill:white;font-size:22px;font-family:monospace"
+  }, line))
+}
+
+/**
+ * Function that describes everything drawn on the canvas for a frame
+ * @param s The current state of the game
+ * @param screen The screen shown on top of the game
+ * @param theme The theme of the game
+ * @returns The scene of the frame
+ */
+export const describeFrame = (s: State, screen: Scene = [], theme: Theme = DEFAULTTHEME): Scene =>
+  describeBackground(theme).concat(describeGame(s, theme), screen)
+
+/**
+ * Function that describes the title, initials entry, pause, lobby or leaderboard screen shown on top of the game,
+ * only a reminder that the autopilot is on is shown on top of the game while it is played, unless an online game has drifted apart
+ * from the other browser
+ * @param a The current state of the app
+ * @returns The scene of the screen
+ */
+export const describeScreen = (a: App): Scene => {
+  const desync = a.online !== null && a.online.desync !== null;
+  if(a.screen === "playing" && !a.paused && !desync) {
+    return a.autopilot ? [node("text", "autopilot", {
+      x: "590",
+      y: "20",
+      "text-anchor": "end",
+      style: "fill:yellow;font-size:16px;font-family:monospace"
+    }, "AUTOPILOT")] : []
+  }
+
+  /**
+   * The lines of text shown on the screen, with their font size
+   */
+  const lines: ReadonlyArray<[string, number]> =
+    a.screen === "playing" && desync ? [
+      ["OUT OF SYNC", 60], ["", 30], ["The two games drifted apart", 24], ["Press Escape to leave", 24]
+    ]
+    : a.screen === "playing" ? [
+      ["PAUSED", 60], ["", 30], ["Press P or Escape to resume", 24]
+    ]
+    : a.screen === "title" ? [
+      ["FROGGER", 60], ["", 30], ["Press Space to play", 24], ["Press C to play together with a friend", 24],
+      ["Press V to race a friend", 24], ["Press O to play online", 24], ["Press L for the leaderboard", 24], ["", 20],
+      [`Difficulty: ${PRESETS[a.config.difficulty].name} (press D to change)`, 20],
+      [`Adaptive difficulty: ${a.config.adaptive ? "on" : "off"} (press A to turn ${a.config.adaptive ? "off" : "on"})`, 20]
+    ]
+    : a.screen === "lobby" ? [
+      ["PLAY ONLINE", 40], ["", 30],
+      ...(a.lobby.status === "connecting" ? [["Connecting...", 24]]
+        : a.lobby.status === "waiting" ? [[`Room ${a.lobby.room}`, 30], ["Waiting for the other player", 24]]
+        : [
+          [`Room code: ${a.lobby.room.padEnd(ROOMCODELENGTH, "_")}`, 24],
+          ["Press Enter to create a room", 20], ["or type a code to join one", 20]
+        ]) as [string, number][],
+      ...(a.lobby.status === "error" ? [["", 20], [a.lobby.message, 20]] : []) as [string, number][],
+      ["", 20], ["Press Escape to go back", 20]
+    ]
+    : a.screen === "initials" ? [
+      ["NEW HIGH SCORE", 40], [`${a.game.score}`, 30], ["", 30],
+      [`Enter your initials: ${a.initials.padEnd(INITIALSLENGTH, "_")}`, 24], ["Press Enter to confirm", 20]
+    ]
+    : ([["LEADERBOARD", 40]] as [string, number][])
+      .concat(a.leaderboard.length === 0 ? [["No scores yet", 20]] : a.leaderboard.map((e, index): [string, number] =>
+        [`${index + 1}. ${e.initials.padEnd(INITIALSLENGTH)}  ${e.score}  Level ${e.level}  ${difficultyLabel(e.difficulty || "normal", e.adaptive === true)}  ${e.date.slice(0, 10)}`, 18]))
+      .concat([["", 20], ["Press Escape to go back", 20]]);
+
+  return [node("rect", "overlay", {width: "600", height: "600", style: "fill:black;opacity:0.75"})].concat(
+    lines.reduce<[SceneNode[], number]>(([nodes, y], [line, size], index) => [nodes.concat([node("text", `overlay${index}`, {
+      x: "300",
+      y: `${y + size}`,
+      "text-anchor": "middle",
+      style: `fill:white;font-size:${size}px;font-family:monospace`
+    }, line)]), y + size * 1.4], [[], 100])[0])
+}
+
+/**
+ * Function that describes what the level editor draws on top of the preview of the level.
+ * The power up spawn areas are shaded since nothing in the game shows them, the selected part of the level is highlighted,
+ * with a lane highlighted along its whole row, and the name of the level is shown in the corner
+ * @param e The current state of the editor
+ * @returns The scene of the editor
+ */
+export const describeEditor = (e: Editor): Scene => {
+  const bays = e.preview.targets;
+  const selected = e.selected === null ? null
+    : e.selected.kind === "lane" ? {x: 0, y: e.level.lanes[e.selected.index].row, width: 600, height: e.level.lanes[e.selected.index].height}
+    : e.selected.kind === "bay" ? {
+      x: bays[e.selected.index].position.x,
+      y: bays[e.selected.index].position.y,
+      width: widthOf(bays[e.selected.index].hitbox),
+      height: heightOf(bays[e.selected.index].hitbox)
+    }
+    : {
+      x: e.level.powerUps[e.selected.index].x[0],
+      y: e.level.powerUps[e.selected.index].y[0],
+      width: e.level.powerUps[e.selected.index].x[1] - e.level.powerUps[e.selected.index].x[0],
+      height: e.level.powerUps[e.selected.index].y[1] - e.level.powerUps[e.selected.index].y[0]
+    };
+
+  return e.level.powerUps.map((p, index) => node("rect", `spawn${index}`, {
+      width: `${p.x[1] - p.x[0]}`,
+      height: `${p.y[1] - p.y[0]}`,
+      transform: `translate(${p.x[0]}, ${p.y[0]})`,
+      style: "fill:yellow;opacity:0.25"
+    }))
+    .concat(selected === null ? [] : [node("rect", "selected", {
+      width: `${selected.width}`,
+      height: `${selected.height}`,
+      transform: `translate(${selected.x}, ${selected.y})`,
+      style: "fill:white;opacity:0.3"
+    })])
+    .concat([node("text", "editorHint", {
+      x: "10",
+      y: "20",
+      style: "fill:yellow;font-size:16px;font-family:monospace"
+    }, `EDITOR: ${e.level.name}${e.running ? "" : " (stopped)"}`)])
+}
+
+/**
+ * Function that finds the changes that turn one scene into another.
+ * Nodes that are in both scenes are expected to stay in the same order, new nodes are inserted before the next node that is kept
+ * @param prev The scene that is drawn
+ * @param next The scene to draw
+ * @returns The changes to make, in the order they should be made
+ */
+export const diffScene = (prev: Scene, next: Scene): ReadonlyArray<Patch> => {
+  const old = new Map(prev.map(n => [n.id, n]));
+  const kept = (n: SceneNode) => old.has(n.id) && (old.get(n.id) as SceneNode).tag === n.tag;
+  const ids = new Set(next.filter(kept).map(n => n.id));
+
+  /**
+   * The id of the next node that is kept after every node of the new scene, new nodes are inserted before it
+   */
+  const before = next.reduceRight<ReadonlyArray<string | null>>((acc, n, index) =>
+    [index + 1 < next.length && kept(next[index + 1]) ? next[index + 1].id : acc.length > 0 ? acc[0] : null].concat(acc), []);
+
+  return [
+    ...prev.filter(n => !ids.has(n.id)).map((n): Patch => ({kind: "remove", id: n.id})),
+    ...next.flatMap((n, index): Patch[] => {
+      if(!kept(n)) {
+        return [{kind: "create", node: n, before: before[index]}]
+      }
+      const o = old.get(n.id) as SceneNode;
+      const set = Object.keys(n.attributes).filter(key => o.attributes[key] !== n.attributes[key]);
+      const unset = Object.keys(o.attributes).filter(key => !(key in n.attributes));
+      return set.length > 0 || unset.length > 0 || o.text !== n.text ? [{
+        kind: "update",
+        id: n.id,
+        set: set.reduce((acc, key) => ({...acc, [key]: n.attributes[key]}), {}),
+        unset: unset,
+        text: o.text !== n.text ? n.text : null
+      }] : []
+    })
+  ]
+}
+
+/**
+ * Function that creates a renderer, which remembers the scene it last drew on the given surface and the element of every node,
+ * so that drawing a scene only makes the changes since the last one
+ * @param surface The given surface
+ * @returns A function that draws the given scene on the surface
+ */
+export const createRenderer = <E extends SceneElement>(surface: Surface<E>) => {
+  const elements = new Map<string, E>();
+  let drawn: Scene = [];
+
+  /**
+   * Function that makes a single change to the surface
+   * @param p The change
+   */
+  const apply = (p: Patch): void => {
+    if(p.kind === "remove") {
+      surface.remove(elements.get(p.id) as E);
+      elements.delete(p.id);
+    }
+    else if(p.kind === "create") {
+      const e = surface.create(p.node.tag);
+      e.setAttribute("id", p.node.id);
+      Object.keys(p.node.attributes).forEach(key => e.setAttribute(key, p.node.attributes[key]));
+      if(p.node.text !== "") e.textContent = p.node.text;
+      surface.insert(e, p.before === null ? null : elements.get(p.before) || null);
+      elements.set(p.node.id, e);
+    }
+    else {
+      const e = elements.get(p.id) as E;
+      Object.keys(p.set).forEach(key => e.setAttribute(key, p.set[key]));
+      p.unset.forEach(key => e.removeAttribute(key));
+      if(p.text !== null) e.textContent = p.text;
+    }
+  }
+
+  return (scene: Scene): void => {
+    diffScene(drawn, scene).forEach(apply);
+    drawn = scene;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * The relay server which lets two browsers play the same game online, run it with npm run server.
+ * The port is taken from the PORT environment variable. Everything the server decides is done by the relay module, this file only
+ * connects it to the sockets.
+ */
+import { WebSocketServer, WebSocket, MessageEvent, Data } from "ws";
+import { fromEvent, merge } from "rxjs";
+import { map, mergeMap, scan, take, takeUntil } from "rxjs/operators";
+import { DEFAULTPORT, parseMessage } from "./net";
+import { Relay, EMPTYRELAY, relayMessage, disconnect } from "./relay";
+
+/**
+ * The main function of the relay server.
+ */
+function serve() {
+
+  const port = Number(process.env.PORT || DEFAULTPORT);
+  const server = new WebSocketServer({port: port});
+
+  /**
+   * The socket of every connected client, by the id of the client
+   */
+  const sockets = new Map<string, WebSocket>();
+
+  /**
+   * Function that handles a message from a client, a message that cannot be read is answered with an error
+   * @param client The id of the client
+   * @param data The contents of the message
+   * @returns The change the message makes to the relay
+   */
+  const handle = (client: string, data: Data) => (r: Relay): Relay => {
+    try {
+      return relayMessage(r, client, parseMessage(data.toString()), Math.floor(Math.random() * 0x80000000));
+    } catch {
+      return {...r, outbox: [[client, {type: "error", message: "Invalid message"}]]};
+    }
+  }
+
+  /**
+   * Every change to the relay, a message from a client or a client disconnecting
+   */
+  const changes = fromEvent<[WebSocket]>(server, "connection").pipe(
+    mergeMap(([socket], index) => {
+      const client = `${index}`;
+      sockets.set(client, socket);
+      const closed = fromEvent(socket, "close").pipe(take(1));
+      return merge(
+        fromEvent<MessageEvent>(socket, "message").pipe(
+          takeUntil(closed),
+          map(({data}) => handle(client, data))
+        ),
+        closed.pipe(map(() => (r: Relay) => {
+          sockets.delete(client);
+          return disconnect(r, client);
+        }))
+      )
+    })
+  );
+
+  /**
+   * Function that sends the messages of the relay to the clients after every change
+   */
+  const subscription = changes
+    .pipe(scan((r: Relay, change: (r: Relay) => Relay) => change(r), EMPTYRELAY))
+    .subscribe(r => r.outbox.forEach(([client, m]) => {
+      const socket = sockets.get(client);
+      if(socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(m));
+    }));
+
+  console.log(`Frogger relay server listening on port ${port}`);
+}
+
+serve();
@@ -0,0 +1,59 @@
+/**
+ * The testing module which holds the helpers shared by the tests of the game, for scripting events and setting up states of the game.
+ * Nothing in this module is used by the game itself
+ */
+import { Body, State, GameEvent, Vector, Tick, createGame, reduceState } from "./game";
+import { rect } from "./hitbox";
+
+/**
+ * Function that feeds a scripted sequence of events through the reducer
+ * @param s The state of the game to start from
+ * @param events The scripted events
+ * @returns The state of the game after every event has been reduced
+ */
+export const play = (s: State, events: ReadonlyArray<GameEvent>): State => events.reduce(reduceState, s);
+
+/**
+ * Function that creates the given number of ticks starting from the given elapsed time
+ * @param n The number of ticks
+ * @param from The elapsed time of the first tick
+ * @returns The ticks
+ */
+export const ticks = (n: number, from: number = 0): ReadonlyArray<Tick> => Array(n).fill(0).map((_, index) => new Tick(from + index));
+
+/**
+ * Function that places the frog(Player) at the given position
+ * @param s The current state of the game
+ * @param x x-coordinate of the frog(Player)
+ * @param y y-coordinate of the frog(Player)
+ * @returns The state of the game with the frog(Player) at the given position
+ */
+export const placeFrog = (s: State, x: number, y: number): State => ({...s, frog: {...s.frog, position: new Vector(x, y)}});
+
+/**
+ * Function that creates a stationary body at the given position, as tall as a lane
+ * @param id The id of the body
+ * @param x x-coordinate of the left of the body
+ * @param y y-coordinate of the top of the body
+ * @param width The width of the body
+ * @returns The body
+ */
+export const still = (id: string, x: number, y: number, width: number): Body => ({id: id, position: new Vector(x, y), hitbox: rect(width, 30), velocity: Vector.Zero});
+
+/**
+ * Function that fills the target bays at the given indices
+ * @param s The current state of the game
+ * @param indices The indices of the target bays to fill
+ * @returns The state of the game with the target bays filled
+ */
+export const fillBays = (s: State, ...indices: ReadonlyArray<number>): State =>
+  ({...s, targets: s.targets.map((t, i) => indices.includes(i) ? {...t, filled: true} : t)});
+
+/**
+ * Function that creates a game with nothing in the lanes and the frog(Player) at the given position
+ * @param x x-coordinate of the frog(Player)
+ * @param y y-coordinate of the frog(Player)
+ * @returns The state of the game
+ */
+export const emptyGame = (x: number, y: number): State =>
+  placeFrog({...createGame(1), cars: [], buses: [], planks: [], crocs: [], snakes: [], turtles: [], pickup: null}, x, y)
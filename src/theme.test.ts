@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createGame } from "./game";
+import { describeGame, describeBackground } from "./scene";
+import { SPRITEKINDS, DEFAULTFRAMETIME, THEMES, DEFAULTTHEME, loadTheme, themeFor, frameAt } from "./theme";
+import flat from "./themes/flat.json";
+
+describe("loadTheme", () => {
+  it("loads every shipped theme", () => {
+    assert.deepEqual(THEMES.map(t => t.name), ["Flat", "Swamp"]);
+    THEMES.forEach(t => assert.deepEqual(Object.keys(t.sprites).sort(), [...SPRITEKINDS].sort()));
+  });
+
+  it("turns the inline SVG of a sprite into images and fills in the frame time", () => {
+    const theme = loadTheme({...flat, sprites: {...flat.sprites, car: {fill: "red", viewBox: "0 0 60 30", frames: ["<rect width='60' height='30'/>"]}}});
+    assert.equal(theme.sprites.car.frames.length, 1);
+    assert.ok(theme.sprites.car.frames[0].startsWith("data:image/svg+xml,"));
+    assert.equal(theme.sprites.car.frameTime, DEFAULTFRAMETIME);
+    assert.deepEqual(theme.sprites.bus.frames, []);
+  });
+
+  it("lists everything that is wrong with a theme file", () => {
+    const {car, ...sprites} = flat.sprites;
+    const json = {
+      ...flat,
+      background: [{x: 0, y: 700, width: 600, height: 70, fill: "brown", art: "<rect/>"}],
+      sprites: {...sprites, bus: {fill: "yellow", viewBox: "0 0 1 1", frames: [], frameTime: 0}}
+    };
+    assert.throws(() => loadTheme(json), (e: Error) =>
+      e.message === [
+        "Invalid theme:",
+        "background[0].y must be a number between 0 and 600",
+        "background[0].viewBox must be a string when background[0].art is given",
+        "sprites.car is missing",
+        "sprites.bus.frames must be a non-empty array of inline SVG strings",
+        "sprites.bus.frameTime must be a positive whole number of ticks"
+      ].join("\n"));
+    assert.throws(() => loadTheme(null), /theme must be an object/);
+  });
+});
+
+describe("themeFor", () => {
+  it("picks the theme from the query string and falls back to the default theme", () => {
+    assert.equal(themeFor("?theme=swamp").name, "Swamp");
+    assert.equal(themeFor("?theme=Flat").name, "Flat");
+    assert.equal(themeFor("?theme=neon"), DEFAULTTHEME);
+    assert.equal(themeFor(""), DEFAULTTHEME);
+  });
+});
+
+describe("frameAt", () => {
+  it("cycles through the frames of a sprite", () => {
+    const sprite = {fill: "green", frames: ["a", "b"], frameTime: 10};
+    assert.deepEqual([0, 9, 10, 19, 20].map(t => frameAt(sprite, t)), ["a", "a", "b", "b", "a"]);
+  });
+
+  it("has no frame for a flat colour", () => {
+    assert.equal(frameAt(DEFAULTTHEME.sprites.frog, 100), null);
+  });
+});
+
+describe("themes", () => {
+  it("draw the same bodies with different looks", () => {
+    const s = createGame(1);
+    const plain = describeGame(s, themeFor("?theme=flat"));
+    const swamp = describeGame(s, themeFor("?theme=swamp"));
+    assert.deepEqual(swamp.map(n => n.id), plain.map(n => n.id));
+    assert.equal(plain.find(n => n.id === "frog")?.tag, "circle");
+    assert.equal(swamp.find(n => n.id === "frog")?.tag, "image");
+    assert.equal(swamp.find(n => n.id === "frog")?.attributes.width, "50");
+  });
+
+  it("draw the background as images where the theme has art", () => {
+    assert.ok(describeBackground(DEFAULTTHEME).every(n => n.tag === "rect"));
+    assert.equal(describeBackground(themeFor("?theme=swamp"))[0].tag, "image");
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * The theme module which describes how every kind of body and the background of the game look, so that the look of the game can be
+ * changed without touching the renderers.
+ * The shipped themes live as JSON files in src/themes, a sprite is either a flat colour or frames of inline SVG that are played as an animation.
+ */
+import flat from "./themes/flat.json";
+import swamp from "./themes/swamp.json";
+import { isRecord, isList } from "./level";
+
+/** The section below contains all the types that will be used for themes */
+
+/**
+ * The SpriteKind type which represents everything in the game that a theme gives a look to
+ */
+export type SpriteKind = "frog" | "frogTwo" | "car" | "bus" | "plank" | "croc" | "crocHead" | "crocMouth" | "snake" | "turtle" | "target"
+  | "doubleJump" | "shield" | "slowTime" | "extraLife" | "antidote" | "lurkingCroc" | "fly" | "ladyFrog";
+
+/**
+ * The Sprite type which represents how something in the game looks.
+ * The fill is used when the sprite has no frames, otherwise the frames are images shown one after the other
+ */
+export type Sprite = Readonly<{
+  fill: string,
+  frames: ReadonlyArray<string>,
+  frameTime: number
+}>
+
+/**
+ * The Backdrop type which represents a part of the static background, either a flat colour or an image
+ */
+export type Backdrop = Readonly<{
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  fill: string,
+  image: string | null
+}>
+
+/**
+ * The Theme type which represents the look of everything in the game
+ */
+export type Theme = Readonly<{
+  name: string,
+  background: ReadonlyArray<Backdrop>,
+  sprites: Readonly<Record<SpriteKind, Sprite>>
+}>
+
+/**
+ * The Parsed type which represents the result of reading a part of a theme file, either the value read or everything wrong with it
+ */
+type Parsed<T> = Readonly<{
+  value: T | null,
+  errors: ReadonlyArray<string>
+}>
+
+/** The section above contains all the types that will be used for themes */
+
+/**
+ * Everything in the game that a theme must give a look to
+ */
+export const SPRITEKINDS: ReadonlyArray<SpriteKind> = ["frog", "frogTwo", "car", "bus", "plank", "croc", "crocHead", "crocMouth", "snake", "turtle", "target",
+  "doubleJump", "shield", "slowTime", "extraLife", "antidote", "lurkingCroc", "fly", "ladyFrog"];
+
+/**
+ * The number of ticks each frame of an animation is shown for if the theme file does not say otherwise
+ */
+export const DEFAULTFRAMETIME = 20;
+
+/**
+ * Function that checks if the given value is a number within the given limits
+ * @param v The given value
+ * @param min The smallest allowed number
+ * @param max The largest allowed number
+ * @returns True if the value is a number within the limits, false otherwise
+ */
+const isNumberWithin = (v: unknown, min: number, max: number): v is number =>
+  typeof v === "number" && Number.isFinite(v) && v >= min && v <= max
+
+/**
+ * Function that creates the result of reading a part of a theme file that is valid
+ * @param value The value read
+ * @returns The result
+ */
+const parsed = <T>(value: T): Parsed<T> => ({value: value, errors: []})
+
+/**
+ * Function that creates the result of reading a part of a theme file that has mistakes
+ * @param errors The error messages
+ * @returns The result
+ */
+const failed = <T>(errors: ReadonlyArray<string>): Parsed<T> => ({value: null, errors: errors})
+
+/**
+ * Function that turns inline SVG into an image that both the SVG and the canvas renderers can draw.
+ * The image is stretched to the size of whatever it is drawn for
+ * @param viewBox The area of the inline SVG that is shown
+ * @param art The inline SVG
+ * @returns The image as a data URL
+ */
+const toImage = (viewBox: string, art: string): string =>
+  `data:image/svg+xml,${encodeURIComponent(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox}" preserveAspectRatio="none">${art}</svg>`)}`
+
+/**
+ * Function that reads the inline SVG of a sprite or a part of the background into images
+ * @param art The object with a viewBox and the inline SVG
+ * @param key The key the inline SVG is stored under, frames holds a list of inline SVG and anything else a single one
+ * @param path Where the object is in the theme file, used in the error messages
+ * @returns The images, empty if there is no inline SVG, or everything that is wrong with the inline SVG
+ */
+const parseArt = (art: Readonly<Record<string, unknown>>, key: string, path: string): Parsed<ReadonlyArray<string>> => {
+  const svg = art[key];
+  const viewBox = art.viewBox;
+  const pictures = key === "frames" ? isList(svg) && svg.length > 0 && svg.every((f): f is string => typeof f === "string") ? svg : null
+    : typeof svg === "string" ? [svg] : null;
+  return svg === undefined ? parsed([])
+    : typeof viewBox === "string" && pictures !== null ? parsed(pictures.map(picture => toImage(viewBox, picture)))
+    : failed([
+      ...(typeof viewBox === "string" ? [] : [`${path}.viewBox must be a string when ${path}.${key} is given`]),
+      ...(pictures !== null ? [] : key === "frames" ? [`${path}.frames must be a non-empty array of inline SVG strings`] : [`${path}.${key} must be an inline SVG string`])
+    ])
+}
+
+/**
+ * Function that reads a sprite, the frame time is filled in when the theme file does not give it
+ * @param sprite The given value
+ * @param path Where the sprite is in the theme file, used in the error messages
+ * @returns The sprite, or everything that is wrong with it
+ */
+const parseSprite = (sprite: unknown, path: string): Parsed<Sprite> => {
+  if(!isRecord(sprite)) {
+    return failed([`${path} must be an object`])
+  }
+  const fill = sprite.fill;
+  const frames = parseArt(sprite, "frames", path);
+  const frameTime = sprite.frameTime === undefined ? DEFAULTFRAMETIME
+    : isNumberWithin(sprite.frameTime, 1, Infinity) && Number.isInteger(sprite.frameTime) ? sprite.frameTime : null;
+  return typeof fill === "string" && frames.value !== null && frameTime !== null
+    ? parsed({fill: fill, frames: frames.value, frameTime: frameTime})
+    : failed([
+      ...(typeof fill === "string" ? [] : [`${path}.fill must be a colour`]),
+      ...frames.errors,
+      ...(frameTime !== null ? [] : [`${path}.frameTime must be a positive whole number of ticks`])
+    ])
+}
+
+/**
+ * Function that reads a part of the background
+ * @param backdrop The given value
+ * @param path Where the part of the background is in the theme file, used in the error messages
+ * @returns The part of the background, or everything that is wrong with it
+ */
+const parseBackdrop = (backdrop: unknown, path: string): Parsed<Backdrop> => {
+  if(!isRecord(backdrop)) {
+    return failed([`${path} must be an object`])
+  }
+  const {x, y, width, height, fill} = backdrop;
+  const art = parseArt(backdrop, "art", path);
+  return isNumberWithin(x, 0, 600) && isNumberWithin(y, 0, 600) && isNumberWithin(width, 0, 600) && isNumberWithin(height, 0, 600)
+    && typeof fill === "string" && art.value !== null
+    ? parsed({x: x, y: y, width: width, height: height, fill: fill, image: art.value.length === 0 ? null : art.value[0]})
+    : failed([
+      ...Object.entries({x, y, width, height}).flatMap(([key, v]) => isNumberWithin(v, 0, 600) ? [] : [`${path}.${key} must be a number between 0 and 600`]),
+      ...(typeof fill === "string" ? [] : [`${path}.fill must be a colour`]),
+      ...art.errors
+    ])
+}
+
+/**
+ * Function that reads a theme from the parsed contents of a theme file
+ * @param json The parsed contents of the theme file
+ * @returns The theme, or everything that is wrong with the theme file
+ */
+const parseTheme = (json: unknown): Parsed<Theme> => {
+  if(!isRecord(json)) {
+    return failed(["theme must be an object"])
+  }
+  const {name, background, sprites} = json;
+  const backdrops = isList(background) ? background.map((backdrop, index) => parseBackdrop(backdrop, `background[${index}]`)) : null;
+  const looks = isRecord(sprites) ? SPRITEKINDS.map(kind =>
+    sprites[kind] === undefined ? failed<Sprite>([`sprites.${kind} is missing`]) : parseSprite(sprites[kind], `sprites.${kind}`)) : null;
+  const errors = [
+    ...(typeof name === "string" ? [] : ["name must be a string"]),
+    ...(backdrops === null ? ["background must be an array"] : backdrops.flatMap(b => b.errors)),
+    ...(looks === null ? ["sprites must be an object"] : looks.flatMap(l => l.errors))
+  ];
+  return typeof name !== "string" || backdrops === null || looks === null || errors.length > 0 ? failed(errors) : parsed({
+    name: name,
+    background: backdrops.flatMap(b => b.value === null ? [] : [b.value]),
+    sprites: SPRITEKINDS.reduce((acc, kind, index) => {
+      const sprite = looks[index].value;
+      return sprite === null ? acc : {...acc, [kind]: sprite}
+    }, {} as Record<SpriteKind, Sprite>)
+  })
+}
+
+/**
+ * Function that finds everything that is wrong with a theme file
+ * @param json The parsed contents of the theme file
+ * @returns The error messages, empty if the theme is valid
+ */
+export const validateTheme = (json: unknown): ReadonlyArray<string> => parseTheme(json).errors
+
+/**
+ * Function that loads a theme from the parsed contents of a theme file
+ * @param json The parsed contents of the theme file
+ * @returns The theme
+ * @throws Error listing everything that is wrong with the theme file if it is not a valid theme
+ */
+export const loadTheme = (json: unknown): Theme => {
+  const theme = parseTheme(json);
+  if(theme.value === null) {
+    throw new Error(`Invalid theme:\n${theme.errors.join("\n")}`);
+  }
+  return theme.value
+}
+
+/**
+ * The themes shipped with the game, the first one is the default
+ */
+export const THEMES: ReadonlyArray<Theme> = [flat, swamp].map(loadTheme);
+
+/**
+ * The default theme, which gives everything in the game a flat colour
+ */
+export const DEFAULTTHEME = THEMES[0];
+
+/**
+ * Function that picks the theme asked for by the theme query parameter of the page, the default theme is used otherwise
+ * @param search The query string of the page
+ * @returns The theme to use
+ */
+export const themeFor = (search: string): Theme => {
+  const name = (new URLSearchParams(search).get("theme") || "").toLowerCase();
+  return THEMES.find(t => t.name.toLowerCase() === name) || DEFAULTTHEME;
+}
+
+/**
+ * Function that picks the frame of a sprite that is shown at the given time
+ * @param sprite The given sprite
+ * @param time The time elapsed in the game, in ticks
+ * @returns The image of the frame, or null if the sprite is a flat colour
+ */
+export const frameAt = (sprite: Sprite, time: number): string | null =>
+  sprite.frames.length === 0 ? null : sprite.frames[Math.floor(Math.max(0, time) / sprite.frameTime) % sprite.frames.length]